@@ -1,24 +1,36 @@
 import { useEffect, useState } from 'react'
 import './App.css'
+import { getHashPath } from './features/catalog/catalog'
+import { readPlayerNameFromHashPath } from './features/profile/profile'
 import IntroPage from './pages/IntroPage'
 import MapPage from './pages/MapPage'
+import PlayerPage from './pages/PlayerPage'
 import RankingPage from './pages/RankingPage'
+import StatsPage from './pages/StatsPage'
 
-type ViewMode = 'intro' | 'map' | 'ranking'
+type ViewMode = 'intro' | 'map' | 'ranking' | 'stats' | 'player'
 
 const MAP_HASH = '#/map'
 const RANKING_HASH = '#/ranking'
+const STATS_HASH = '#/stats'
 
 function resolveViewModeFromHash(): ViewMode {
   if (typeof window === 'undefined') {
     return 'intro'
   }
-  if (window.location.hash === MAP_HASH) {
+  const hashPath = getHashPath(window.location.hash)
+  if (hashPath === MAP_HASH) {
     return 'map'
   }
-  if (window.location.hash === RANKING_HASH) {
+  if (hashPath === RANKING_HASH) {
     return 'ranking'
   }
+  if (hashPath === STATS_HASH) {
+    return 'stats'
+  }
+  if (readPlayerNameFromHashPath(hashPath)) {
+    return 'player'
+  }
   return 'intro'
 }
 
@@ -41,6 +53,14 @@ function App() {
     return <RankingPage />
   }
 
+  if (viewMode === 'stats') {
+    return <StatsPage />
+  }
+
+  if (viewMode === 'player') {
+    return <PlayerPage />
+  }
+
   return <IntroPage />
 }
 
@@ -1,6 +1,18 @@
 export const viewerColorSettings = {
   iconColorDefault: '#1f77b4',
   trailColorDefault: '#ff7f0e',
+  baseColor: '#8c564b',
+  hotspotColor: '#b23b3b',
+  coverageFogColor: '#1b2230',
+  heatmapLowColor: '#ffe08a',
+  heatmapHighColor: '#d62728',
+  movementModeColors: {
+    idle: '#9e9e9e',
+    walking: '#2ca02c',
+    running: '#ff7f0e',
+    vehicle: '#1f77b4',
+    teleport: '#d62728',
+  },
 } as const
 
 export const zoomSettings = {
@@ -10,3 +22,22 @@ export const zoomSettings = {
   tileSwitchZoom: 2.5,
   tileDetailZoom: 5.5,
 } as const
+
+export const liveFollowSettings = {
+  pollIntervalSec: 30,
+  liveEdgeToleranceSec: 120,
+  endpoint: String(import.meta.env.VITE_LIVE_TRACKS_URL ?? ''),
+} as const
+
+export const offlineSettings = {
+  thresholdOverrideSec: Number(import.meta.env.VITE_OFFLINE_THRESHOLD_SEC ?? 0) || null,
+} as const
+
+export const adminSettings = {
+  anomalyReportEnabled: String(import.meta.env.VITE_ADMIN_TOOLS ?? '') === 'true',
+} as const
+
+export const dataSettings = {
+  baseUrl: `${import.meta.env.BASE_URL}data/`,
+  catalogUrl: `${import.meta.env.BASE_URL}data/catalog.json`,
+} as const
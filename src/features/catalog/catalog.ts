@@ -0,0 +1,161 @@
+import type { TracksPeriod } from '../domain/tracks.js'
+
+export type SeasonCatalogEntry = {
+  id: string
+  name: string
+  path: string
+  timezone?: string
+  period?: TracksPeriod
+  characterCount: number
+  playerCount: number
+}
+
+export type SeasonCatalog = {
+  version: number
+  seasons: SeasonCatalogEntry[]
+}
+
+export type SeasonDataUrls = {
+  tracks: string
+  tracksBinary: string
+  trackChunks: string
+  snapshot: string
+}
+
+export type SeasonDataSources = {
+  baseUrl: string
+  catalogUrl: string
+}
+
+const SEASON_HASH_PARAM = 'season'
+
+function readCount(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, value) : 0
+}
+
+function readPeriod(value: unknown): TracksPeriod | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined
+  }
+  const { start, end } = value as Record<string, unknown>
+  if (typeof start !== 'string' || typeof end !== 'string') {
+    return undefined
+  }
+  return { start, end }
+}
+
+export function normalizeSeasonCatalog(raw: unknown): SeasonCatalog | null {
+  if (!raw || typeof raw !== 'object') {
+    return null
+  }
+  const rawSeasons = (raw as Record<string, unknown>).seasons
+  if (!Array.isArray(rawSeasons)) {
+    return null
+  }
+
+  const seasons: SeasonCatalogEntry[] = []
+  const seen = new Set<string>()
+  for (const rawEntry of rawSeasons) {
+    if (!rawEntry || typeof rawEntry !== 'object') {
+      continue
+    }
+    const entry = rawEntry as Record<string, unknown>
+    const id = typeof entry.id === 'string' ? entry.id.trim() : ''
+    const path = typeof entry.path === 'string' ? entry.path.trim() : ''
+    if (!id || !path || seen.has(id)) {
+      continue
+    }
+    seen.add(id)
+    const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : id
+    seasons.push({
+      id,
+      name,
+      path: path.endsWith('/') ? path : `${path}/`,
+      timezone: typeof entry.timezone === 'string' ? entry.timezone : undefined,
+      period: readPeriod(entry.period),
+      characterCount: readCount(entry.characterCount),
+      playerCount: readCount(entry.playerCount),
+    })
+  }
+
+  if (seasons.length === 0) {
+    return null
+  }
+
+  const version = (raw as Record<string, unknown>).version
+  return {
+    version: typeof version === 'number' ? version : 1,
+    seasons,
+  }
+}
+
+export function resolveSeasonEntry(catalog: SeasonCatalog | null, seasonId: string) {
+  if (!catalog || catalog.seasons.length === 0) {
+    return null
+  }
+  return catalog.seasons.find((season) => season.id === seasonId) ?? catalog.seasons[0]
+}
+
+export function getSeasonDataUrls(
+  dataBaseUrl: string,
+  season: SeasonCatalogEntry | null,
+): SeasonDataUrls {
+  const base = season ? `${dataBaseUrl}${season.path.replace(/^\/+/, '')}` : dataBaseUrl
+  return {
+    tracks: `${base}tracks.json`,
+    tracksBinary: `${base}tracks.bin`,
+    trackChunks: `${base}chunks/`,
+    snapshot: `${base}snapshot.json`,
+  }
+}
+
+export async function fetchSeasonCatalog(url: string, signal: AbortSignal) {
+  try {
+    const response = await fetch(url, { signal })
+    if (!response.ok) {
+      return null
+    }
+    return normalizeSeasonCatalog(await response.json())
+  } catch (error) {
+    if (signal.aborted) {
+      throw error
+    }
+    return null
+  }
+}
+
+export async function resolveSeasonData(
+  sources: SeasonDataSources,
+  seasonId: string,
+  signal: AbortSignal,
+) {
+  const catalog = await fetchSeasonCatalog(sources.catalogUrl, signal)
+  const season = resolveSeasonEntry(catalog, seasonId)
+  return { catalog, season, dataUrls: getSeasonDataUrls(sources.baseUrl, season) }
+}
+
+export function getHashPath(hash: string) {
+  const queryIndex = hash.indexOf('?')
+  return queryIndex >= 0 ? hash.slice(0, queryIndex) : hash
+}
+
+export function readSeasonIdFromHash(hash: string) {
+  const queryIndex = hash.indexOf('?')
+  if (queryIndex < 0) {
+    return ''
+  }
+  return new URLSearchParams(hash.slice(queryIndex + 1)).get(SEASON_HASH_PARAM)?.trim() ?? ''
+}
+
+export function withSeasonInHash(hash: string, seasonId: string) {
+  const queryIndex = hash.indexOf('?')
+  const path = queryIndex >= 0 ? hash.slice(0, queryIndex) : hash
+  const params = new URLSearchParams(queryIndex >= 0 ? hash.slice(queryIndex + 1) : '')
+  if (seasonId) {
+    params.set(SEASON_HASH_PARAM, seasonId)
+  } else {
+    params.delete(SEASON_HASH_PARAM)
+  }
+  const query = params.toString()
+  return query ? `${path}?${query}` : path
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react'
+import type { SnapshotData, TracksData } from '../ranking/ranking.js'
+import {
+  readSeasonIdFromHash,
+  resolveSeasonData,
+  resolveSeasonEntry,
+  withSeasonInHash,
+  type SeasonCatalog,
+  type SeasonDataSources,
+} from './catalog.js'
+import { loadTracks } from '../loader/tracksLoader.js'
+
+export type LoadStatus = 'idle' | 'loading' | 'ready' | 'error'
+
+export function goToHash(hash: string, seasonId = '') {
+  if (typeof window === 'undefined') {
+    return
+  }
+  window.location.hash = hash === '#/' ? '' : withSeasonInHash(hash, seasonId).slice(1)
+}
+
+/**
+ * Loads the catalog and the selected season's tracks (and snapshot when asked),
+ * keeping the season in sync with the URL hash.
+ */
+export function useSeasonTracks(
+  sources: SeasonDataSources,
+  {
+    pageName,
+    includeSnapshot = false,
+  }: {
+    pageName: string
+    includeSnapshot?: boolean
+  },
+) {
+  const [loadStatus, setLoadStatus] = useState<LoadStatus>('idle')
+  const [loadRequestSeq, setLoadRequestSeq] = useState(0)
+  const [tracksData, setTracksData] = useState<TracksData | null>(null)
+  const [snapshotData, setSnapshotData] = useState<SnapshotData | null>(null)
+  const [seasonCatalog, setSeasonCatalog] = useState<SeasonCatalog | null>(null)
+  const [selectedSeasonId, setSelectedSeasonId] = useState(() =>
+    typeof window === 'undefined' ? '' : readSeasonIdFromHash(window.location.hash),
+  )
+  const [errorMessage, setErrorMessage] = useState('')
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const load = async () => {
+      setLoadStatus('loading')
+      setErrorMessage('')
+
+      try {
+        const { catalog, dataUrls } = await resolveSeasonData(
+          sources,
+          selectedSeasonId,
+          controller.signal,
+        )
+        if (controller.signal.aborted) {
+          return
+        }
+        setSeasonCatalog(catalog)
+
+        const loadSnapshot = async () => {
+          if (!includeSnapshot) {
+            return null
+          }
+          const response = await fetch(dataUrls.snapshot, { signal: controller.signal })
+          if (!response.ok) {
+            throw new Error(`${pageName}-data-load-failed`)
+          }
+          return (await response.json()) as SnapshotData
+        }
+
+        const [loadedTracks, loadedSnapshot] = await Promise.all([
+          loadTracks(
+            { binary: dataUrls.tracksBinary, json: dataUrls.tracks },
+            { signal: controller.signal },
+          ),
+          loadSnapshot(),
+        ])
+
+        if (controller.signal.aborted) {
+          return
+        }
+
+        setTracksData(loadedTracks)
+        setSnapshotData(loadedSnapshot)
+        setLoadStatus('ready')
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return
+        }
+        console.error(`Failed to load ${pageName} data`, error)
+        setTracksData(null)
+        setSnapshotData(null)
+        setLoadStatus('error')
+        setErrorMessage('読み込みに失敗しました。再試行してください。')
+      }
+    }
+
+    void load()
+    return () => controller.abort()
+  }, [includeSnapshot, loadRequestSeq, pageName, selectedSeasonId, sources])
+
+  const activeSeasonId = resolveSeasonEntry(seasonCatalog, selectedSeasonId)?.id ?? ''
+
+  const handleSeasonChange = (seasonId: string) => {
+    if (seasonId === selectedSeasonId) {
+      return
+    }
+    window.history.replaceState(null, '', withSeasonInHash(window.location.hash, seasonId))
+    setSelectedSeasonId(seasonId)
+  }
+
+  const retryLoad = () => setLoadRequestSeq((prev) => prev + 1)
+
+  return {
+    loadStatus,
+    errorMessage,
+    tracksData,
+    snapshotData,
+    seasonCatalog,
+    activeSeasonId,
+    handleSeasonChange,
+    retryLoad,
+  }
+}
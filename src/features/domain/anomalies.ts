@@ -0,0 +1,224 @@
+import {
+  crossesOfflineGap,
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  type CharacterTrack,
+} from './characters.js'
+import { DEFAULT_MOVEMENT_SPEED_THRESHOLDS } from './movement.js'
+
+export type AnomalyKind = 'impossible-speed' | 'teleport' | 'out-of-bounds' | 'duplicate-position'
+
+export type Anomaly = {
+  id: string
+  kind: AnomalyKind
+  charName: string
+  playerName: string
+  time: number
+  endTime: number
+  x: number
+  y: number
+  count: number
+  distance?: number
+  speed?: number
+  otherCharName?: string
+}
+
+export type AnomalyWorldRange = {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export type AnomalyOptions = {
+  worldRange?: AnomalyWorldRange | null
+  maxSpeed?: number
+  teleportDistance?: number
+  eventToleranceSec?: number
+  offlineThresholdSec?: number
+}
+
+export const ANOMALY_KINDS: AnomalyKind[] = [
+  'teleport',
+  'impossible-speed',
+  'out-of-bounds',
+  'duplicate-position',
+]
+
+const DEFAULT_TELEPORT_DISTANCE = 100
+const DEFAULT_EVENT_TOLERANCE_SEC = 60
+
+function isNearSpawnEvent(character: CharacterTrack, time: number, toleranceSec: number) {
+  if (Math.abs(time - character.track.t[0]) <= toleranceSec) {
+    return true
+  }
+  return (character.events ?? []).some(
+    (event) =>
+      (event.type === 'respawn' || event.type === 'login') &&
+      Math.abs(event.t - time) <= toleranceSec,
+  )
+}
+
+function detectMovementAnomalies(
+  character: CharacterTrack,
+  maxSpeed: number,
+  teleportDistance: number,
+  eventToleranceSec: number,
+  offlineThresholdSec: number,
+) {
+  const anomalies: Anomaly[] = []
+  const { t, x, y } = character.track
+  for (let index = 1; index < t.length; index += 1) {
+    if (crossesOfflineGap(character.gaps.offline, t[index - 1], t[index], offlineThresholdSec)) {
+      continue
+    }
+    const distance = Math.hypot(x[index] - x[index - 1], y[index] - y[index - 1])
+    const durationSec = t[index] - t[index - 1]
+    const speed = durationSec > 0 ? distance / durationSec : Number.POSITIVE_INFINITY
+    if (distance === 0 || speed <= maxSpeed) {
+      continue
+    }
+    const kind: AnomalyKind = distance > teleportDistance ? 'teleport' : 'impossible-speed'
+    if (kind === 'teleport' && isNearSpawnEvent(character, t[index], eventToleranceSec)) {
+      continue
+    }
+    anomalies.push({
+      id: `${kind}:${character.charName}:${t[index]}`,
+      kind,
+      charName: character.charName,
+      playerName: character.playerName,
+      time: t[index - 1],
+      endTime: t[index],
+      x: x[index],
+      y: y[index],
+      count: 1,
+      distance,
+      speed,
+    })
+  }
+  return anomalies
+}
+
+function detectOutOfBounds(character: CharacterTrack, worldRange: AnomalyWorldRange) {
+  const anomalies: Anomaly[] = []
+  const { t, x, y } = character.track
+  let current: Anomaly | null = null
+  for (let index = 0; index < t.length; index += 1) {
+    const outside =
+      x[index] < worldRange.minX ||
+      x[index] > worldRange.maxX ||
+      y[index] < worldRange.minY ||
+      y[index] > worldRange.maxY
+    if (!outside) {
+      current = null
+      continue
+    }
+    if (current) {
+      current.endTime = t[index]
+      current.count += 1
+      continue
+    }
+    current = {
+      id: `out-of-bounds:${character.charName}:${t[index]}`,
+      kind: 'out-of-bounds',
+      charName: character.charName,
+      playerName: character.playerName,
+      time: t[index],
+      endTime: t[index],
+      x: x[index],
+      y: y[index],
+      count: 1,
+    }
+    anomalies.push(current)
+  }
+  return anomalies
+}
+
+function detectDuplicatePositions(characters: CharacterTrack[]) {
+  const firstOwner = new Map<string, number>()
+  const byPair = new Map<string, Anomaly>()
+  characters.forEach((character, characterIndex) => {
+    const { t, x, y } = character.track
+    for (let index = 0; index < t.length; index += 1) {
+      const key = `${t[index]}:${x[index]}:${y[index]}`
+      const ownerIndex = firstOwner.get(key)
+      if (ownerIndex == null) {
+        firstOwner.set(key, characterIndex)
+        continue
+      }
+      if (ownerIndex === characterIndex) {
+        continue
+      }
+      const owner = characters[ownerIndex]
+      const pairKey = `${ownerIndex}:${characterIndex}`
+      const existing = byPair.get(pairKey)
+      if (existing) {
+        existing.time = Math.min(existing.time, t[index])
+        existing.endTime = Math.max(existing.endTime, t[index])
+        existing.count += 1
+        continue
+      }
+      byPair.set(pairKey, {
+        id: `duplicate-position:${owner.charName}:${character.charName}:${t[index]}`,
+        kind: 'duplicate-position',
+        charName: owner.charName,
+        playerName: owner.playerName,
+        time: t[index],
+        endTime: t[index],
+        x: x[index],
+        y: y[index],
+        count: 1,
+        otherCharName: character.charName,
+      })
+    }
+  })
+  return [...byPair.values()]
+}
+
+export function detectAnomalies(
+  characters: CharacterTrack[],
+  options: AnomalyOptions = {},
+): Anomaly[] {
+  const maxSpeed = options.maxSpeed ?? DEFAULT_MOVEMENT_SPEED_THRESHOLDS.vehicleMax
+  const teleportDistance = options.teleportDistance ?? DEFAULT_TELEPORT_DISTANCE
+  const eventToleranceSec = options.eventToleranceSec ?? DEFAULT_EVENT_TOLERANCE_SEC
+  const offlineThresholdSec = options.offlineThresholdSec ?? DEFAULT_OFFLINE_THRESHOLD_SEC
+
+  const sorted = characters
+    .filter((character) => {
+      const { t, x, y } = character.track
+      return t.length > 0 && x.length === t.length && y.length === t.length
+    })
+    .sort((a, b) => a.charName.localeCompare(b.charName, 'ja'))
+
+  const anomalies: Anomaly[] = []
+  for (const character of sorted) {
+    anomalies.push(
+      ...detectMovementAnomalies(
+        character,
+        maxSpeed,
+        teleportDistance,
+        eventToleranceSec,
+        offlineThresholdSec,
+      ),
+    )
+    if (options.worldRange) {
+      anomalies.push(...detectOutOfBounds(character, options.worldRange))
+    }
+  }
+  anomalies.push(...detectDuplicatePositions(sorted))
+
+  return anomalies.sort((a, b) => a.time - b.time || a.id.localeCompare(b.id))
+}
+
+export function getAnomalyKindLabel(kind: AnomalyKind) {
+  if (kind === 'teleport') {
+    return 'テレポート'
+  }
+  if (kind === 'impossible-speed') {
+    return 'ありえない速度'
+  }
+  if (kind === 'out-of-bounds') {
+    return '範囲外の座標'
+  }
+  return '重複位置'
+}
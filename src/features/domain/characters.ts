@@ -3,6 +3,23 @@ export type TimeInterval = {
   end: number
 }
 
+export type CharacterEventType =
+  | 'login'
+  | 'logout'
+  | 'death'
+  | 'respawn'
+  | 'vehicleEnter'
+  | 'vehicleExit'
+  | 'other'
+
+export type CharacterEvent = {
+  t: number
+  type: CharacterEventType
+  x: number | null
+  y: number | null
+  raw?: string
+}
+
 export type CharacterTrack = {
   charName: string
   playerName: string
@@ -18,6 +35,7 @@ export type CharacterTrack = {
   gaps: {
     offline: Array<[number, number]>
   }
+  events?: CharacterEvent[]
 }
 
 export type CharacterSample = {
@@ -28,7 +46,18 @@ export type CharacterSample = {
   afterEnd: boolean
 }
 
-const OFFLINE_THRESHOLD_SEC = 2 * 60 * 60
+export type InterpolationMode = 'step' | 'linear' | 'spline'
+
+export type InterpolationOptions = {
+  mode?: InterpolationMode
+  snapDistance?: number
+}
+
+export const DEFAULT_OFFLINE_THRESHOLD_SEC = 2 * 60 * 60
+
+export const DEFAULT_SNAP_DISTANCE = 100
+
+export const INTERPOLATION_MODES: InterpolationMode[] = ['step', 'linear', 'spline']
 
 function clamp(value: number, min: number, max: number) {
   return Math.min(max, Math.max(min, value))
@@ -62,9 +91,19 @@ function upperBound(values: number[], target: number) {
   return left
 }
 
-export function isOfflineAtTime(gaps: Array<[number, number]>, time: number) {
+export function getCharacterPlayerName(
+  character: Pick<CharacterTrack, 'charName' | 'playerName'>,
+) {
+  return character.playerName.trim() || character.charName
+}
+
+export function isOfflineAtTime(
+  gaps: Array<[number, number]>,
+  time: number,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+) {
   for (const [start, end] of gaps) {
-    if (end - start < OFFLINE_THRESHOLD_SEC) {
+    if (end - start < offlineThresholdSec) {
       continue
     }
     if (time >= start && time <= end) {
@@ -78,9 +117,10 @@ export function crossesOfflineGap(
   gaps: Array<[number, number]>,
   start: number,
   end: number,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
 ) {
   for (const [gapStart, gapEnd] of gaps) {
-    if (gapEnd - gapStart < OFFLINE_THRESHOLD_SEC) {
+    if (gapEnd - gapStart < offlineThresholdSec) {
       continue
     }
     if (start < gapEnd && end > gapStart) {
@@ -90,7 +130,10 @@ export function crossesOfflineGap(
   return false
 }
 
-export function getCharacterOnlineIntervals(character: CharacterTrack): TimeInterval[] {
+export function getCharacterOnlineIntervals(
+  character: CharacterTrack,
+  offlineThresholdSec?: number,
+): TimeInterval[] {
   const result: TimeInterval[] = []
   if (!Number.isFinite(character.life.start) || !Number.isFinite(character.life.end)) {
     return result
@@ -102,6 +145,9 @@ export function getCharacterOnlineIntervals(character: CharacterTrack): TimeInte
   const gaps = [...character.gaps.offline].sort((a, b) => a[0] - b[0])
   let cursor = character.life.start
   for (const [rawStart, rawEnd] of gaps) {
+    if (offlineThresholdSec != null && rawEnd - rawStart < offlineThresholdSec) {
+      continue
+    }
     const gapStart = clamp(rawStart, character.life.start, character.life.end)
     const gapEnd = clamp(rawEnd, character.life.start, character.life.end)
     if (gapEnd <= gapStart) {
@@ -119,7 +165,39 @@ export function getCharacterOnlineIntervals(character: CharacterTrack): TimeInte
   return result
 }
 
-export function getPointAtTime(character: CharacterTrack, time: number): CharacterSample | null {
+function catmullRom(p0: number, p1: number, p2: number, p3: number, u: number) {
+  const u2 = u * u
+  const u3 = u2 * u
+  return (
+    0.5 *
+    (2 * p1 +
+      (p2 - p0) * u +
+      (2 * p0 - 5 * p1 + 4 * p2 - p3) * u2 +
+      (3 * p1 - p0 - 3 * p2 + p3) * u3)
+  )
+}
+
+function getSplineNeighborIndex(
+  xs: number[],
+  ys: number[],
+  from: number,
+  to: number,
+  snapDistance: number,
+) {
+  if (to < 0 || to >= xs.length) {
+    return from
+  }
+  return Math.hypot(xs[to] - xs[from], ys[to] - ys[from]) > snapDistance ? from : to
+}
+
+export function getPointAtTime(
+  character: CharacterTrack,
+  time: number,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+  interpolation: InterpolationOptions = {},
+): CharacterSample | null {
+  const mode = interpolation.mode ?? 'linear'
+  const snapDistance = interpolation.snapDistance ?? DEFAULT_SNAP_DISTANCE
   const times = character.track.t
   const xs = character.track.x
   const ys = character.track.y
@@ -150,7 +228,10 @@ export function getPointAtTime(character: CharacterTrack, time: number): Charact
     const u = clamp((time - t0) / span, 0, 1)
     const distance = Math.hypot(x1 - x0, y1 - y0)
 
-    if (distance > 100) {
+    if (mode === 'step') {
+      x = x0
+      y = y0
+    } else if (distance > snapDistance) {
       if (u < 0.5) {
         x = x0
         y = y0
@@ -158,6 +239,11 @@ export function getPointAtTime(character: CharacterTrack, time: number): Charact
         x = x1
         y = y1
       }
+    } else if (mode === 'spline') {
+      const before = getSplineNeighborIndex(xs, ys, i, i - 1, snapDistance)
+      const after = getSplineNeighborIndex(xs, ys, i + 1, i + 2, snapDistance)
+      x = catmullRom(xs[before], x0, x1, xs[after], u)
+      y = catmullRom(ys[before], y0, y1, ys[after], u)
     } else {
       x = x0 + (x1 - x0) * u
       y = y0 + (y1 - y0) * u
@@ -167,13 +253,17 @@ export function getPointAtTime(character: CharacterTrack, time: number): Charact
   return {
     x,
     y,
-    offline: isOfflineAtTime(character.gaps.offline, time),
+    offline: isOfflineAtTime(character.gaps.offline, time, offlineThresholdSec),
     beforeStart: time < character.life.start,
     afterEnd: time > character.life.end,
   }
 }
 
-export function getNearestOnlineTime(character: CharacterTrack, currentTime: number) {
+export function getNearestOnlineTime(
+  character: CharacterTrack,
+  currentTime: number,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+) {
   const times = character.track.t
   if (times.length === 0) {
     return null
@@ -185,7 +275,7 @@ export function getNearestOnlineTime(character: CharacterTrack, currentTime: num
   if (currentTime >= character.life.end) {
     return character.life.end
   }
-  if (!isOfflineAtTime(character.gaps.offline, currentTime)) {
+  if (!isOfflineAtTime(character.gaps.offline, currentTime, offlineThresholdSec)) {
     return currentTime
   }
 
@@ -201,14 +291,18 @@ export function getNearestOnlineTime(character: CharacterTrack, currentTime: num
   return Math.abs(currentTime - left) <= Math.abs(currentTime - right) ? left : right
 }
 
-export function selectTrackingCharacter(candidates: CharacterTrack[], time: number) {
+export function selectTrackingCharacter(
+  candidates: CharacterTrack[],
+  time: number,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+) {
   if (candidates.length === 0) {
     return null
   }
 
   const online = candidates
     .filter((character) => {
-      const sample = getPointAtTime(character, time)
+      const sample = getPointAtTime(character, time, offlineThresholdSec)
       return sample != null && !sample.beforeStart && !sample.afterEnd && !sample.offline
     })
     .sort((a, b) => {
@@ -240,10 +334,11 @@ export function selectTrackingCharacter(candidates: CharacterTrack[], time: numb
 export function getNearestOnlineTimeForCharacters(
   characters: CharacterTrack[],
   currentTime: number,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
 ) {
   let best: { character: CharacterTrack; time: number; distance: number } | null = null
   for (const character of characters) {
-    const nearest = getNearestOnlineTime(character, currentTime)
+    const nearest = getNearestOnlineTime(character, currentTime, offlineThresholdSec)
     if (nearest == null) {
       continue
     }
@@ -258,13 +353,14 @@ export function getNearestOnlineTimeForCharacters(
 export function getCurrentOnlineIntervalStart(
   character: CharacterTrack,
   currentTime: number,
+  offlineThresholdSec?: number,
 ) {
-  const sample = getPointAtTime(character, currentTime)
+  const sample = getPointAtTime(character, currentTime, offlineThresholdSec)
   if (!sample || sample.beforeStart || sample.afterEnd || sample.offline) {
     return Number.POSITIVE_INFINITY
   }
 
-  const intervals = getCharacterOnlineIntervals(character)
+  const intervals = getCharacterOnlineIntervals(character, offlineThresholdSec)
   for (const interval of intervals) {
     if (currentTime >= interval.start && currentTime <= interval.end) {
       return interval.start
@@ -273,3 +369,13 @@ export function getCurrentOnlineIntervalStart(
 
   return Number.POSITIVE_INFINITY
 }
+
+export function getInterpolationModeLabel(mode: InterpolationMode) {
+  if (mode === 'step') {
+    return 'ステップ'
+  }
+  if (mode === 'spline') {
+    return 'スプライン'
+  }
+  return '線形'
+}
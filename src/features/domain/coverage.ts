@@ -0,0 +1,147 @@
+import { DEFAULT_OFFLINE_THRESHOLD_SEC, type CharacterTrack } from './characters.js'
+import { getCharacterMovementSegments } from './movement.js'
+import { getWorldGridExtent, type WorldRange } from './worldGrid.js'
+
+export type CoverageWorldRange = WorldRange
+
+export type CoverageGrid = {
+  cellSize: number
+  minX: number
+  minY: number
+  columns: number
+  rows: number
+  firstVisit: Float64Array
+  sortedVisitTimes: Float64Array
+}
+
+export type CoverageGridOptions = {
+  cellSize?: number
+  worldRange?: CoverageWorldRange | null
+  offlineThresholdSec?: number
+}
+
+export const COVERAGE_CELL_SIZE = 50
+
+export function forEachCoveredCell(
+  character: CharacterTrack,
+  cellSize: number,
+  offlineThresholdSec: number,
+  visit: (cx: number, cy: number, time: number) => void,
+) {
+  const { t, x, y } = character.track
+  if (t.length === 0 || x.length !== t.length || y.length !== t.length) {
+    return
+  }
+
+  const segments = getCharacterMovementSegments(character, offlineThresholdSec)
+  visit(Math.floor(x[0] / cellSize), Math.floor(y[0] / cellSize), t[0])
+  for (let index = 1; index < t.length; index += 1) {
+    const segment = segments[index - 1]
+    if (segment.mode === 'teleport' || segment.offline) {
+      visit(Math.floor(x[index] / cellSize), Math.floor(y[index] / cellSize), t[index])
+      continue
+    }
+    const steps = Math.max(1, Math.ceil(segment.distance / (cellSize / 2)))
+    for (let step = 1; step <= steps; step += 1) {
+      const u = step / steps
+      visit(
+        Math.floor((x[index - 1] + (x[index] - x[index - 1]) * u) / cellSize),
+        Math.floor((y[index - 1] + (y[index] - y[index - 1]) * u) / cellSize),
+        t[index - 1] + (t[index] - t[index - 1]) * u,
+      )
+    }
+  }
+}
+
+function getTrackWorldRange(characters: CharacterTrack[]): CoverageWorldRange | null {
+  let range: CoverageWorldRange | null = null
+  for (const character of characters) {
+    const { x, y } = character.track
+    for (let index = 0; index < x.length; index += 1) {
+      range = range
+        ? {
+            minX: Math.min(range.minX, x[index]),
+            minY: Math.min(range.minY, y[index]),
+            maxX: Math.max(range.maxX, x[index]),
+            maxY: Math.max(range.maxY, y[index]),
+          }
+        : { minX: x[index], minY: y[index], maxX: x[index], maxY: y[index] }
+    }
+  }
+  return range
+}
+
+export function createCoverageGrid(
+  characters: CharacterTrack[],
+  options: CoverageGridOptions = {},
+): CoverageGrid | null {
+  const cellSize = options.cellSize ?? COVERAGE_CELL_SIZE
+  const offlineThresholdSec = options.offlineThresholdSec ?? DEFAULT_OFFLINE_THRESHOLD_SEC
+  const worldRange = options.worldRange ?? getTrackWorldRange(characters)
+  if (!worldRange) {
+    return null
+  }
+
+  const { minColumn: minCx, minRow: minCy, columns, rows } = getWorldGridExtent(
+    worldRange,
+    cellSize,
+  )
+  const firstVisit = new Float64Array(columns * rows).fill(Number.POSITIVE_INFINITY)
+
+  for (const character of characters) {
+    forEachCoveredCell(character, cellSize, offlineThresholdSec, (cx, cy, time) => {
+      const column = cx - minCx
+      const row = cy - minCy
+      if (column < 0 || column >= columns || row < 0 || row >= rows) {
+        return
+      }
+      const cell = row * columns + column
+      if (time < firstVisit[cell]) {
+        firstVisit[cell] = time
+      }
+    })
+  }
+
+  return {
+    cellSize,
+    minX: minCx * cellSize,
+    minY: minCy * cellSize,
+    columns,
+    rows,
+    firstVisit,
+    sortedVisitTimes: firstVisit.filter((time) => Number.isFinite(time)).sort(),
+  }
+}
+
+export function countCoveredCells(grid: CoverageGrid, time: number) {
+  const times = grid.sortedVisitTimes
+  let left = 0
+  let right = times.length
+  while (left < right) {
+    const mid = (left + right) >> 1
+    if (times[mid] <= time) {
+      left = mid + 1
+    } else {
+      right = mid
+    }
+  }
+  return left
+}
+
+export function getCoverageRatio(grid: CoverageGrid, time: number) {
+  return countCoveredCells(grid, time) / (grid.columns * grid.rows)
+}
+
+export function countCharacterCoverageCells(
+  characters: CharacterTrack[],
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+  cellSize = COVERAGE_CELL_SIZE,
+) {
+  const cells = new Set<string>()
+  for (const character of characters) {
+    forEachCoveredCell(character, cellSize, offlineThresholdSec, (cx, cy) => {
+      cells.add(`${cx},${cy}`)
+    })
+  }
+  return cells.size
+}
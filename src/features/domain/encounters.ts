@@ -0,0 +1,237 @@
+import {
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  isOfflineAtTime,
+  type CharacterTrack,
+} from './characters.js'
+
+export type Encounter = {
+  id: string
+  start: number
+  end: number
+  durationSec: number
+  x: number
+  y: number
+  participants: [string, string]
+  playerNames: [string, string]
+}
+
+export type EncounterOptions = {
+  distance?: number
+  minDurationSec?: number
+  stepSec?: number
+  offlineThresholdSec?: number
+  focusCharNames?: ReadonlySet<string>
+}
+
+type OpenEncounter = {
+  first: number
+  second: number
+  start: number
+  lastSeen: number
+  sumX: number
+  sumY: number
+  count: number
+}
+
+const DEFAULT_ENCOUNTER_DISTANCE = 10
+const DEFAULT_ENCOUNTER_MIN_DURATION_SEC = 5 * 60
+const DEFAULT_ENCOUNTER_STEP_SEC = 60
+const JUMP_DISTANCE = 100
+
+function createPositionCursor(character: CharacterTrack, offlineThresholdSec: number) {
+  const { t, x, y } = character.track
+  let index = 0
+
+  return (time: number) => {
+    if (
+      t.length === 0 ||
+      time < t[0] ||
+      time > t[t.length - 1] ||
+      time < character.life.start ||
+      time > character.life.end ||
+      isOfflineAtTime(character.gaps.offline, time, offlineThresholdSec)
+    ) {
+      return null
+    }
+    while (index < t.length - 2 && t[index + 1] <= time) {
+      index += 1
+    }
+    if (t.length === 1) {
+      return { x: x[0], y: y[0] }
+    }
+    const span = Math.max(t[index + 1] - t[index], 1e-9)
+    const u = Math.min(1, Math.max(0, (time - t[index]) / span))
+    if (Math.hypot(x[index + 1] - x[index], y[index + 1] - y[index]) > JUMP_DISTANCE) {
+      return u < 0.5 ? { x: x[index], y: y[index] } : { x: x[index + 1], y: y[index + 1] }
+    }
+    return {
+      x: x[index] + (x[index + 1] - x[index]) * u,
+      y: y[index] + (y[index + 1] - y[index]) * u,
+    }
+  }
+}
+
+export function detectEncounters(
+  characters: CharacterTrack[],
+  options: EncounterOptions = {},
+): Encounter[] {
+  const distance = options.distance ?? DEFAULT_ENCOUNTER_DISTANCE
+  const minDurationSec = options.minDurationSec ?? DEFAULT_ENCOUNTER_MIN_DURATION_SEC
+  const stepSec = options.stepSec ?? DEFAULT_ENCOUNTER_STEP_SEC
+  const offlineThresholdSec = options.offlineThresholdSec ?? DEFAULT_OFFLINE_THRESHOLD_SEC
+  const focus = options.focusCharNames ?? null
+
+  const withSamples = characters.filter((character) => character.track.t.length > 0)
+  let rangeStart = Number.POSITIVE_INFINITY
+  let rangeEnd = Number.NEGATIVE_INFINITY
+  for (const character of withSamples) {
+    if (focus && !focus.has(character.charName)) {
+      continue
+    }
+    rangeStart = Math.min(rangeStart, character.track.t[0])
+    rangeEnd = Math.max(rangeEnd, character.track.t[character.track.t.length - 1])
+  }
+
+  const sorted = withSamples
+    .filter(
+      (character) =>
+        !focus ||
+        (character.track.t[0] <= rangeEnd &&
+          character.track.t[character.track.t.length - 1] >= rangeStart),
+    )
+    .sort((a, b) => a.charName.localeCompare(b.charName, 'ja'))
+  if (sorted.length < 2 || !(rangeEnd >= rangeStart)) {
+    return []
+  }
+  const isFocus = sorted.map((character) => !focus || focus.has(character.charName))
+
+  const cursors = sorted.map((character) => createPositionCursor(character, offlineThresholdSec))
+  const open = new Map<string, OpenEncounter>()
+  const encounters: Encounter[] = []
+
+  const close = (key: string, entry: OpenEncounter) => {
+    open.delete(key)
+    if (entry.lastSeen - entry.start < minDurationSec) {
+      return
+    }
+    const first = sorted[entry.first]
+    const second = sorted[entry.second]
+    encounters.push({
+      id: `encounter:${first.charName}:${second.charName}:${entry.start}`,
+      start: entry.start,
+      end: entry.lastSeen,
+      durationSec: entry.lastSeen - entry.start,
+      x: entry.sumX / entry.count,
+      y: entry.sumY / entry.count,
+      participants: [first.charName, second.charName],
+      playerNames: [first.playerName, second.playerName],
+    })
+  }
+
+  const visitPair = (
+    time: number,
+    positions: Array<{ x: number; y: number } | null>,
+    characterIndex: number,
+    otherIndex: number,
+  ) => {
+    const position = positions[characterIndex]
+    const other = positions[otherIndex]
+    if (
+      !position ||
+      !other ||
+      otherIndex === characterIndex ||
+      (otherIndex < characterIndex && isFocus[otherIndex])
+    ) {
+      return
+    }
+    if (Math.hypot(other.x - position.x, other.y - position.y) > distance) {
+      return
+    }
+    const first = Math.min(characterIndex, otherIndex)
+    const second = Math.max(characterIndex, otherIndex)
+    const key = `${first}:${second}`
+    const entry = open.get(key) ?? {
+      first,
+      second,
+      start: time,
+      lastSeen: time,
+      sumX: 0,
+      sumY: 0,
+      count: 0,
+    }
+    entry.lastSeen = time
+    entry.sumX += (position.x + other.x) / 2
+    entry.sumY += (position.y + other.y) / 2
+    entry.count += 1
+    open.set(key, entry)
+  }
+
+  for (let time = Math.ceil(rangeStart / stepSec) * stepSec; time <= rangeEnd; time += stepSec) {
+    const positions: Array<{ x: number; y: number } | null> = sorted.map(() => null)
+    let focusOnline = false
+    for (let index = 0; index < sorted.length; index += 1) {
+      if (isFocus[index]) {
+        positions[index] = cursors[index](time)
+        focusOnline ||= positions[index] != null
+      }
+    }
+
+    if (focus) {
+      if (focusOnline) {
+        for (let index = 0; index < sorted.length; index += 1) {
+          if (!isFocus[index]) {
+            positions[index] = cursors[index](time)
+          }
+        }
+        for (let characterIndex = 0; characterIndex < sorted.length; characterIndex += 1) {
+          if (isFocus[characterIndex] && positions[characterIndex]) {
+            for (let otherIndex = 0; otherIndex < sorted.length; otherIndex += 1) {
+              visitPair(time, positions, characterIndex, otherIndex)
+            }
+          }
+        }
+      }
+    } else {
+      const cells = new Map<string, number[]>()
+      positions.forEach((position, characterIndex) => {
+        if (!position) {
+          return
+        }
+        const key = `${Math.floor(position.x / distance)},${Math.floor(position.y / distance)}`
+        const cell = cells.get(key)
+        if (cell) {
+          cell.push(characterIndex)
+        } else {
+          cells.set(key, [characterIndex])
+        }
+      })
+
+      positions.forEach((position, characterIndex) => {
+        if (!position) {
+          return
+        }
+        const cx = Math.floor(position.x / distance)
+        const cy = Math.floor(position.y / distance)
+        for (let dx = -1; dx <= 1; dx += 1) {
+          for (let dy = -1; dy <= 1; dy += 1) {
+            for (const otherIndex of cells.get(`${cx + dx},${cy + dy}`) ?? []) {
+              visitPair(time, positions, characterIndex, otherIndex)
+            }
+          }
+        }
+      })
+    }
+
+    for (const [key, entry] of open) {
+      if (entry.lastSeen < time) {
+        close(key, entry)
+      }
+    }
+  }
+
+  for (const [key, entry] of open) {
+    close(key, entry)
+  }
+
+  return encounters.sort((a, b) => a.start - b.start || a.id.localeCompare(b.id))
+}
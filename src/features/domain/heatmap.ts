@@ -0,0 +1,165 @@
+import {
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  type CharacterTrack,
+  type TimeInterval,
+} from './characters.js'
+import { getCharacterMovementSegments } from './movement.js'
+import { getWorldGridExtent, type WorldRange } from './worldGrid.js'
+
+export type HeatmapMetric = 'presence' | 'deaths' | 'logins'
+
+export type HeatmapWorldRange = WorldRange
+
+export type HeatmapGrid = {
+  metric: HeatmapMetric
+  cellSize: number
+  minX: number
+  minY: number
+  columns: number
+  rows: number
+  values: Float64Array
+  max: number
+}
+
+export type HeatmapOptions = {
+  cellSize?: number
+  range?: TimeInterval | null
+  offlineThresholdSec?: number
+}
+
+export type HeatmapPoint = {
+  x: number
+  y: number
+  time: number
+}
+
+export const HEATMAP_METRICS: HeatmapMetric[] = ['presence', 'deaths', 'logins']
+
+export const HEATMAP_CELL_SIZE = 100
+
+function createEmptyGrid(
+  metric: HeatmapMetric,
+  worldRange: HeatmapWorldRange,
+  cellSize: number,
+): HeatmapGrid {
+  const { minColumn, minRow, columns, rows } = getWorldGridExtent(worldRange, cellSize)
+  return {
+    metric,
+    cellSize,
+    minX: minColumn * cellSize,
+    minY: minRow * cellSize,
+    columns,
+    rows,
+    values: new Float64Array(columns * rows),
+    max: 0,
+  }
+}
+
+function addToGrid(grid: HeatmapGrid, x: number, y: number, value: number) {
+  const column = Math.floor((x - grid.minX) / grid.cellSize)
+  const row = Math.floor((y - grid.minY) / grid.cellSize)
+  if (column < 0 || column >= grid.columns || row < 0 || row >= grid.rows || value <= 0) {
+    return
+  }
+  const cell = row * grid.columns + column
+  grid.values[cell] += value
+  grid.max = Math.max(grid.max, grid.values[cell])
+}
+
+function lowerBound(values: number[], target: number) {
+  let left = 0
+  let right = values.length
+  while (left < right) {
+    const mid = (left + right) >> 1
+    if (values[mid] < target) {
+      left = mid + 1
+    } else {
+      right = mid
+    }
+  }
+  return left
+}
+
+export function buildPresenceHeatmap(
+  characters: CharacterTrack[],
+  worldRange: HeatmapWorldRange,
+  options: HeatmapOptions = {},
+): HeatmapGrid {
+  const cellSize = options.cellSize ?? HEATMAP_CELL_SIZE
+  const offlineThresholdSec = options.offlineThresholdSec ?? DEFAULT_OFFLINE_THRESHOLD_SEC
+  const rangeStart = options.range?.start ?? Number.NEGATIVE_INFINITY
+  const rangeEnd = options.range?.end ?? Number.POSITIVE_INFINITY
+  const grid = createEmptyGrid('presence', worldRange, cellSize)
+
+  for (const character of characters) {
+    const { t, x, y } = character.track
+    if (t.length < 2 || x.length !== t.length || y.length !== t.length) {
+      continue
+    }
+    const segments = getCharacterMovementSegments(character, offlineThresholdSec)
+    for (
+      let index = Math.max(1, lowerBound(t, rangeStart));
+      index < t.length && t[index - 1] <= rangeEnd;
+      index += 1
+    ) {
+      const t0 = t[index - 1]
+      const t1 = t[index]
+      const start = Math.max(t0, rangeStart)
+      const end = Math.min(t1, rangeEnd)
+      const segment = segments[index - 1]
+      if (end <= start || segment.offline) {
+        continue
+      }
+      const span = t1 - t0
+      if (segment.mode === 'teleport') {
+        const middle = t0 + span / 2
+        addToGrid(grid, x[index - 1], y[index - 1], Math.max(0, Math.min(end, middle) - start))
+        addToGrid(grid, x[index], y[index], Math.max(0, end - Math.max(start, middle)))
+        continue
+      }
+      const steps = Math.max(1, Math.ceil(segment.distance / (cellSize / 2)))
+      const u0 = (start - t0) / span
+      const u1 = (end - t0) / span
+      for (let step = 0; step < steps; step += 1) {
+        const u = u0 + ((u1 - u0) * (step + 0.5)) / steps
+        addToGrid(
+          grid,
+          x[index - 1] + (x[index] - x[index - 1]) * u,
+          y[index - 1] + (y[index] - y[index - 1]) * u,
+          (end - start) / steps,
+        )
+      }
+    }
+  }
+  return grid
+}
+
+export function buildPointHeatmap(
+  metric: Exclude<HeatmapMetric, 'presence'>,
+  points: HeatmapPoint[],
+  worldRange: HeatmapWorldRange,
+  options: Pick<HeatmapOptions, 'cellSize' | 'range'> = {},
+): HeatmapGrid {
+  const grid = createEmptyGrid(metric, worldRange, options.cellSize ?? HEATMAP_CELL_SIZE)
+  for (const point of points) {
+    if (
+      !Number.isFinite(point.x) ||
+      !Number.isFinite(point.y) ||
+      (options.range && (point.time < options.range.start || point.time > options.range.end))
+    ) {
+      continue
+    }
+    addToGrid(grid, point.x, point.y, 1)
+  }
+  return grid
+}
+
+export function getHeatmapMetricLabel(metric: HeatmapMetric) {
+  if (metric === 'deaths') {
+    return '死亡'
+  }
+  if (metric === 'logins') {
+    return 'ログイン'
+  }
+  return '滞在時間'
+}
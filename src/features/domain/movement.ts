@@ -0,0 +1,160 @@
+import {
+  crossesOfflineGap,
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  type CharacterTrack,
+} from './characters.js'
+
+export type MovementMode = 'idle' | 'walking' | 'running' | 'vehicle' | 'teleport'
+
+export type MovementSegment = {
+  start: number
+  end: number
+  distance: number
+  speed: number
+  mode: MovementMode
+  offline: boolean
+}
+
+export type MovementSpeedThresholds = {
+  idleMax: number
+  walkingMax: number
+  runningMax: number
+  vehicleMax: number
+}
+
+export type MovementModeSummary = Record<MovementMode, { durationSec: number; distance: number }>
+
+export const MOVEMENT_MODES: MovementMode[] = ['idle', 'walking', 'running', 'vehicle', 'teleport']
+
+export const DEFAULT_MOVEMENT_SPEED_THRESHOLDS: MovementSpeedThresholds = {
+  idleMax: 0.3,
+  walkingMax: 2.5,
+  runningMax: 7,
+  vehicleMax: 50,
+}
+
+const TELEPORT_MIN_DISTANCE = 100
+
+const movementSegmentsCache = new WeakMap<CharacterTrack, Map<number, MovementSegment[]>>()
+
+export function classifyMovementSpeed(
+  distance: number,
+  durationSec: number,
+  thresholds: MovementSpeedThresholds = DEFAULT_MOVEMENT_SPEED_THRESHOLDS,
+): MovementMode {
+  if (durationSec <= 0) {
+    return distance > 0 ? 'teleport' : 'idle'
+  }
+  const speed = distance / durationSec
+  if (speed > thresholds.vehicleMax && distance > TELEPORT_MIN_DISTANCE) {
+    return 'teleport'
+  }
+  if (speed <= thresholds.idleMax) {
+    return 'idle'
+  }
+  if (speed <= thresholds.walkingMax) {
+    return 'walking'
+  }
+  if (speed <= thresholds.runningMax) {
+    return 'running'
+  }
+  return 'vehicle'
+}
+
+export function buildMovementSegments(
+  character: CharacterTrack,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+  thresholds: MovementSpeedThresholds = DEFAULT_MOVEMENT_SPEED_THRESHOLDS,
+): MovementSegment[] {
+  const { t, x, y } = character.track
+  if (t.length < 2 || x.length !== t.length || y.length !== t.length) {
+    return []
+  }
+
+  const segments: MovementSegment[] = []
+  for (let index = 1; index < t.length; index += 1) {
+    const start = t[index - 1]
+    const end = t[index]
+    const durationSec = end - start
+    const distance = Math.hypot(x[index] - x[index - 1], y[index] - y[index - 1])
+    segments.push({
+      start,
+      end,
+      distance,
+      speed: durationSec > 0 ? distance / durationSec : 0,
+      mode: classifyMovementSpeed(distance, durationSec, thresholds),
+      offline: crossesOfflineGap(character.gaps.offline, start, end, offlineThresholdSec),
+    })
+  }
+  return segments
+}
+
+export function getCharacterMovementSegments(
+  character: CharacterTrack,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+) {
+  const byThreshold = movementSegmentsCache.get(character) ?? new Map<number, MovementSegment[]>()
+  const cached = byThreshold.get(offlineThresholdSec)
+  if (cached) {
+    return cached
+  }
+  const segments = buildMovementSegments(character, offlineThresholdSec)
+  byThreshold.set(offlineThresholdSec, segments)
+  movementSegmentsCache.set(character, byThreshold)
+  return segments
+}
+
+export function getMovementSegmentAtTime(segments: MovementSegment[], time: number) {
+  let left = 0
+  let right = segments.length
+  while (left < right) {
+    const mid = (left + right) >> 1
+    if (segments[mid].end < time) {
+      left = mid + 1
+    } else {
+      right = mid
+    }
+  }
+  const segment = segments[left]
+  return segment && segment.start <= time && !segment.offline ? segment : null
+}
+
+export function summarizeMovementModes(
+  segments: MovementSegment[],
+  range?: { start: number; end: number },
+): MovementModeSummary {
+  const summary = Object.fromEntries(
+    MOVEMENT_MODES.map((mode) => [mode, { durationSec: 0, distance: 0 }]),
+  ) as MovementModeSummary
+
+  for (const segment of segments) {
+    if (segment.offline) {
+      continue
+    }
+    const start = Math.max(segment.start, range?.start ?? Number.NEGATIVE_INFINITY)
+    const end = Math.min(segment.end, range?.end ?? Number.POSITIVE_INFINITY)
+    if (end < start || (end === start && segment.end > segment.start)) {
+      continue
+    }
+    const ratio = segment.end > segment.start ? (end - start) / (segment.end - segment.start) : 1
+    summary[segment.mode].durationSec += Math.max(0, end - start)
+    summary[segment.mode].distance += segment.distance * ratio
+  }
+  return summary
+}
+
+export function getMovementModeLabel(mode: MovementMode) {
+  if (mode === 'idle') {
+    return '停止'
+  }
+  if (mode === 'walking') {
+    return '徒歩'
+  }
+  if (mode === 'running') {
+    return '走行'
+  }
+  if (mode === 'vehicle') {
+    return '車両'
+  }
+  return 'ワープ'
+}
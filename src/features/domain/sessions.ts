@@ -0,0 +1,172 @@
+import {
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  getCharacterOnlineIntervals,
+  getCharacterPlayerName,
+  getPointAtTime,
+  type CharacterEvent,
+  type CharacterTrack,
+} from './characters.js'
+import {
+  getCharacterMovementSegments,
+  MOVEMENT_MODES,
+  summarizeMovementModes,
+} from './movement.js'
+
+export type SessionPlace = {
+  x: number
+  y: number
+}
+
+export type CharacterSession = {
+  id: string
+  charName: string
+  playerName: string
+  start: number
+  end: number
+  durationSec: number
+  distance: number
+  areaCovered: number
+  startPlace: SessionPlace
+  endPlace: SessionPlace
+  events: CharacterEvent[]
+}
+
+export type PlayerSessionSummary = {
+  playerName: string
+  sessions: CharacterSession[]
+  sessionCount: number
+  totalDurationSec: number
+  totalDistance: number
+  longestSession: CharacterSession | null
+}
+
+export type SessionOptions = {
+  offlineThresholdSec?: number
+  areaCellSize?: number
+}
+
+const DEFAULT_AREA_CELL_SIZE = 10
+
+const sessionCache = new WeakMap<CharacterTrack, Map<number, CharacterSession[]>>()
+
+function lowerBound(values: number[], target: number) {
+  let left = 0
+  let right = values.length
+  while (left < right) {
+    const mid = (left + right) >> 1
+    if (values[mid] < target) {
+      left = mid + 1
+    } else {
+      right = mid
+    }
+  }
+  return left
+}
+
+export function buildCharacterSessions(
+  character: CharacterTrack,
+  options: SessionOptions = {},
+): CharacterSession[] {
+  const offlineThresholdSec = options.offlineThresholdSec ?? DEFAULT_OFFLINE_THRESHOLD_SEC
+  const areaCellSize = options.areaCellSize ?? DEFAULT_AREA_CELL_SIZE
+  const { t, x, y } = character.track
+  if (t.length === 0 || x.length !== t.length || y.length !== t.length) {
+    return []
+  }
+  const segments = getCharacterMovementSegments(character, offlineThresholdSec)
+
+  return getCharacterOnlineIntervals(character, offlineThresholdSec).flatMap((interval) => {
+    const startSample = getPointAtTime(character, interval.start, offlineThresholdSec)
+    const endSample = getPointAtTime(character, interval.end, offlineThresholdSec)
+    if (!startSample || !endSample) {
+      return []
+    }
+
+    const firstIndex = lowerBound(t, interval.start)
+    const points: SessionPlace[] = [{ x: startSample.x, y: startSample.y }]
+    let endIndex = firstIndex
+    for (; endIndex < t.length && t[endIndex] <= interval.end; endIndex += 1) {
+      points.push({ x: x[endIndex], y: y[endIndex] })
+    }
+    points.push({ x: endSample.x, y: endSample.y })
+
+    const modeSummary = summarizeMovementModes(
+      segments.slice(Math.max(0, firstIndex - 1), endIndex),
+      interval,
+    )
+    const distance = MOVEMENT_MODES.reduce(
+      (sum, mode) => (mode === 'teleport' ? sum : sum + modeSummary[mode].distance),
+      0,
+    )
+    const cells = new Set<string>()
+    for (const point of points) {
+      cells.add(`${Math.floor(point.x / areaCellSize)},${Math.floor(point.y / areaCellSize)}`)
+    }
+
+    return [
+      {
+        id: `session:${character.charName}:${interval.start}`,
+        charName: character.charName,
+        playerName: character.playerName,
+        start: interval.start,
+        end: interval.end,
+        durationSec: interval.end - interval.start,
+        distance,
+        areaCovered: cells.size * areaCellSize * areaCellSize,
+        startPlace: points[0],
+        endPlace: points[points.length - 1],
+        events: (character.events ?? []).filter(
+          (event) => event.t >= interval.start && event.t <= interval.end,
+        ),
+      },
+    ]
+  })
+}
+
+export function getCharacterSessions(
+  character: CharacterTrack,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+) {
+  const byThreshold = sessionCache.get(character) ?? new Map<number, CharacterSession[]>()
+  const cached = byThreshold.get(offlineThresholdSec)
+  if (cached) {
+    return cached
+  }
+  const sessions = buildCharacterSessions(character, { offlineThresholdSec })
+  byThreshold.set(offlineThresholdSec, sessions)
+  sessionCache.set(character, byThreshold)
+  return sessions
+}
+
+export function buildPlayerSessionSummaries(
+  characters: CharacterTrack[],
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+): PlayerSessionSummary[] {
+  const byPlayer = new Map<string, CharacterSession[]>()
+  for (const character of characters) {
+    const playerName = getCharacterPlayerName(character)
+    const sessions = byPlayer.get(playerName) ?? []
+    sessions.push(...getCharacterSessions(character, offlineThresholdSec))
+    byPlayer.set(playerName, sessions)
+  }
+
+  return [...byPlayer.entries()]
+    .map(([playerName, sessions]) => {
+      const sorted = [...sessions].sort((a, b) => a.start - b.start)
+      let longestSession: CharacterSession | null = null
+      for (const session of sorted) {
+        if (!longestSession || session.durationSec > longestSession.durationSec) {
+          longestSession = session
+        }
+      }
+      return {
+        playerName,
+        sessions: sorted,
+        sessionCount: sorted.length,
+        totalDurationSec: sorted.reduce((sum, session) => sum + session.durationSec, 0),
+        totalDistance: sorted.reduce((sum, session) => sum + session.distance, 0),
+        longestSession,
+      }
+    })
+    .sort((a, b) => a.playerName.localeCompare(b.playerName, 'ja'))
+}
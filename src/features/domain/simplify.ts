@@ -0,0 +1,155 @@
+import {
+  crossesOfflineGap,
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  type CharacterTrack,
+} from './characters.js'
+import { getCharacterMovementSegments } from './movement.js'
+
+export type TrailLod = {
+  tolerance: number
+  indexes: number[]
+}
+
+export const TRAIL_LOD_TOLERANCES = [0, 1, 4, 16, 64] as const
+
+export const TRAIL_RUN_BREAK = -1
+
+const trailLodCache = new WeakMap<CharacterTrack, Map<string, TrailLod[]>>()
+
+function getPerpendicularDistanceSq(
+  xs: number[],
+  ys: number[],
+  index: number,
+  first: number,
+  last: number,
+) {
+  const dx = xs[last] - xs[first]
+  const dy = ys[last] - ys[first]
+  const lengthSq = dx * dx + dy * dy
+  if (lengthSq === 0) {
+    const px = xs[index] - xs[first]
+    const py = ys[index] - ys[first]
+    return px * px + py * py
+  }
+  const projection = (xs[index] - xs[first]) * dx + (ys[index] - ys[first]) * dy
+  const u = Math.min(1, Math.max(0, projection / lengthSq))
+  const px = xs[first] + dx * u - xs[index]
+  const py = ys[first] + dy * u - ys[index]
+  return px * px + py * py
+}
+
+export function simplifyPolylineIndexes(
+  xs: number[],
+  ys: number[],
+  start: number,
+  end: number,
+  tolerance: number,
+) {
+  if (end - start < 2 || tolerance <= 0) {
+    return Array.from({ length: end - start + 1 }, (_, offset) => start + offset)
+  }
+
+  const keep = new Uint8Array(end - start + 1)
+  keep[0] = 1
+  keep[end - start] = 1
+  const toleranceSq = tolerance * tolerance
+  const stack: Array<[number, number]> = [[start, end]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop() as [number, number]
+    let farthest = -1
+    let farthestDistanceSq = toleranceSq
+    for (let index = first + 1; index < last; index += 1) {
+      const distanceSq = getPerpendicularDistanceSq(xs, ys, index, first, last)
+      if (distanceSq > farthestDistanceSq) {
+        farthest = index
+        farthestDistanceSq = distanceSq
+      }
+    }
+    if (farthest >= 0) {
+      keep[farthest - start] = 1
+      stack.push([first, farthest], [farthest, last])
+    }
+  }
+
+  const indexes: number[] = []
+  keep.forEach((kept, offset) => {
+    if (kept) {
+      indexes.push(start + offset)
+    }
+  })
+  return indexes
+}
+
+export function buildTrailLods(
+  character: CharacterTrack,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+  splitByMovementMode = false,
+): TrailLod[] {
+  const { t, x, y } = character.track
+  if (t.length < 2 || x.length !== t.length || y.length !== t.length) {
+    return TRAIL_LOD_TOLERANCES.map((tolerance) => ({ tolerance, indexes: [] }))
+  }
+
+  const movementSegments = splitByMovementMode
+    ? getCharacterMovementSegments(character, offlineThresholdSec)
+    : null
+  const runs: Array<[number, number]> = []
+  let runStart = 0
+  for (let index = 1; index < t.length; index += 1) {
+    if (crossesOfflineGap(character.gaps.offline, t[index - 1], t[index], offlineThresholdSec)) {
+      runs.push([runStart, index - 1])
+      runStart = index
+    } else if (
+      movementSegments &&
+      index - 1 > runStart &&
+      movementSegments[index - 1].mode !== movementSegments[index - 2].mode
+    ) {
+      runs.push([runStart, index - 1])
+      runStart = index - 1
+    }
+  }
+  runs.push([runStart, t.length - 1])
+
+  return TRAIL_LOD_TOLERANCES.map((tolerance) => {
+    const indexes: number[] = []
+    for (const [start, end] of runs) {
+      if (end <= start) {
+        continue
+      }
+      if (indexes.length > 0) {
+        indexes.push(TRAIL_RUN_BREAK)
+      }
+      for (const index of simplifyPolylineIndexes(x, y, start, end, tolerance)) {
+        indexes.push(index)
+      }
+    }
+    return { tolerance, indexes }
+  })
+}
+
+export function getCharacterTrailLods(
+  character: CharacterTrack,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+  splitByMovementMode = false,
+) {
+  const byThreshold = trailLodCache.get(character) ?? new Map<string, TrailLod[]>()
+  const cacheKey = `${offlineThresholdSec}:${splitByMovementMode ? 'movement' : 'gap'}`
+  const cached = byThreshold.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+  const lods = buildTrailLods(character, offlineThresholdSec, splitByMovementMode)
+  byThreshold.set(cacheKey, lods)
+  trailLodCache.set(character, byThreshold)
+  return lods
+}
+
+export function selectTrailLod(lods: TrailLod[], worldUnitsPerPixel: number) {
+  let selected = lods[0] ?? null
+  for (const lod of lods) {
+    if (lod.tolerance <= worldUnitsPerPixel * 0.75) {
+      selected = lod
+    }
+  }
+  return selected
+}
@@ -0,0 +1,369 @@
+import {
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  DEFAULT_SNAP_DISTANCE,
+  type CharacterTrack,
+  type TimeInterval,
+} from './characters.js'
+import { getCharacterMovementSegments } from './movement.js'
+
+export type TrackSpatialIndexOptions = {
+  cellSize?: number
+  offlineThresholdSec?: number
+}
+
+export type TrackSpatialQueryOptions = {
+  time?: TimeInterval
+  includeOffline?: boolean
+}
+
+export type TrackBounds = {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export type TrackPointHit = {
+  charName: string
+  time: number
+  x: number
+  y: number
+  distance: number
+}
+
+export type TrackPresenceHit = {
+  charName: string
+  start: number
+  end: number
+}
+
+type SegmentColumns = {
+  character: Int32Array
+  t0: Float64Array
+  t1: Float64Array
+  x0: Float64Array
+  y0: Float64Array
+  x1: Float64Array
+  y1: Float64Array
+  offline: Uint8Array
+}
+
+export type TrackSpatialIndex = {
+  cellSize: number
+  characters: CharacterTrack[]
+  segments: SegmentColumns
+  segmentRanges: Int32Array
+  cells: Map<string, number[]>
+}
+
+type ClippedSegment = {
+  start: number
+  end: number
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+const DEFAULT_CELL_SIZE = 200
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value))
+}
+
+function getCellKey(cx: number, cy: number) {
+  return `${cx},${cy}`
+}
+
+export function createTrackSpatialIndex(
+  characters: CharacterTrack[],
+  options: TrackSpatialIndexOptions = {},
+): TrackSpatialIndex {
+  const cellSize = options.cellSize ?? DEFAULT_CELL_SIZE
+  const offlineThresholdSec = options.offlineThresholdSec ?? DEFAULT_OFFLINE_THRESHOLD_SEC
+  const columns = {
+    character: [] as number[],
+    t0: [] as number[],
+    t1: [] as number[],
+    x0: [] as number[],
+    y0: [] as number[],
+    x1: [] as number[],
+    y1: [] as number[],
+    offline: [] as number[],
+  }
+  const segmentRanges = new Int32Array(characters.length + 1)
+
+  const pushSegment = (
+    characterIndex: number,
+    t0: number,
+    t1: number,
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number,
+    offline: boolean,
+  ) => {
+    columns.character.push(characterIndex)
+    columns.t0.push(t0)
+    columns.t1.push(t1)
+    columns.x0.push(x0)
+    columns.y0.push(y0)
+    columns.x1.push(x1)
+    columns.y1.push(y1)
+    columns.offline.push(offline ? 1 : 0)
+  }
+
+  characters.forEach((character, characterIndex) => {
+    segmentRanges[characterIndex] = columns.t0.length
+    const { t, x, y } = character.track
+    if (t.length === 0 || x.length !== t.length || y.length !== t.length) {
+      return
+    }
+    if (t.length === 1) {
+      pushSegment(characterIndex, t[0], t[0], x[0], y[0], x[0], y[0], false)
+      return
+    }
+    const movementSegments = getCharacterMovementSegments(character, offlineThresholdSec)
+    for (let index = 1; index < t.length; index += 1) {
+      const t0 = t[index - 1]
+      const t1 = t[index]
+      const { mode, offline, distance } = movementSegments[index - 1]
+      if (mode === 'teleport' || (offline && distance > DEFAULT_SNAP_DISTANCE)) {
+        const middle = t0 + (t1 - t0) / 2
+        const [fromX, fromY, toX, toY] = [x[index - 1], y[index - 1], x[index], y[index]]
+        pushSegment(characterIndex, t0, middle, fromX, fromY, fromX, fromY, offline)
+        pushSegment(characterIndex, middle, t1, toX, toY, toX, toY, offline)
+      } else {
+        pushSegment(characterIndex, t0, t1, x[index - 1], y[index - 1], x[index], y[index], offline)
+      }
+    }
+  })
+  segmentRanges[characters.length] = columns.t0.length
+
+  const segments: SegmentColumns = {
+    character: Int32Array.from(columns.character),
+    t0: Float64Array.from(columns.t0),
+    t1: Float64Array.from(columns.t1),
+    x0: Float64Array.from(columns.x0),
+    y0: Float64Array.from(columns.y0),
+    x1: Float64Array.from(columns.x1),
+    y1: Float64Array.from(columns.y1),
+    offline: Uint8Array.from(columns.offline),
+  }
+
+  const cells = new Map<string, number[]>()
+  for (let segment = 0; segment < segments.t0.length; segment += 1) {
+    const minCx = Math.floor(Math.min(segments.x0[segment], segments.x1[segment]) / cellSize)
+    const maxCx = Math.floor(Math.max(segments.x0[segment], segments.x1[segment]) / cellSize)
+    const minCy = Math.floor(Math.min(segments.y0[segment], segments.y1[segment]) / cellSize)
+    const maxCy = Math.floor(Math.max(segments.y0[segment], segments.y1[segment]) / cellSize)
+    for (let cx = minCx; cx <= maxCx; cx += 1) {
+      for (let cy = minCy; cy <= maxCy; cy += 1) {
+        const key = getCellKey(cx, cy)
+        const cell = cells.get(key)
+        if (cell) {
+          cell.push(segment)
+        } else {
+          cells.set(key, [segment])
+        }
+      }
+    }
+  }
+
+  return { cellSize, characters, segments, segmentRanges, cells }
+}
+
+function collectCandidateSegments(index: TrackSpatialIndex, bounds: TrackBounds) {
+  const minCx = Math.floor(bounds.minX / index.cellSize)
+  const maxCx = Math.floor(bounds.maxX / index.cellSize)
+  const minCy = Math.floor(bounds.minY / index.cellSize)
+  const maxCy = Math.floor(bounds.maxY / index.cellSize)
+  const candidates = new Set<number>()
+  for (let cx = minCx; cx <= maxCx; cx += 1) {
+    for (let cy = minCy; cy <= maxCy; cy += 1) {
+      for (const segment of index.cells.get(getCellKey(cx, cy)) ?? []) {
+        candidates.add(segment)
+      }
+    }
+  }
+  return candidates
+}
+
+function clipSegmentToTime(
+  index: TrackSpatialIndex,
+  segment: number,
+  options: TrackSpatialQueryOptions,
+): ClippedSegment | null {
+  const { t0, t1, x0, y0, x1, y1, offline } = index.segments
+  if (!options.includeOffline && offline[segment] === 1) {
+    return null
+  }
+  const start = Math.max(t0[segment], options.time?.start ?? Number.NEGATIVE_INFINITY)
+  const end = Math.min(t1[segment], options.time?.end ?? Number.POSITIVE_INFINITY)
+  if (end < start) {
+    return null
+  }
+  const span = t1[segment] - t0[segment]
+  const interpolate = (time: number) => {
+    const u = span > 0 ? clamp((time - t0[segment]) / span, 0, 1) : 0
+    return {
+      x: x0[segment] + (x1[segment] - x0[segment]) * u,
+      y: y0[segment] + (y1[segment] - y0[segment]) * u,
+    }
+  }
+  const from = interpolate(start)
+  const to = interpolate(end)
+  return { start, end, x0: from.x, y0: from.y, x1: to.x, y1: to.y }
+}
+
+export function queryTrackIndexRadius(
+  index: TrackSpatialIndex,
+  x: number,
+  y: number,
+  radius: number,
+  options: TrackSpatialQueryOptions = {},
+): TrackPointHit[] {
+  const candidates = collectCandidateSegments(index, {
+    minX: x - radius,
+    minY: y - radius,
+    maxX: x + radius,
+    maxY: y + radius,
+  })
+  const best = new Map<number, TrackPointHit>()
+
+  for (const segment of candidates) {
+    const clipped = clipSegmentToTime(index, segment, options)
+    if (!clipped) {
+      continue
+    }
+    const dx = clipped.x1 - clipped.x0
+    const dy = clipped.y1 - clipped.y0
+    const lengthSq = dx * dx + dy * dy
+    const projection = (x - clipped.x0) * dx + (y - clipped.y0) * dy
+    const u = lengthSq > 0 ? clamp(projection / lengthSq, 0, 1) : 0
+    const pointX = clipped.x0 + dx * u
+    const pointY = clipped.y0 + dy * u
+    const distance = Math.hypot(pointX - x, pointY - y)
+    if (distance > radius) {
+      continue
+    }
+    const characterIndex = index.segments.character[segment]
+    const current = best.get(characterIndex)
+    if (!current || distance < current.distance) {
+      best.set(characterIndex, {
+        charName: index.characters[characterIndex].charName,
+        time: clipped.start + (clipped.end - clipped.start) * u,
+        x: pointX,
+        y: pointY,
+        distance,
+      })
+    }
+  }
+
+  return [...best.values()].sort(
+    (a, b) => a.distance - b.distance || a.charName.localeCompare(b.charName, 'ja'),
+  )
+}
+
+function getSegmentRectRange(clipped: ClippedSegment, bounds: TrackBounds) {
+  let enter = 0
+  let exit = 1
+  const dx = clipped.x1 - clipped.x0
+  const dy = clipped.y1 - clipped.y0
+  const edges: Array<[number, number]> = [
+    [-dx, clipped.x0 - bounds.minX],
+    [dx, bounds.maxX - clipped.x0],
+    [-dy, clipped.y0 - bounds.minY],
+    [dy, bounds.maxY - clipped.y0],
+  ]
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) {
+        return null
+      }
+      continue
+    }
+    const r = q / p
+    if (p < 0) {
+      enter = Math.max(enter, r)
+    } else {
+      exit = Math.min(exit, r)
+    }
+    if (enter > exit) {
+      return null
+    }
+  }
+  const span = clipped.end - clipped.start
+  return { start: clipped.start + span * enter, end: clipped.start + span * exit }
+}
+
+function mergePresence(
+  best: Map<number, TrackPresenceHit>,
+  index: TrackSpatialIndex,
+  characterIndex: number,
+  start: number,
+  end: number,
+) {
+  const current = best.get(characterIndex)
+  if (current) {
+    current.start = Math.min(current.start, start)
+    current.end = Math.max(current.end, end)
+  } else {
+    best.set(characterIndex, { charName: index.characters[characterIndex].charName, start, end })
+  }
+}
+
+function sortPresence(hits: Iterable<TrackPresenceHit>) {
+  return [...hits].sort((a, b) => a.start - b.start || a.charName.localeCompare(b.charName, 'ja'))
+}
+
+export function queryTrackIndexBounds(
+  index: TrackSpatialIndex,
+  bounds: TrackBounds,
+  options: TrackSpatialQueryOptions = {},
+): TrackPresenceHit[] {
+  const best = new Map<number, TrackPresenceHit>()
+  for (const segment of collectCandidateSegments(index, bounds)) {
+    const clipped = clipSegmentToTime(index, segment, options)
+    if (!clipped) {
+      continue
+    }
+    const range = getSegmentRectRange(clipped, bounds)
+    if (range) {
+      mergePresence(best, index, index.segments.character[segment], range.start, range.end)
+    }
+  }
+  return sortPresence(best.values())
+}
+
+export function queryTrackIndexTimeRange(
+  index: TrackSpatialIndex,
+  time: TimeInterval,
+  options: Omit<TrackSpatialQueryOptions, 'time'> = {},
+): TrackPresenceHit[] {
+  const best = new Map<number, TrackPresenceHit>()
+  const { t1 } = index.segments
+  for (let characterIndex = 0; characterIndex < index.characters.length; characterIndex += 1) {
+    let left = index.segmentRanges[characterIndex]
+    let right = index.segmentRanges[characterIndex + 1]
+    const end = right
+    while (left < right) {
+      const mid = (left + right) >> 1
+      if (t1[mid] < time.start) {
+        left = mid + 1
+      } else {
+        right = mid
+      }
+    }
+    for (let segment = left; segment < end; segment += 1) {
+      if (index.segments.t0[segment] > time.end) {
+        break
+      }
+      const clipped = clipSegmentToTime(index, segment, { ...options, time })
+      if (clipped) {
+        mergePresence(best, index, characterIndex, clipped.start, clipped.end)
+      }
+    }
+  }
+  return sortPresence(best.values())
+}
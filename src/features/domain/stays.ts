@@ -0,0 +1,189 @@
+import {
+  crossesOfflineGap,
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  type CharacterTrack,
+} from './characters.js'
+
+export type StayPoint = {
+  charName: string
+  playerName: string
+  x: number
+  y: number
+  start: number
+  end: number
+  durationSec: number
+}
+
+export type BaseVisitor = {
+  playerName: string
+  charNames: string[]
+  dwellSec: number
+}
+
+export type BaseCluster = {
+  id: string
+  x: number
+  y: number
+  radius: number
+  dwellSec: number
+  firstVisit: number
+  lastVisit: number
+  visitCount: number
+  visitors: BaseVisitor[]
+}
+
+export type StayPointOptions = {
+  radius?: number
+  minDurationSec?: number
+  offlineThresholdSec?: number
+}
+
+export type BaseDetectionOptions = StayPointOptions & {
+  clusterRadius?: number
+  minDwellSec?: number
+}
+
+const DEFAULT_STAY_RADIUS = 30
+const DEFAULT_STAY_MIN_DURATION_SEC = 20 * 60
+const DEFAULT_CLUSTER_RADIUS = 60
+const DEFAULT_BASE_MIN_DWELL_SEC = 60 * 60
+
+export function detectStayPoints(
+  character: CharacterTrack,
+  options: StayPointOptions = {},
+): StayPoint[] {
+  const radius = options.radius ?? DEFAULT_STAY_RADIUS
+  const minDurationSec = options.minDurationSec ?? DEFAULT_STAY_MIN_DURATION_SEC
+  const offlineThresholdSec = options.offlineThresholdSec ?? DEFAULT_OFFLINE_THRESHOLD_SEC
+  const { t, x, y } = character.track
+  if (t.length < 2 || x.length !== t.length || y.length !== t.length) {
+    return []
+  }
+
+  const stays: StayPoint[] = []
+  let anchor = 0
+  while (anchor < t.length - 1) {
+    let next = anchor + 1
+    while (
+      next < t.length &&
+      Math.hypot(x[next] - x[anchor], y[next] - y[anchor]) <= radius &&
+      !crossesOfflineGap(character.gaps.offline, t[next - 1], t[next], offlineThresholdSec)
+    ) {
+      next += 1
+    }
+
+    const last = next - 1
+    if (last > anchor && t[last] - t[anchor] >= minDurationSec) {
+      let sumX = 0
+      let sumY = 0
+      for (let index = anchor; index <= last; index += 1) {
+        sumX += x[index]
+        sumY += y[index]
+      }
+      const count = last - anchor + 1
+      stays.push({
+        charName: character.charName,
+        playerName: character.playerName,
+        x: sumX / count,
+        y: sumY / count,
+        start: t[anchor],
+        end: t[last],
+        durationSec: t[last] - t[anchor],
+      })
+      anchor = next
+    } else {
+      anchor += 1
+    }
+  }
+  return stays
+}
+
+type BaseAccumulator = {
+  weightedX: number
+  weightedY: number
+  dwellSec: number
+  stays: StayPoint[]
+}
+
+export function clusterStayPoints(
+  stays: StayPoint[],
+  options: Pick<BaseDetectionOptions, 'clusterRadius' | 'minDwellSec'> = {},
+): BaseCluster[] {
+  const clusterRadius = options.clusterRadius ?? DEFAULT_CLUSTER_RADIUS
+  const minDwellSec = options.minDwellSec ?? DEFAULT_BASE_MIN_DWELL_SEC
+  const accumulators: BaseAccumulator[] = []
+
+  const sorted = [...stays].sort((a, b) => b.durationSec - a.durationSec || a.start - b.start)
+  for (const stay of sorted) {
+    let nearest: BaseAccumulator | null = null
+    let nearestDistance = Number.POSITIVE_INFINITY
+    for (const accumulator of accumulators) {
+      const distance = Math.hypot(
+        accumulator.weightedX / accumulator.dwellSec - stay.x,
+        accumulator.weightedY / accumulator.dwellSec - stay.y,
+      )
+      if (distance <= clusterRadius && distance < nearestDistance) {
+        nearest = accumulator
+        nearestDistance = distance
+      }
+    }
+    const weight = Math.max(stay.durationSec, 1)
+    if (nearest) {
+      nearest.weightedX += stay.x * weight
+      nearest.weightedY += stay.y * weight
+      nearest.dwellSec += weight
+      nearest.stays.push(stay)
+    } else {
+      accumulators.push({
+        weightedX: stay.x * weight,
+        weightedY: stay.y * weight,
+        dwellSec: weight,
+        stays: [stay],
+      })
+    }
+  }
+
+  return accumulators
+    .filter((accumulator) => accumulator.dwellSec >= minDwellSec)
+    .map((accumulator) => {
+      const x = accumulator.weightedX / accumulator.dwellSec
+      const y = accumulator.weightedY / accumulator.dwellSec
+      const visitors = new Map<string, BaseVisitor>()
+      let radius = 0
+      for (const stay of accumulator.stays) {
+        radius = Math.max(radius, Math.hypot(stay.x - x, stay.y - y))
+        const visitor = visitors.get(stay.playerName) ?? {
+          playerName: stay.playerName,
+          charNames: [],
+          dwellSec: 0,
+        }
+        if (!visitor.charNames.includes(stay.charName)) {
+          visitor.charNames.push(stay.charName)
+        }
+        visitor.dwellSec += stay.durationSec
+        visitors.set(stay.playerName, visitor)
+      }
+      return {
+        x,
+        y,
+        radius: Math.max(radius, DEFAULT_STAY_RADIUS),
+        dwellSec: accumulator.stays.reduce((sum, stay) => sum + stay.durationSec, 0),
+        firstVisit: Math.min(...accumulator.stays.map((stay) => stay.start)),
+        lastVisit: Math.max(...accumulator.stays.map((stay) => stay.end)),
+        visitCount: accumulator.stays.length,
+        visitors: [...visitors.values()].sort(
+          (a, b) => b.dwellSec - a.dwellSec || a.playerName.localeCompare(b.playerName, 'ja'),
+        ),
+      }
+    })
+    .sort((a, b) => b.dwellSec - a.dwellSec || a.firstVisit - b.firstVisit)
+    .map((base, index) => ({ id: `base-${index + 1}`, ...base }))
+}
+
+export function detectBases(
+  characters: CharacterTrack[],
+  options: BaseDetectionOptions = {},
+): BaseCluster[] {
+  const stays = characters.flatMap((character) => detectStayPoints(character, options))
+  return clusterStayPoints(stays, options)
+}
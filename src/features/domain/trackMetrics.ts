@@ -0,0 +1,157 @@
+import {
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  getCharacterPlayerName,
+  type CharacterTrack,
+} from './characters.js'
+import { getCharacterMovementSegments } from './movement.js'
+
+export type TrackBox = {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export type TrackMetrics = {
+  charName: string
+  playerName: string
+  distance: number
+  maxDistanceFromSpawn: number
+  boundingBox: TrackBox | null
+  boundingArea: number
+  visitedCells: Set<string>
+}
+
+export type PlayerTrackMetrics = {
+  playerName: string
+  charNames: string[]
+  distance: number
+  maxDistanceFromSpawn: number
+  boundingArea: number
+  visitedCellCount: number
+}
+
+export const MAP_CELL_SIZE = 300
+
+const trackMetricsCache = new WeakMap<CharacterTrack, Map<number, TrackMetrics>>()
+
+function getBoxArea(box: TrackBox | null) {
+  return box ? (box.maxX - box.minX) * (box.maxY - box.minY) : 0
+}
+
+export function getMapCellKey(x: number, y: number, cellSize = MAP_CELL_SIZE) {
+  return `${Math.floor(x / cellSize)},${Math.floor(y / cellSize)}`
+}
+
+export function computeTrackMetrics(
+  character: CharacterTrack,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+): TrackMetrics {
+  const { t, x, y } = character.track
+  const metrics: TrackMetrics = {
+    charName: character.charName,
+    playerName: character.playerName,
+    distance: 0,
+    maxDistanceFromSpawn: 0,
+    boundingBox: null,
+    boundingArea: 0,
+    visitedCells: new Set<string>(),
+  }
+  if (t.length === 0 || x.length !== t.length || y.length !== t.length) {
+    return metrics
+  }
+
+  const segments = getCharacterMovementSegments(character, offlineThresholdSec)
+  const box: TrackBox = { minX: x[0], minY: y[0], maxX: x[0], maxY: y[0] }
+  for (let index = 0; index < t.length; index += 1) {
+    box.minX = Math.min(box.minX, x[index])
+    box.minY = Math.min(box.minY, y[index])
+    box.maxX = Math.max(box.maxX, x[index])
+    box.maxY = Math.max(box.maxY, y[index])
+    metrics.visitedCells.add(getMapCellKey(x[index], y[index]))
+    metrics.maxDistanceFromSpawn = Math.max(
+      metrics.maxDistanceFromSpawn,
+      Math.hypot(x[index] - x[0], y[index] - y[0]),
+    )
+    if (index === 0) {
+      continue
+    }
+    const segment = segments[index - 1]
+    if (segment.mode !== 'teleport' && !segment.offline) {
+      metrics.distance += segment.distance
+    }
+  }
+  metrics.boundingBox = box
+  metrics.boundingArea = getBoxArea(box)
+  return metrics
+}
+
+export function getCharacterTrackMetrics(
+  character: CharacterTrack,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+) {
+  const byThreshold = trackMetricsCache.get(character) ?? new Map<number, TrackMetrics>()
+  const cached = byThreshold.get(offlineThresholdSec)
+  if (cached) {
+    return cached
+  }
+  const metrics = computeTrackMetrics(character, offlineThresholdSec)
+  byThreshold.set(offlineThresholdSec, metrics)
+  trackMetricsCache.set(character, byThreshold)
+  return metrics
+}
+
+export function summarizePlayerTrackMetrics(
+  characters: CharacterTrack[],
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+): PlayerTrackMetrics[] {
+  const byPlayer = new Map<
+    string,
+    { metrics: PlayerTrackMetrics; box: TrackBox | null; cells: Set<string> }
+  >()
+  for (const character of characters) {
+    const playerName = getCharacterPlayerName(character)
+    const characterMetrics = getCharacterTrackMetrics(character, offlineThresholdSec)
+    const entry = byPlayer.get(playerName) ?? {
+      metrics: {
+        playerName,
+        charNames: [],
+        distance: 0,
+        maxDistanceFromSpawn: 0,
+        boundingArea: 0,
+        visitedCellCount: 0,
+      },
+      box: null,
+      cells: new Set<string>(),
+    }
+    entry.metrics.charNames.push(character.charName)
+    entry.metrics.distance += characterMetrics.distance
+    entry.metrics.maxDistanceFromSpawn = Math.max(
+      entry.metrics.maxDistanceFromSpawn,
+      characterMetrics.maxDistanceFromSpawn,
+    )
+    const box = characterMetrics.boundingBox
+    if (box) {
+      entry.box = entry.box
+        ? {
+            minX: Math.min(entry.box.minX, box.minX),
+            minY: Math.min(entry.box.minY, box.minY),
+            maxX: Math.max(entry.box.maxX, box.maxX),
+            maxY: Math.max(entry.box.maxY, box.maxY),
+          }
+        : { ...box }
+    }
+    for (const cell of characterMetrics.visitedCells) {
+      entry.cells.add(cell)
+    }
+    byPlayer.set(playerName, entry)
+  }
+
+  return [...byPlayer.values()]
+    .map(({ metrics, box, cells }) => ({
+      ...metrics,
+      boundingArea: getBoxArea(box),
+      visitedCellCount: cells.size,
+    }))
+    .sort((a, b) => a.playerName.localeCompare(b.playerName, 'ja'))
+}
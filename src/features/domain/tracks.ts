@@ -0,0 +1,97 @@
+import {
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  type CharacterTrack,
+  type TimeInterval,
+} from './characters.js'
+
+export type TracksBounds = {
+  worldW: number
+  worldH: number
+  mapW: number
+  mapH: number
+  worldMinX?: number
+  worldMinY?: number
+  mapScale?: number
+}
+
+export type TracksPeriod = {
+  start: string
+  end: string
+}
+
+export type TracksMeta = {
+  timezone?: string
+  period?: TracksPeriod
+  periodJST?: TracksPeriod
+  bounds?: TracksBounds
+  offlineGapSec?: number
+}
+
+export const DEFAULT_TIME_ZONE = 'Asia/Tokyo'
+
+function parseIsoToUnixSec(iso: string | undefined) {
+  if (!iso) {
+    return Number.NaN
+  }
+  const parsed = Date.parse(iso)
+  return Number.isFinite(parsed) ? parsed / 1000 : Number.NaN
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function resolveTracksTimeZone(meta: TracksMeta | null | undefined) {
+  const timeZone = meta?.timezone?.trim()
+  if (timeZone && isValidTimeZone(timeZone)) {
+    return timeZone
+  }
+  return DEFAULT_TIME_ZONE
+}
+
+export function resolveTracksPeriod(
+  meta: TracksMeta | null | undefined,
+  characters: CharacterTrack[] = [],
+): TimeInterval | null {
+  const source = meta?.period ?? meta?.periodJST
+  const start = parseIsoToUnixSec(source?.start)
+  const end = parseIsoToUnixSec(source?.end)
+  if (Number.isFinite(start) && Number.isFinite(end) && end > start) {
+    return { start, end }
+  }
+
+  let lifeStart = Number.POSITIVE_INFINITY
+  let lifeEnd = Number.NEGATIVE_INFINITY
+  for (const character of characters) {
+    if (Number.isFinite(character.life.start)) {
+      lifeStart = Math.min(lifeStart, character.life.start)
+    }
+    if (Number.isFinite(character.life.end)) {
+      lifeEnd = Math.max(lifeEnd, character.life.end)
+    }
+  }
+  if (Number.isFinite(lifeStart) && Number.isFinite(lifeEnd) && lifeEnd > lifeStart) {
+    return { start: lifeStart, end: lifeEnd }
+  }
+
+  return null
+}
+
+export function resolveOfflineThresholdSec(
+  meta: TracksMeta | null | undefined,
+  overrideSec?: number | null,
+) {
+  if (overrideSec != null && Number.isFinite(overrideSec) && overrideSec > 0) {
+    return overrideSec
+  }
+  const offlineGapSec = meta?.offlineGapSec
+  if (offlineGapSec != null && Number.isFinite(offlineGapSec) && offlineGapSec > 0) {
+    return offlineGapSec
+  }
+  return DEFAULT_OFFLINE_THRESHOLD_SEC
+}
@@ -0,0 +1,24 @@
+export type WorldRange = {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export type WorldGridExtent = {
+  minColumn: number
+  minRow: number
+  columns: number
+  rows: number
+}
+
+export function getWorldGridExtent(worldRange: WorldRange, cellSize: number): WorldGridExtent {
+  const minColumn = Math.floor(worldRange.minX / cellSize)
+  const minRow = Math.floor(worldRange.minY / cellSize)
+  return {
+    minColumn,
+    minRow,
+    columns: Math.max(1, Math.floor(worldRange.maxX / cellSize) - minColumn + 1),
+    rows: Math.max(1, Math.floor(worldRange.maxY / cellSize) - minRow + 1),
+  }
+}
@@ -1,10 +1,13 @@
 ﻿import {
   getPointAtTime,
+  type CharacterEvent,
+  type CharacterEventType,
   type CharacterTrack,
 } from '../domain/characters.js'
+import type { Encounter } from '../domain/encounters.js'
 
 export type OverlayMode = 'normal' | 'events'
-export type EventKind = 'respawn' | 'login' | 'logout' | 'death' | 'logoutMaybe'
+export type EventKind = 'respawn' | 'login' | 'logout' | 'death' | 'logoutMaybe' | 'encounter'
 export type CharacterTerminalType = 'death' | 'logoutMaybe'
 
 export type CharacterTerminalInfo = {
@@ -24,6 +27,8 @@ export type EventPoint = {
   x: number
   y: number
   time: number
+  participants?: string[]
+  endTime?: number
 }
 
 type EventVisibilityOptions = {
@@ -38,6 +43,13 @@ type EventVisibilityOptions = {
 const EVENT_MARKER_DISPLAY_REAL_SEC = 8
 const EVENT_MARKER_FADE_REAL_SEC = 2
 
+const LOGGED_EVENT_KINDS: Partial<Record<CharacterEventType, EventKind>> = {
+  respawn: 'respawn',
+  login: 'login',
+  logout: 'logout',
+  death: 'death',
+}
+
 function clamp(value: number, min: number, max: number) {
   return Math.min(max, Math.max(min, value))
 }
@@ -47,6 +59,34 @@ function normalizePlayerKey(name: string, charName: string) {
   return trimmed.length > 0 ? trimmed : `__unknown__:${charName}`
 }
 
+function resolveLoggedEventPosition(character: CharacterTrack, event: CharacterEvent) {
+  if (event.x != null && event.y != null && Number.isFinite(event.x) && Number.isFinite(event.y)) {
+    return { x: event.x, y: event.y }
+  }
+  const times = character.track.t
+  if (times.length === 0) {
+    return { x: Number.NaN, y: Number.NaN }
+  }
+  let left = 0
+  let right = times.length
+  while (left < right) {
+    const mid = (left + right) >> 1
+    if (times[mid] <= event.t) {
+      left = mid + 1
+    } else {
+      right = mid
+    }
+  }
+  const index = Math.max(0, left - 1)
+  return { x: character.track.x[index], y: character.track.y[index] }
+}
+
+function getLoggedEvents(character: CharacterTrack, type: CharacterEventType) {
+  return (character.events ?? []).filter(
+    (event) => event.type === type && Number.isFinite(event.t),
+  )
+}
+
 export function getEventMarkerDisplayWindowSec(playbackSpeed: number) {
   return Math.max(1, playbackSpeed) * EVENT_MARKER_DISPLAY_REAL_SEC
 }
@@ -125,6 +165,21 @@ export function buildCharacterTerminalInfoMap(allCharacters: CharacterTrack[]) {
   for (const character of allCharacters) {
     const playerKey = normalizePlayerKey(character.playerName, character.charName)
     const siblings = grouped.get(playerKey) ?? []
+    const loggedDeaths = getLoggedEvents(character, 'death')
+    if (loggedDeaths.length > 0) {
+      const lastDeath = loggedDeaths[loggedDeaths.length - 1]
+      const position = resolveLoggedEventPosition(character, lastDeath)
+      infoMap.set(character.charName, {
+        charName: character.charName,
+        playerName: character.playerName,
+        x: position.x,
+        y: position.y,
+        terminalTime: lastDeath.t,
+        terminalType: 'death',
+      })
+      continue
+    }
+
     const terminalTime = terminalTimeByName.get(character.charName) ?? character.life.end
     const hasNextCharacter = siblings.some((other) => {
       if (other.charName === character.charName) {
@@ -155,6 +210,27 @@ export function buildCharacterTerminalInfoMap(allCharacters: CharacterTrack[]) {
   return infoMap
 }
 
+function buildLoggedEventPoints(character: CharacterTrack) {
+  const points: EventPoint[] = []
+  for (const event of character.events ?? []) {
+    const kind = LOGGED_EVENT_KINDS[event.type]
+    if (!kind || kind === 'death' || !Number.isFinite(event.t)) {
+      continue
+    }
+    const position = resolveLoggedEventPosition(character, event)
+    points.push({
+      id: `${kind}:${character.charName}:${event.t}`,
+      kind,
+      charName: character.charName,
+      playerName: character.playerName,
+      x: position.x,
+      y: position.y,
+      time: event.t,
+    })
+  }
+  return points
+}
+
 function buildSessionEventPoints(character: CharacterTrack) {
   const points: EventPoint[] = []
   const times = character.track.t
@@ -211,16 +287,46 @@ function buildSessionEventPoints(character: CharacterTrack) {
   return points
 }
 
+export function buildEncounterEventPoints(encounters: Encounter[]): EventPoint[] {
+  return encounters.map((encounter) => ({
+    id: encounter.id,
+    kind: 'encounter',
+    charName: encounter.participants[0],
+    playerName: encounter.playerNames[0],
+    x: encounter.x,
+    y: encounter.y,
+    time: encounter.start,
+    participants: [...encounter.participants],
+    endTime: encounter.end,
+  }))
+}
+
 export function buildAllEventPoints(
   allCharacters: CharacterTrack[],
   characterTerminalInfoMap: Map<string, CharacterTerminalInfo>,
+  encounters: Encounter[] = [],
 ) {
-  const points: EventPoint[] = []
+  const points: EventPoint[] = buildEncounterEventPoints(encounters)
   for (const character of allCharacters) {
-    points.push(...buildSessionEventPoints(character))
+    const loggedPoints = buildLoggedEventPoints(character)
+    const loggedKinds = new Set(loggedPoints.map((point) => point.kind))
+    points.push(...loggedPoints)
+    points.push(
+      ...buildSessionEventPoints(character).filter((point) => !loggedKinds.has(point.kind)),
+    )
 
     const terminalInfo = characterTerminalInfoMap.get(character.charName)
-    if (terminalInfo && Number.isFinite(terminalInfo.x) && Number.isFinite(terminalInfo.y)) {
+    const isLoggedOutAtTerminal =
+      terminalInfo?.terminalType === 'logoutMaybe' &&
+      loggedPoints.some(
+        (point) => point.kind === 'logout' && point.time >= terminalInfo.terminalTime,
+      )
+    if (
+      terminalInfo &&
+      !isLoggedOutAtTerminal &&
+      Number.isFinite(terminalInfo.x) &&
+      Number.isFinite(terminalInfo.y)
+    ) {
       points.push({
         id: `${terminalInfo.terminalType}:${character.charName}:${terminalInfo.terminalTime}`,
         kind: terminalInfo.terminalType,
@@ -251,7 +357,7 @@ export function filterActiveEventPoints(
   return allEventPoints.filter(
     (point) =>
       visibleEventKinds[point.kind] &&
-      visibility[point.charName] !== false &&
+      (point.participants ?? [point.charName]).every((charName) => visibility[charName] !== false) &&
       Number.isFinite(point.x) &&
       Number.isFinite(point.y) &&
       isEventVisibleOnCurrentScreen(
@@ -268,8 +374,9 @@ export function getCharacterListStateFromEvents(
   character: CharacterTrack,
   currentTime: number,
   activeEventPoints: EventPoint[],
+  offlineThresholdSec?: number,
 ): 'online' | 'dead' | 'inactive' {
-  const sample = getPointAtTime(character, currentTime)
+  const sample = getPointAtTime(character, currentTime, offlineThresholdSec)
   const isOnline =
     sample != null &&
     !sample.beforeStart &&
@@ -325,6 +432,9 @@ export function getEventKindLabel(kind: EventKind) {
   if (kind === 'death') {
     return '死亡位置'
   }
+  if (kind === 'encounter') {
+    return 'エンカウント'
+  }
   return 'ログアウト?'
 }
 
@@ -341,5 +451,8 @@ export function getEventTimeLabel(kind: EventKind) {
   if (kind === 'death') {
     return '死亡時刻'
   }
+  if (kind === 'encounter') {
+    return '遭遇開始'
+  }
   return 'ログアウト?時刻'
 }
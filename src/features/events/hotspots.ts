@@ -0,0 +1,109 @@
+import { DEFAULT_TIME_ZONE } from '../domain/tracks.js'
+import { getTimeZoneOffsetSec } from '../timeline/timeline.js'
+import type { EventPoint } from './events.js'
+
+export type DeathHotspotVictim = {
+  charName: string
+  playerName: string
+  time: number
+}
+
+export type DeathHotspot = {
+  id: string
+  x: number
+  y: number
+  radius: number
+  count: number
+  firstTime: number
+  lastTime: number
+  hourCounts: number[]
+  victims: DeathHotspotVictim[]
+}
+
+export type DeathHotspotOptions = {
+  clusterRadius?: number
+  minCount?: number
+  timeZone?: string
+}
+
+type HotspotAccumulator = {
+  sumX: number
+  sumY: number
+  points: EventPoint[]
+}
+
+const DEFAULT_HOTSPOT_RADIUS = 40
+const DEFAULT_HOTSPOT_MIN_COUNT = 2
+const MIN_HOTSPOT_RADIUS = 10
+
+export function getLocalHour(unixSec: number, timeZone = DEFAULT_TIME_ZONE) {
+  const localSec = Math.floor(unixSec) + getTimeZoneOffsetSec(unixSec, timeZone)
+  return Math.floor((((localSec % 86400) + 86400) % 86400) / 3600)
+}
+
+export function clusterDeathHotspots(
+  eventPoints: EventPoint[],
+  options: DeathHotspotOptions = {},
+): DeathHotspot[] {
+  const clusterRadius = options.clusterRadius ?? DEFAULT_HOTSPOT_RADIUS
+  const minCount = options.minCount ?? DEFAULT_HOTSPOT_MIN_COUNT
+  const timeZone = options.timeZone ?? DEFAULT_TIME_ZONE
+  const accumulators: HotspotAccumulator[] = []
+
+  const deaths = eventPoints
+    .filter(
+      (point) => point.kind === 'death' && Number.isFinite(point.x) && Number.isFinite(point.y),
+    )
+    .sort((a, b) => a.time - b.time || a.id.localeCompare(b.id))
+  for (const point of deaths) {
+    let nearest: HotspotAccumulator | null = null
+    let nearestDistance = Number.POSITIVE_INFINITY
+    for (const accumulator of accumulators) {
+      const distance = Math.hypot(
+        accumulator.sumX / accumulator.points.length - point.x,
+        accumulator.sumY / accumulator.points.length - point.y,
+      )
+      if (distance <= clusterRadius && distance < nearestDistance) {
+        nearest = accumulator
+        nearestDistance = distance
+      }
+    }
+    if (nearest) {
+      nearest.sumX += point.x
+      nearest.sumY += point.y
+      nearest.points.push(point)
+    } else {
+      accumulators.push({ sumX: point.x, sumY: point.y, points: [point] })
+    }
+  }
+
+  return accumulators
+    .filter((accumulator) => accumulator.points.length >= minCount)
+    .map((accumulator) => {
+      const count = accumulator.points.length
+      const x = accumulator.sumX / count
+      const y = accumulator.sumY / count
+      const hourCounts = Array.from({ length: 24 }, () => 0)
+      let radius = MIN_HOTSPOT_RADIUS
+      for (const point of accumulator.points) {
+        hourCounts[getLocalHour(point.time, timeZone)] += 1
+        radius = Math.max(radius, Math.hypot(point.x - x, point.y - y))
+      }
+      return {
+        id: `hotspot:${accumulator.points[0].id}`,
+        x,
+        y,
+        radius,
+        count,
+        firstTime: accumulator.points[0].time,
+        lastTime: accumulator.points[count - 1].time,
+        hourCounts,
+        victims: accumulator.points.map((point) => ({
+          charName: point.charName,
+          playerName: point.playerName,
+          time: point.time,
+        })),
+      }
+    })
+    .sort((a, b) => b.count - a.count || a.firstTime - b.firstTime)
+}
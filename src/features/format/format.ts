@@ -0,0 +1,42 @@
+export function formatCount(value: number) {
+  return Math.round(value).toLocaleString('ja-JP')
+}
+
+export function formatDurationShort(totalSec: number) {
+  const clamped = Math.max(0, Math.round(totalSec))
+  const days = Math.floor(clamped / 86400)
+  const hours = Math.floor((clamped % 86400) / 3600)
+  const minutes = Math.floor((clamped % 3600) / 60)
+
+  if (days > 0) {
+    return hours > 0 ? `${days}日 ${hours}時間` : `${days}日`
+  }
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}時間 ${minutes}分` : `${hours}時間`
+  }
+  return `${Math.max(1, minutes)}分`
+}
+
+export function formatDateTime(unixSec: number, timeZone: string) {
+  return new Intl.DateTimeFormat('ja-JP', {
+    timeZone,
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  }).format(new Date(unixSec * 1000))
+}
+
+export function formatPeriodLabel(start: number, end: number, timeZone: string) {
+  const formatter = new Intl.DateTimeFormat('ja-JP', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  })
+  return `${formatter.format(new Date(start * 1000))} - ${formatter.format(new Date(end * 1000))}`
+}
@@ -0,0 +1,9 @@
+import type { CharacterTrack } from '../domain/characters.js'
+
+export const BINARY_TRACKS_MAGIC: 'PZTB'
+export const BINARY_TRACKS_VERSION: 1
+
+export function encodeBinaryTracks(tracks: {
+  meta: unknown
+  characters: Record<string, CharacterTrack>
+}): Uint8Array
@@ -0,0 +1,47 @@
+export const BINARY_TRACKS_MAGIC = 'PZTB'
+export const BINARY_TRACKS_VERSION = 1
+
+const PREFIX_BYTES = 12
+
+function concatBytes(parts) {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.byteLength
+  }
+  return bytes
+}
+
+export function encodeBinaryTracks(tracks) {
+  const encoder = new TextEncoder()
+  const characterList = Object.values(tracks.characters)
+  const metaBytes = encoder.encode(
+    JSON.stringify({ meta: tracks.meta, characterCount: characterList.length }),
+  )
+  const prefix = new Uint8Array(PREFIX_BYTES)
+  const prefixView = new DataView(prefix.buffer)
+  prefix.set(encoder.encode(BINARY_TRACKS_MAGIC), 0)
+  prefixView.setUint32(4, BINARY_TRACKS_VERSION, true)
+  prefixView.setUint32(8, metaBytes.byteLength, true)
+  const parts = [prefix, metaBytes]
+
+  for (const { track, ...rest } of characterList) {
+    const count = track.t.length
+    const headerBytes = encoder.encode(JSON.stringify({ ...rest, count }))
+    const headerLength = new Uint8Array(4)
+    new DataView(headerLength.buffer).setUint32(0, headerBytes.byteLength, true)
+    const body = new Uint8Array(count * 12)
+    const bodyView = new DataView(body.buffer)
+    for (const [column, values] of [track.t, track.x, track.y].entries()) {
+      let previous = 0
+      for (let index = 0; index < count; index += 1) {
+        bodyView.setInt32((column * count + index) * 4, values[index] - previous, true)
+        previous = values[index]
+      }
+    }
+    parts.push(headerLength, headerBytes, body)
+  }
+
+  return concatBytes(parts)
+}
@@ -0,0 +1,173 @@
+import type { CharacterEvent, CharacterTrack } from '../domain/characters.js'
+import {
+  resolveOfflineThresholdSec,
+  resolveTracksPeriod,
+  type TracksMeta,
+} from '../domain/tracks.js'
+import type { LoadedTracks } from './tracksLoader.js'
+
+export type LiveMergeResult = {
+  tracks: LoadedTracks
+  changed: boolean
+  addedCharacterNames: string[]
+}
+
+function upperBound(values: number[], target: number) {
+  let left = 0
+  let right = values.length
+  while (left < right) {
+    const mid = (left + right) >> 1
+    if (values[mid] <= target) {
+      left = mid + 1
+    } else {
+      right = mid
+    }
+  }
+  return left
+}
+
+function getEventKey(event: CharacterEvent) {
+  return `${event.t}:${event.type}:${event.raw ?? ''}`
+}
+
+function mergeEvents(
+  current: CharacterEvent[] | undefined,
+  incoming: CharacterEvent[] | undefined,
+) {
+  if (!incoming || incoming.length === 0) {
+    return null
+  }
+  const keys = new Set((current ?? []).map(getEventKey))
+  const added = incoming.filter((event) => !keys.has(getEventKey(event)))
+  if (added.length === 0) {
+    return null
+  }
+  return [...(current ?? []), ...added].sort((a, b) => a.t - b.t)
+}
+
+function appendCharacterSamples(
+  current: CharacterTrack,
+  incoming: CharacterTrack,
+  offlineGapSec: number,
+) {
+  const times = current.track.t
+  const lastTime = times.length > 0 ? times[times.length - 1] : Number.NEGATIVE_INFINITY
+  const firstNewIndex = upperBound(incoming.track.t, lastTime)
+  const newCount = incoming.track.t.length - firstNewIndex
+  const mergedEvents = mergeEvents(current.events, incoming.events)
+  const playerName = incoming.playerName || current.playerName
+
+  if (newCount <= 0 && !mergedEvents && playerName === current.playerName) {
+    return null
+  }
+
+  const t = times.slice()
+  const x = current.track.x.slice()
+  const y = current.track.y.slice()
+  const offline = current.gaps.offline.slice()
+  for (let index = firstNewIndex; index < incoming.track.t.length; index += 1) {
+    const time = incoming.track.t[index]
+    const previousTime = t.length > 0 ? t[t.length - 1] : Number.NaN
+    if (Number.isFinite(previousTime) && time - previousTime > offlineGapSec) {
+      offline.push([previousTime, time])
+    }
+    t.push(time)
+    x.push(incoming.track.x[index])
+    y.push(incoming.track.y[index])
+  }
+
+  return {
+    ...current,
+    playerName,
+    life: {
+      start: current.life.start,
+      end: t.length > 0 ? Math.max(current.life.end, t[t.length - 1]) : current.life.end,
+    },
+    track: { t, x, y },
+    gaps: { offline },
+    ...(mergedEvents ? { events: mergedEvents } : {}),
+  } satisfies CharacterTrack
+}
+
+function extendMetaPeriod(
+  meta: TracksMeta,
+  incomingMeta: TracksMeta | undefined,
+  characters: CharacterTrack[],
+) {
+  const currentPeriod = resolveTracksPeriod(meta, characters)
+  const incomingPeriod = resolveTracksPeriod(incomingMeta, [])
+  let latestTime = Math.max(
+    currentPeriod?.end ?? Number.NEGATIVE_INFINITY,
+    incomingPeriod?.end ?? Number.NEGATIVE_INFINITY,
+  )
+  for (const character of characters) {
+    latestTime = Math.max(latestTime, character.life.end)
+  }
+  if (!currentPeriod || !Number.isFinite(latestTime) || latestTime <= currentPeriod.end) {
+    return meta
+  }
+  return {
+    ...meta,
+    period: {
+      start: new Date(currentPeriod.start * 1000).toISOString(),
+      end: new Date(latestTime * 1000).toISOString(),
+    },
+  }
+}
+
+export function mergeLiveTracks(
+  current: LoadedTracks,
+  incoming: Partial<LoadedTracks>,
+): LiveMergeResult {
+  const offlineGapSec = resolveOfflineThresholdSec(current.meta)
+  const characters = { ...current.characters }
+  const addedCharacterNames: string[] = []
+  let changed = false
+
+  for (const [charName, incomingCharacter] of Object.entries(incoming.characters ?? {})) {
+    const existing = characters[charName]
+    if (!existing) {
+      characters[charName] = incomingCharacter
+      addedCharacterNames.push(charName)
+      changed = true
+      continue
+    }
+    const merged = appendCharacterSamples(existing, incomingCharacter, offlineGapSec)
+    if (merged) {
+      characters[charName] = merged
+      changed = true
+    }
+  }
+
+  if (!changed) {
+    return { tracks: current, changed, addedCharacterNames }
+  }
+
+  return {
+    tracks: {
+      meta: extendMetaPeriod(current.meta, incoming.meta, Object.values(characters)),
+      characters,
+    },
+    changed,
+    addedCharacterNames,
+  }
+}
+
+export function getLatestTrackTime(characters: Record<string, CharacterTrack>) {
+  let latestTime = Number.NEGATIVE_INFINITY
+  for (const character of Object.values(characters)) {
+    const times = character.track.t
+    if (times.length > 0) {
+      latestTime = Math.max(latestTime, times[times.length - 1])
+    }
+  }
+  return latestTime
+}
+
+export async function fetchLiveTracks(url: string, signal: AbortSignal) {
+  const response = await fetch(url, { signal, cache: 'no-store' })
+  if (!response.ok) {
+    throw new Error('live-tracks-load-failed')
+  }
+  return (await response.json()) as Partial<LoadedTracks>
+}
@@ -0,0 +1,149 @@
+import type { CharacterTrack } from '../domain/characters.js'
+import type { TracksMeta } from '../domain/tracks.js'
+
+export type TrackChunkEntry = {
+  id: string
+  start: number
+  end: number
+  file: string
+  sampleCount: number
+}
+
+export type TrackChunkIndex = {
+  version: number
+  meta: TracksMeta
+  chunks: TrackChunkEntry[]
+  characters: Record<string, CharacterTrack>
+}
+
+export type TrackChunkSeries = CharacterTrack['track']
+
+export type TrackChunk = {
+  id: string
+  start: number
+  end: number
+  characters: Record<string, TrackChunkSeries>
+}
+
+export async function fetchTrackChunkIndex(url: string, signal: AbortSignal) {
+  try {
+    const response = await fetch(url, { signal })
+    if (!response.ok) {
+      return null
+    }
+    const raw = (await response.json()) as Partial<TrackChunkIndex>
+    if (!raw || !Array.isArray(raw.chunks) || !raw.characters || typeof raw.characters !== 'object') {
+      return null
+    }
+    return {
+      version: typeof raw.version === 'number' ? raw.version : 1,
+      meta: raw.meta ?? {},
+      chunks: [...raw.chunks].sort((a, b) => a.start - b.start),
+      characters: raw.characters,
+    } satisfies TrackChunkIndex
+  } catch (error) {
+    if (signal.aborted) {
+      throw error
+    }
+    return null
+  }
+}
+
+export async function fetchTrackChunk(url: string, signal?: AbortSignal) {
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    throw new Error('track-chunk-load-failed')
+  }
+  return (await response.json()) as TrackChunk
+}
+
+export function getTrackChunksInRange(index: TrackChunkIndex, start: number, end: number) {
+  return index.chunks.filter((chunk) => chunk.end > start && chunk.start <= end)
+}
+
+function mergeSeries(skeleton: TrackChunkSeries, parts: TrackChunkSeries[]): TrackChunkSeries {
+  const t: number[] = []
+  const x: number[] = []
+  const y: number[] = []
+  let skeletonIndex = 0
+
+  const pushSkeletonUntil = (time: number) => {
+    while (skeletonIndex < skeleton.t.length && skeleton.t[skeletonIndex] < time) {
+      t.push(skeleton.t[skeletonIndex])
+      x.push(skeleton.x[skeletonIndex])
+      y.push(skeleton.y[skeletonIndex])
+      skeletonIndex += 1
+    }
+    while (skeletonIndex < skeleton.t.length && skeleton.t[skeletonIndex] === time) {
+      skeletonIndex += 1
+    }
+  }
+
+  for (const part of parts) {
+    for (let index = 0; index < part.t.length; index += 1) {
+      pushSkeletonUntil(part.t[index])
+      t.push(part.t[index])
+      x.push(part.x[index])
+      y.push(part.y[index])
+    }
+  }
+  pushSkeletonUntil(Number.POSITIVE_INFINITY)
+
+  return { t, x, y }
+}
+
+function mergeCharacterChunks(
+  charName: string,
+  summary: CharacterTrack,
+  chunks: TrackChunk[],
+): CharacterTrack {
+  const parts = chunks
+    .map((chunk) => chunk.characters[charName])
+    .filter((series): series is TrackChunkSeries => series != null)
+  return {
+    ...summary,
+    track: parts.length > 0 ? mergeSeries(summary.track, parts) : summary.track,
+  }
+}
+
+function getLoadedChunksInOrder(index: TrackChunkIndex, loadedChunks: Map<string, TrackChunk>) {
+  return index.chunks
+    .map((entry) => loadedChunks.get(entry.id))
+    .filter((chunk): chunk is TrackChunk => chunk != null)
+}
+
+export function mergeTrackChunks(index: TrackChunkIndex, loadedChunks: Map<string, TrackChunk>) {
+  const chunks = getLoadedChunksInOrder(index, loadedChunks)
+  const characters: Record<string, CharacterTrack> = {}
+  for (const [charName, summary] of Object.entries(index.characters)) {
+    characters[charName] = mergeCharacterChunks(charName, summary, chunks)
+  }
+  return characters
+}
+
+export function getTrackChunkCharacterNames(chunks: TrackChunk[]) {
+  const names = new Set<string>()
+  for (const chunk of chunks) {
+    for (const charName of Object.keys(chunk.characters)) {
+      names.add(charName)
+    }
+  }
+  return names
+}
+
+export function remergeTrackChunkCharacters(
+  index: TrackChunkIndex,
+  loadedChunks: Map<string, TrackChunk>,
+  current: Record<string, CharacterTrack>,
+  charNames: Iterable<string>,
+) {
+  const chunks = getLoadedChunksInOrder(index, loadedChunks)
+  const characters = { ...current }
+  for (const charName of charNames) {
+    const summary = index.characters[charName]
+    if (summary) {
+      characters[charName] = mergeCharacterChunks(charName, summary, chunks)
+    }
+  }
+  return characters
+}
@@ -0,0 +1,306 @@
+import type { CharacterTrack } from '../domain/characters.js'
+import type { TracksMeta } from '../domain/tracks.js'
+import { BINARY_TRACKS_MAGIC, BINARY_TRACKS_VERSION } from './binaryTracks.js'
+
+export { BINARY_TRACKS_MAGIC, BINARY_TRACKS_VERSION }
+
+export type LoadedTracks = {
+  meta: TracksMeta
+  characters: Record<string, CharacterTrack>
+}
+
+export type BinaryTracksHeader = {
+  meta: TracksMeta
+  characterCount: number
+}
+
+export type TracksLoadProgress = {
+  loadedBytes: number
+  totalBytes: number | null
+  loadedCharacters: number
+  totalCharacters: number | null
+}
+
+export type TracksLoadUrls = {
+  binary: string
+  json: string
+}
+
+export type TracksLoadOptions = {
+  signal: AbortSignal
+  onHeader?: (header: BinaryTracksHeader) => void
+  onCharacters?: (characters: CharacterTrack[]) => void
+  onProgress?: (progress: TracksLoadProgress) => void
+}
+
+type CharacterRecordHeader = Omit<CharacterTrack, 'track'> & {
+  count: number
+}
+
+type DecoderStage = 'prefix' | 'meta' | 'recordLength' | 'recordHeader' | 'recordBody'
+
+const PREFIX_BYTES = 12
+const textDecoder = new TextDecoder()
+
+function createByteQueue() {
+  const chunks: Uint8Array[] = []
+  let headOffset = 0
+  let length = 0
+
+  const consumeHead = (count: number) => {
+    headOffset += count
+    length -= count
+    if (headOffset === chunks[0].byteLength) {
+      chunks.shift()
+      headOffset = 0
+    }
+  }
+
+  return {
+    push(chunk: Uint8Array) {
+      if (chunk.byteLength > 0) {
+        chunks.push(chunk)
+        length += chunk.byteLength
+      }
+    },
+    take(size: number) {
+      const head = chunks[0]
+      if (head && head.byteLength - headOffset >= size) {
+        const bytes = head.subarray(headOffset, headOffset + size)
+        consumeHead(size)
+        return bytes
+      }
+
+      const bytes = new Uint8Array(size)
+      let written = 0
+      while (written < size) {
+        const chunk = chunks[0]
+        const count = Math.min(size - written, chunk.byteLength - headOffset)
+        bytes.set(chunk.subarray(headOffset, headOffset + count), written)
+        written += count
+        consumeHead(count)
+      }
+      return bytes
+    },
+    get length() {
+      return length
+    },
+  }
+}
+
+function toDataView(bytes: Uint8Array) {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+function readDeltaColumn(view: DataView, columnIndex: number, count: number) {
+  const values = new Array<number>(count)
+  const base = columnIndex * count * 4
+  let value = 0
+  for (let index = 0; index < count; index += 1) {
+    value += view.getInt32(base + index * 4, true)
+    values[index] = value
+  }
+  return values
+}
+
+export function createBinaryTracksDecoder() {
+  const queue = createByteQueue()
+  let stage: DecoderStage = 'prefix'
+  let needed = PREFIX_BYTES
+  let header: BinaryTracksHeader | null = null
+  let recordHeader: CharacterRecordHeader | null = null
+  let decodedCount = 0
+
+  const push = (chunk: Uint8Array) => {
+    queue.push(chunk)
+    const characters: CharacterTrack[] = []
+
+    while (queue.length >= needed) {
+      const bytes = queue.take(needed)
+
+      if (stage === 'prefix') {
+        if (textDecoder.decode(bytes.subarray(0, 4)) !== BINARY_TRACKS_MAGIC) {
+          throw new Error('binary-tracks-invalid-magic')
+        }
+        const view = toDataView(bytes)
+        if (view.getUint32(4, true) !== BINARY_TRACKS_VERSION) {
+          throw new Error('binary-tracks-unsupported-version')
+        }
+        stage = 'meta'
+        needed = view.getUint32(8, true)
+        continue
+      }
+
+      if (stage === 'meta') {
+        const parsed = JSON.parse(textDecoder.decode(bytes)) as Partial<BinaryTracksHeader>
+        header = {
+          meta: parsed.meta ?? {},
+          characterCount: parsed.characterCount ?? 0,
+        }
+        stage = 'recordLength'
+        needed = 4
+        continue
+      }
+
+      if (stage === 'recordLength') {
+        stage = 'recordHeader'
+        needed = toDataView(bytes).getUint32(0, true)
+        continue
+      }
+
+      if (stage === 'recordHeader') {
+        recordHeader = JSON.parse(textDecoder.decode(bytes)) as CharacterRecordHeader
+        stage = 'recordBody'
+        needed = recordHeader.count * 12
+        continue
+      }
+
+      if (recordHeader) {
+        const view = toDataView(bytes)
+        const { count, ...rest } = recordHeader
+        characters.push({
+          ...rest,
+          track: {
+            t: readDeltaColumn(view, 0, count),
+            x: readDeltaColumn(view, 1, count),
+            y: readDeltaColumn(view, 2, count),
+          },
+        })
+        decodedCount += 1
+      }
+      recordHeader = null
+      stage = 'recordLength'
+      needed = 4
+    }
+
+    return characters
+  }
+
+  const finish = () => {
+    if (!header || stage !== 'recordLength' || queue.length > 0) {
+      throw new Error('binary-tracks-truncated')
+    }
+    if (decodedCount !== header.characterCount) {
+      throw new Error('binary-tracks-truncated')
+    }
+    return header
+  }
+
+  return {
+    push,
+    finish,
+    get header() {
+      return header
+    },
+    get decodedCount() {
+      return decodedCount
+    },
+  }
+}
+
+export async function loadBinaryTracks(url: string, options: TracksLoadOptions) {
+  const { signal, onHeader, onCharacters, onProgress } = options
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    throw new Error('binary-tracks-unavailable')
+  }
+
+  const contentLength = Number.parseInt(response.headers.get('content-length') ?? '', 10)
+  const totalBytes =
+    Number.isFinite(contentLength) && !response.headers.get('content-encoding')
+      ? contentLength
+      : null
+  const decoder = createBinaryTracksDecoder()
+  const characters: Record<string, CharacterTrack> = {}
+  let loadedBytes = 0
+  let headerReported = false
+
+  const consume = (chunk: Uint8Array) => {
+    loadedBytes += chunk.byteLength
+    const decoded = decoder.push(chunk)
+    const header = decoder.header
+    if (header && !headerReported) {
+      headerReported = true
+      onHeader?.(header)
+    }
+    for (const character of decoded) {
+      characters[character.charName] = character
+    }
+    if (decoded.length > 0) {
+      onCharacters?.(decoded)
+    }
+    onProgress?.({
+      loadedBytes,
+      totalBytes,
+      loadedCharacters: decoder.decodedCount,
+      totalCharacters: header?.characterCount ?? null,
+    })
+  }
+
+  if (response.body) {
+    const reader = response.body.getReader()
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) {
+        break
+      }
+      consume(value)
+    }
+  } else {
+    consume(new Uint8Array(await response.arrayBuffer()))
+  }
+
+  const header = decoder.finish()
+  return { meta: header.meta, characters } satisfies LoadedTracks
+}
+
+export async function loadJsonTracks(url: string, options: TracksLoadOptions) {
+  const { signal, onHeader, onCharacters, onProgress } = options
+  const response = await fetch(url, { signal })
+  if (!response.ok) {
+    throw new Error('tracks-load-failed')
+  }
+
+  const loaded = (await response.json()) as LoadedTracks
+  const characters = Object.values(loaded.characters ?? {})
+  onHeader?.({ meta: loaded.meta ?? {}, characterCount: characters.length })
+  onCharacters?.(characters)
+  onProgress?.({
+    loadedBytes: 0,
+    totalBytes: null,
+    loadedCharacters: characters.length,
+    totalCharacters: characters.length,
+  })
+  return { meta: loaded.meta ?? {}, characters: loaded.characters ?? {} } satisfies LoadedTracks
+}
+
+export async function loadTracks(urls: TracksLoadUrls, options: TracksLoadOptions) {
+  let headerReceived = false
+  try {
+    return await loadBinaryTracks(urls.binary, {
+      ...options,
+      onHeader: (header) => {
+        headerReceived = true
+        options.onHeader?.(header)
+      },
+    })
+  } catch (error) {
+    if (options.signal.aborted || headerReceived) {
+      throw error
+    }
+  }
+  return loadJsonTracks(urls.json, options)
+}
+
+export function getTracksLoadRatio(progress: TracksLoadProgress | null) {
+  if (!progress) {
+    return 0
+  }
+  if (progress.totalBytes != null && progress.totalBytes > 0) {
+    return Math.min(1, progress.loadedBytes / progress.totalBytes)
+  }
+  if (progress.totalCharacters != null && progress.totalCharacters > 0) {
+    return Math.min(1, progress.loadedCharacters / progress.totalCharacters)
+  }
+  return 0
+}
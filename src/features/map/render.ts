@@ -1,7 +1,21 @@
 ﻿import { crossesOfflineGap, type CharacterTrack } from '../domain/characters.js'
+import {
+  getCharacterMovementSegments,
+  type MovementMode,
+} from '../domain/movement.js'
+import {
+  getCharacterTrailLods,
+  selectTrailLod,
+  TRAIL_RUN_BREAK,
+} from '../domain/simplify.js'
+import type { BaseCluster } from '../domain/stays.js'
+import { countCoveredCells, type CoverageGrid } from '../domain/coverage.js'
+import type { HeatmapGrid } from '../domain/heatmap.js'
 import type { EventPoint, OverlayMode } from '../events/events.js'
+import type { DeathHotspot } from '../events/hotspots.js'
 
 type Point = { x: number; y: number }
+export type TrailColorMode = 'single' | 'movement'
 type CameraMetrics = {
   scale: number
   visibleW: number
@@ -99,6 +113,7 @@ function drawEventMarker(
   const crossHalf = 4 * markerScale
   const logoutHalf = 4.6 * markerScale
   const logoutMaybeRadius = 5.2 * markerScale
+  const encounterRadius = 3.6 * markerScale
   const maxRadius =
     point.kind === 'respawn'
       ? respawnRadius
@@ -108,7 +123,9 @@ function drawEventMarker(
           ? crossHalf * 1.1
           : point.kind === 'logout'
             ? logoutHalf * 1.15
-            : logoutMaybeRadius
+            : point.kind === 'encounter'
+              ? encounterRadius * 2
+              : logoutMaybeRadius
   const screen = worldToScreen(point.x, point.y, cameraMetrics)
 
   if (
@@ -173,6 +190,20 @@ function drawEventMarker(
     return
   }
 
+  if (point.kind === 'encounter') {
+    context.fillStyle = 'rgba(148, 82, 196, 0.72)'
+    context.strokeStyle = 'rgba(255, 255, 255, 0.82)'
+    context.lineWidth = Math.max(1.2, 1.2 * markerScale)
+    for (const offset of [-encounterRadius * 0.6, encounterRadius * 0.6]) {
+      context.beginPath()
+      context.arc(screen.x + offset, screen.y, encounterRadius, 0, Math.PI * 2)
+      context.fill()
+      context.stroke()
+    }
+    context.restore()
+    return
+  }
+
   if (point.kind === 'logout') {
     context.fillStyle = 'rgba(255, 226, 145, 0.96)'
     context.strokeStyle = 'rgba(88, 66, 12, 0.95)'
@@ -382,13 +413,256 @@ export function renderBackgroundLayer(args: {
   context.globalCompositeOperation = 'source-over'
 }
 
+const coverageFogCache = new WeakMap<
+  CoverageGrid,
+  { canvas: HTMLCanvasElement; coveredCount: number; fogColor: string }
+>()
+
+function getCoverageFogCanvas(grid: CoverageGrid, time: number, fogColor: string) {
+  const coveredCount = countCoveredCells(grid, time)
+  const cached = coverageFogCache.get(grid)
+  if (cached && cached.coveredCount === coveredCount && cached.fogColor === fogColor) {
+    return cached.canvas
+  }
+
+  const canvas = cached?.canvas ?? document.createElement('canvas')
+  canvas.width = grid.columns
+  canvas.height = grid.rows
+  const fogContext = canvas.getContext('2d')
+  if (!fogContext) {
+    return null
+  }
+  const image = fogContext.createImageData(grid.columns, grid.rows)
+  const [red, green, blue] = hexToRgb(fogColor)
+  for (let cell = 0; cell < grid.firstVisit.length; cell += 1) {
+    const offset = cell * 4
+    image.data[offset] = red
+    image.data[offset + 1] = green
+    image.data[offset + 2] = blue
+    image.data[offset + 3] = grid.firstVisit[cell] <= time ? 0 : 150
+  }
+  fogContext.putImageData(image, 0, 0)
+  coverageFogCache.set(grid, { canvas, coveredCount, fogColor })
+  return canvas
+}
+
+export function renderCoverageLayer(args: {
+  context: CanvasRenderingContext2D
+  grid: CoverageGrid
+  time: number
+  fogColor: string
+  cameraMetrics: CameraMetrics
+  worldToScreen: (x: number, y: number, metrics: CameraMetrics) => Point
+}) {
+  const { context, grid, time, fogColor, cameraMetrics, worldToScreen } = args
+  const canvas = getCoverageFogCanvas(grid, time, fogColor)
+  if (!canvas) {
+    return
+  }
+  const topLeft = worldToScreen(grid.minX, grid.minY, cameraMetrics)
+  const bottomRight = worldToScreen(
+    grid.minX + grid.columns * grid.cellSize,
+    grid.minY + grid.rows * grid.cellSize,
+    cameraMetrics,
+  )
+  const smoothing = context.imageSmoothingEnabled
+  context.imageSmoothingEnabled = false
+  context.drawImage(
+    canvas,
+    topLeft.x,
+    topLeft.y,
+    bottomRight.x - topLeft.x,
+    bottomRight.y - topLeft.y,
+  )
+  context.imageSmoothingEnabled = smoothing
+}
+
+const heatmapCanvasCache = new WeakMap<HeatmapGrid, HTMLCanvasElement>()
+
+function getHeatmapCanvas(grid: HeatmapGrid, lowColor: string, highColor: string) {
+  const cached = heatmapCanvasCache.get(grid)
+  if (cached) {
+    return cached
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = grid.columns
+  canvas.height = grid.rows
+  const heatContext = canvas.getContext('2d')
+  if (!heatContext) {
+    return null
+  }
+  const image = heatContext.createImageData(grid.columns, grid.rows)
+  const low = hexToRgb(lowColor)
+  const high = hexToRgb(highColor)
+  for (let cell = 0; cell < grid.values.length; cell += 1) {
+    const value = grid.values[cell]
+    if (value <= 0 || grid.max <= 0) {
+      continue
+    }
+    const ratio = Math.sqrt(value / grid.max)
+    const offset = cell * 4
+    image.data[offset] = Math.round(low[0] + (high[0] - low[0]) * ratio)
+    image.data[offset + 1] = Math.round(low[1] + (high[1] - low[1]) * ratio)
+    image.data[offset + 2] = Math.round(low[2] + (high[2] - low[2]) * ratio)
+    image.data[offset + 3] = Math.round(255 * (0.2 + 0.55 * ratio))
+  }
+  heatContext.putImageData(image, 0, 0)
+  heatmapCanvasCache.set(grid, canvas)
+  return canvas
+}
+
+export function renderHeatmapLayer(args: {
+  context: CanvasRenderingContext2D
+  grid: HeatmapGrid
+  lowColor: string
+  highColor: string
+  cameraMetrics: CameraMetrics
+  worldToScreen: (x: number, y: number, metrics: CameraMetrics) => Point
+}) {
+  const { context, grid, lowColor, highColor, cameraMetrics, worldToScreen } = args
+  if (grid.max <= 0) {
+    return
+  }
+  const canvas = getHeatmapCanvas(grid, lowColor, highColor)
+  if (!canvas) {
+    return
+  }
+  const topLeft = worldToScreen(grid.minX, grid.minY, cameraMetrics)
+  const bottomRight = worldToScreen(
+    grid.minX + grid.columns * grid.cellSize,
+    grid.minY + grid.rows * grid.cellSize,
+    cameraMetrics,
+  )
+  context.drawImage(
+    canvas,
+    topLeft.x,
+    topLeft.y,
+    bottomRight.x - topLeft.x,
+    bottomRight.y - topLeft.y,
+  )
+}
+
+function upperBoundTime(values: number[], target: number) {
+  let left = 0
+  let right = values.length
+  while (left < right) {
+    const mid = (left + right) >> 1
+    if (values[mid] <= target) {
+      left = mid + 1
+    } else {
+      right = mid
+    }
+  }
+  return left
+}
+
+function lowerBoundTime(values: number[], target: number) {
+  let left = 0
+  let right = values.length
+  while (left < right) {
+    const mid = (left + right) >> 1
+    if (values[mid] < target) {
+      left = mid + 1
+    } else {
+      right = mid
+    }
+  }
+  return left
+}
+
+function renderAllTimeTrails(args: {
+  context: CanvasRenderingContext2D
+  renderedCharacters: RenderedCharacter[]
+  sceneTime: number
+  trailColor: string
+  trailColorMode: TrailColorMode
+  movementModeColors: Record<MovementMode, string>
+  offlineThresholdSec: number
+  cameraMetrics: CameraMetrics
+  worldToScreen: (x: number, y: number, metrics: CameraMetrics) => Point
+}) {
+  const {
+    context,
+    renderedCharacters,
+    sceneTime,
+    trailColor,
+    trailColorMode,
+    movementModeColors,
+    offlineThresholdSec,
+    cameraMetrics,
+    worldToScreen,
+  } = args
+  const worldUnitsPerPixel = 1 / Math.max(cameraMetrics.scale, 1e-9)
+  const paths = new Map<string, Path2D>()
+
+  for (const { character } of renderedCharacters) {
+    const { t: times, x: xs, y: ys } = character.track
+    if (times.length < 2 || xs.length !== times.length || ys.length !== times.length) {
+      continue
+    }
+    const startIndex = lowerBoundTime(times, character.life.start)
+    const endExclusive = upperBoundTime(times, sceneTime)
+    if (endExclusive - startIndex < 2) {
+      continue
+    }
+
+    const movementSegments =
+      trailColorMode === 'movement'
+        ? getCharacterMovementSegments(character, offlineThresholdSec)
+        : null
+    const lod = selectTrailLod(
+      getCharacterTrailLods(character, offlineThresholdSec, movementSegments != null),
+      worldUnitsPerPixel,
+    )
+    const addSegment = (from: number, to: number) => {
+      const color = movementSegments ? movementModeColors[movementSegments[from].mode] : trailColor
+      let path = paths.get(color)
+      if (!path) {
+        path = new Path2D()
+        paths.set(color, path)
+      }
+      const p0 = worldToScreen(xs[from], ys[from], cameraMetrics)
+      const p1 = worldToScreen(xs[to], ys[to], cameraMetrics)
+      path.moveTo(p0.x, p0.y)
+      path.lineTo(p1.x, p1.y)
+    }
+
+    let previous = -1
+    for (const index of lod?.indexes ?? []) {
+      if (index === TRAIL_RUN_BREAK || index < startIndex) {
+        previous = index === TRAIL_RUN_BREAK ? -1 : index
+        continue
+      }
+      if (index >= endExclusive) {
+        if (previous >= 0 && previous < endExclusive - 1) {
+          addSegment(previous, endExclusive - 1)
+        }
+        break
+      }
+      if (previous >= startIndex) {
+        addSegment(previous, index)
+      }
+      previous = index
+    }
+  }
+
+  context.lineWidth = 1.5
+  for (const [color, path] of paths) {
+    context.strokeStyle = rgbaFromHex(color, 0.8 * 0.85)
+    context.stroke(path)
+  }
+}
+
 export function renderTrailLayer(args: {
   context: CanvasRenderingContext2D
   renderedCharacters: RenderedCharacter[]
   sceneTime: number
   trailWindowSec: number
   trailColor: string
+  trailColorMode: TrailColorMode
+  movementModeColors: Record<MovementMode, string>
   allTimeTrail: boolean
+  offlineThresholdSec: number
   cameraMetrics: CameraMetrics
   worldToScreen: (x: number, y: number, metrics: CameraMetrics) => Point
 }) {
@@ -398,11 +672,18 @@ export function renderTrailLayer(args: {
     sceneTime,
     trailWindowSec,
     trailColor,
-    allTimeTrail,
+    trailColorMode,
+    movementModeColors,
+    offlineThresholdSec,
     cameraMetrics,
     worldToScreen,
   } = args
 
+  if (args.allTimeTrail) {
+    renderAllTimeTrails(args)
+    return
+  }
+
   for (const { character } of renderedCharacters) {
     const times = character.track.t
     const xs = character.track.x
@@ -411,9 +692,7 @@ export function renderTrailLayer(args: {
       continue
     }
 
-    const trailStart = allTimeTrail
-      ? character.life.start
-      : Math.max(character.life.start, sceneTime - trailWindowSec)
+    const trailStart = Math.max(character.life.start, sceneTime - trailWindowSec)
     const startIndex = times.findIndex((time: number) => time >= trailStart)
     const safeStartIndex = startIndex >= 0 ? startIndex : times.length
     const endExclusive = times.findIndex((time: number) => time > sceneTime)
@@ -422,22 +701,30 @@ export function renderTrailLayer(args: {
       continue
     }
 
+    const movementSegments =
+      trailColorMode === 'movement'
+        ? getCharacterMovementSegments(character, offlineThresholdSec)
+        : null
+
     context.lineWidth = 1.5
     for (let i = safeStartIndex + 1; i < safeEndExclusive; i += 1) {
       const t0 = times[i - 1]
       const t1 = times[i]
-      if (crossesOfflineGap(character.gaps.offline, t0, t1)) {
+      if (crossesOfflineGap(character.gaps.offline, t0, t1, offlineThresholdSec)) {
         continue
       }
 
-      const alpha = allTimeTrail ? 0.8 : clamp(1 - (sceneTime - t1) / trailWindowSec, 0, 1)
+      const alpha = clamp(1 - (sceneTime - t1) / trailWindowSec, 0, 1)
       if (alpha <= 0.02) {
         continue
       }
 
       const p0 = worldToScreen(xs[i - 1], ys[i - 1], cameraMetrics)
       const p1 = worldToScreen(xs[i], ys[i], cameraMetrics)
-      context.strokeStyle = rgbaFromHex(trailColor, alpha * 0.85)
+      const segmentColor = movementSegments
+        ? movementModeColors[movementSegments[i - 1].mode]
+        : trailColor
+      context.strokeStyle = rgbaFromHex(segmentColor, alpha * 0.85)
       context.beginPath()
       context.moveTo(p0.x, p0.y)
       context.lineTo(p1.x, p1.y)
@@ -500,6 +787,161 @@ export function renderEventLayer(args: {
   }
 }
 
+export function renderMiniTrailMap(args: {
+  context: CanvasRenderingContext2D
+  characters: CharacterTrack[]
+  colors: string[]
+  width: number
+  height: number
+  backgroundColor: string
+  offlineThresholdSec: number
+}) {
+  const { context, characters, colors, width, height, backgroundColor, offlineThresholdSec } =
+    args
+  context.clearRect(0, 0, width, height)
+  context.fillStyle = backgroundColor
+  context.fillRect(0, 0, width, height)
+
+  let minX = Number.POSITIVE_INFINITY
+  let minY = Number.POSITIVE_INFINITY
+  let maxX = Number.NEGATIVE_INFINITY
+  let maxY = Number.NEGATIVE_INFINITY
+  for (const character of characters) {
+    for (let index = 0; index < character.track.x.length; index += 1) {
+      minX = Math.min(minX, character.track.x[index])
+      minY = Math.min(minY, character.track.y[index])
+      maxX = Math.max(maxX, character.track.x[index])
+      maxY = Math.max(maxY, character.track.y[index])
+    }
+  }
+  if (!Number.isFinite(minX) || !Number.isFinite(minY)) {
+    return
+  }
+
+  const padding = 12
+  const spanX = Math.max(maxX - minX, 50)
+  const spanY = Math.max(maxY - minY, 50)
+  const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY)
+  const offsetX = width / 2 - ((minX + maxX) / 2) * scale
+  const offsetY = height / 2 - ((minY + maxY) / 2) * scale
+  const project = (x: number, y: number) => ({ x: x * scale + offsetX, y: y * scale + offsetY })
+
+  context.save()
+  context.lineWidth = 1.4
+  context.lineJoin = 'round'
+  for (const [characterIndex, character] of characters.entries()) {
+    const { x: xs, y: ys } = character.track
+    const color = colors[characterIndex % colors.length]
+    const lod = selectTrailLod(getCharacterTrailLods(character, offlineThresholdSec), 1 / scale)
+    const path = new Path2D()
+    let previous = -1
+    for (const index of lod?.indexes ?? []) {
+      if (index === TRAIL_RUN_BREAK) {
+        previous = -1
+        continue
+      }
+      const point = project(xs[index], ys[index])
+      if (previous < 0) {
+        path.moveTo(point.x, point.y)
+      } else {
+        path.lineTo(point.x, point.y)
+      }
+      previous = index
+    }
+    context.strokeStyle = rgbaFromHex(color, 0.85)
+    context.stroke(path)
+
+    if (xs.length > 0) {
+      const start = project(xs[0], ys[0])
+      const end = project(xs[xs.length - 1], ys[ys.length - 1])
+      context.fillStyle = rgbaFromHex(color, 0.95)
+      context.beginPath()
+      context.arc(start.x, start.y, 3, 0, Math.PI * 2)
+      context.fill()
+      context.strokeStyle = rgbaFromHex(color, 0.95)
+      context.strokeRect(end.x - 3, end.y - 3, 6, 6)
+    }
+  }
+  context.restore()
+}
+
+export function getDeathHotspotMarkerRadius(hotspot: DeathHotspot, cameraMetrics: CameraMetrics) {
+  return Math.max(8 + Math.sqrt(hotspot.count) * 4, hotspot.radius * cameraMetrics.scale)
+}
+
+export function renderDeathHotspotLayer(args: {
+  context: CanvasRenderingContext2D
+  hotspots: DeathHotspot[]
+  hotspotColor: string
+  selectedHotspotId: string | null
+  cameraMetrics: CameraMetrics
+  worldToScreen: (x: number, y: number, metrics: CameraMetrics) => Point
+}) {
+  const { context, hotspots, hotspotColor, selectedHotspotId, cameraMetrics, worldToScreen } =
+    args
+  const maxCount = hotspots.reduce((max, hotspot) => Math.max(max, hotspot.count), 1)
+
+  context.save()
+  context.font = 'bold 11px "Segoe UI", "Yu Gothic UI", sans-serif'
+  context.textAlign = 'center'
+  context.textBaseline = 'middle'
+  for (const hotspot of [...hotspots].reverse()) {
+    const center = worldToScreen(hotspot.x, hotspot.y, cameraMetrics)
+    const radius = getDeathHotspotMarkerRadius(hotspot, cameraMetrics)
+    const selected = hotspot.id === selectedHotspotId
+    const intensity = hotspot.count / maxCount
+
+    context.fillStyle = rgbaFromHex(hotspotColor, 0.12 + intensity * 0.28)
+    context.strokeStyle = rgbaFromHex(hotspotColor, selected ? 1 : 0.75)
+    context.lineWidth = selected ? 2.4 : 1.4
+    context.beginPath()
+    context.arc(center.x, center.y, radius, 0, Math.PI * 2)
+    context.fill()
+    context.stroke()
+
+    context.fillStyle = rgbaFromHex(hotspotColor, 0.95)
+    context.fillText(String(hotspot.count), center.x, center.y)
+  }
+  context.restore()
+}
+
+export function getBaseMarkerRadius(base: BaseCluster, cameraMetrics: CameraMetrics) {
+  return Math.max(8, base.radius * cameraMetrics.scale)
+}
+
+export function renderBaseLayer(args: {
+  context: CanvasRenderingContext2D
+  bases: BaseCluster[]
+  baseColor: string
+  selectedBaseId: string | null
+  cameraMetrics: CameraMetrics
+  worldToScreen: (x: number, y: number, metrics: CameraMetrics) => Point
+}) {
+  const { context, bases, baseColor, selectedBaseId, cameraMetrics, worldToScreen } = args
+
+  context.save()
+  context.font = 'bold 11px "Segoe UI", "Yu Gothic UI", sans-serif'
+  context.textAlign = 'center'
+  context.textBaseline = 'middle'
+  for (const [index, base] of bases.entries()) {
+    const center = worldToScreen(base.x, base.y, cameraMetrics)
+    const radius = getBaseMarkerRadius(base, cameraMetrics)
+    const selected = base.id === selectedBaseId
+
+    context.fillStyle = rgbaFromHex(baseColor, selected ? 0.32 : 0.18)
+    context.strokeStyle = rgbaFromHex(baseColor, selected ? 1 : 0.75)
+    context.lineWidth = selected ? 2.4 : 1.4
+    context.beginPath()
+    context.arc(center.x, center.y, radius, 0, Math.PI * 2)
+    context.fill()
+    context.stroke()
+
+    context.fillStyle = rgbaFromHex(baseColor, 0.95)
+    context.fillText(String(index + 1), center.x, center.y)
+  }
+  context.restore()
+}
+
 export function renderCharacterLayer(args: {
   context: CanvasRenderingContext2D
   renderedCharacters: RenderedCharacter[]
@@ -0,0 +1,63 @@
+import {
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  getCharacterPlayerName,
+  type CharacterTrack,
+} from '../domain/characters.js'
+import { getCharacterSessions, type CharacterSession } from '../domain/sessions.js'
+import {
+  buildCharacterTerminalInfoMap,
+  type CharacterTerminalType,
+} from '../events/events.js'
+
+export type CharacterLifeSummary = {
+  charName: string
+  playerName: string
+  start: number
+  end: number
+  sessions: CharacterSession[]
+  onlineSec: number
+  terminalType: CharacterTerminalType | null
+  terminalTime: number | null
+}
+
+export const PLAYER_HASH_PREFIX = '#/player/'
+
+export function getPlayerHash(playerName: string) {
+  return `${PLAYER_HASH_PREFIX}${encodeURIComponent(playerName)}`
+}
+
+export function readPlayerNameFromHashPath(hashPath: string) {
+  if (!hashPath.startsWith(PLAYER_HASH_PREFIX)) {
+    return null
+  }
+  try {
+    return decodeURIComponent(hashPath.slice(PLAYER_HASH_PREFIX.length)).trim() || null
+  } catch {
+    return null
+  }
+}
+
+export function buildPlayerCharacterLives(
+  allCharacters: CharacterTrack[],
+  playerName: string,
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+): CharacterLifeSummary[] {
+  const terminalInfo = buildCharacterTerminalInfoMap(allCharacters)
+  return allCharacters
+    .filter((character) => getCharacterPlayerName(character) === playerName)
+    .map((character) => {
+      const sessions = getCharacterSessions(character, offlineThresholdSec)
+      const terminal = terminalInfo.get(character.charName) ?? null
+      return {
+        charName: character.charName,
+        playerName,
+        start: character.life.start,
+        end: character.life.end,
+        sessions,
+        onlineSec: sessions.reduce((sum, session) => sum + session.durationSec, 0),
+        terminalType: terminal?.terminalType ?? null,
+        terminalTime: terminal?.terminalTime ?? null,
+      }
+    })
+    .sort((a, b) => a.start - b.start || a.charName.localeCompare(b.charName, 'ja'))
+}
@@ -1,5 +1,16 @@
-import { getCharacterOnlineIntervals, type CharacterTrack } from '../domain/characters.js'
+import { getCharacterPlayerName, type CharacterTrack } from '../domain/characters.js'
+import { detectEncounters, type EncounterOptions } from '../domain/encounters.js'
+import { countCharacterCoverageCells } from '../domain/coverage.js'
+import { getCharacterSessions } from '../domain/sessions.js'
+import {
+  getCharacterTrackMetrics,
+  summarizePlayerTrackMetrics,
+  type PlayerTrackMetrics,
+  type TrackMetrics,
+} from '../domain/trackMetrics.js'
+import { resolveOfflineThresholdSec, type TracksMeta } from '../domain/tracks.js'
 import { buildCharacterTerminalInfoMap } from '../events/events.js'
+import { formatCount, formatDurationShort } from '../format/format.js'
 
 export type SnapshotRecord = Record<string, unknown> & {
   name?: string
@@ -13,6 +24,7 @@ export type SnapshotData = {
 }
 
 export type TracksData = {
+  meta?: TracksMeta
   characters: Record<string, CharacterTrack>
 }
 
@@ -42,6 +54,7 @@ export type RankingCard = {
 export type RankingData = {
   characterCards: RankingCard[]
   playerCards: RankingCard[]
+  playerAggregates: PlayerAggregate[]
   totalCharacters: number
   totalPlayers: number
 }
@@ -51,6 +64,18 @@ export type PlayerPartnerEntry = {
   durationSec: number
 }
 
+export type RankingPlacement = {
+  scope: 'character' | 'player'
+  cardId: string
+  cardTitle: string
+  sectionTitle?: string
+  unit: string
+  rank: number
+  total: number
+  valueLabel: string
+  charName?: string
+}
+
 type CharacterMetric = {
   charName: string
   playerName: string
@@ -71,14 +96,18 @@ type CharacterMetric = {
   lonerTime: number
 }
 
-type PlayerAggregate = {
+export type PlayerAggregate = {
   playerName: string
   characterNames: string[]
   currentCharacterName: string
   onlineTimeSec: number
+  sessionCount: number
+  longestSessionSec: number
+  longestSessionCharName: string
   totalSurvivalTime: number
   totalZombieKills: number
   explorerScore: number
+  coverageCellCount: number
   deathCount: number
   serveCount: number
   serveCalories: number
@@ -120,10 +149,6 @@ function readNumber(record: SnapshotRecord, key: string) {
   return 0
 }
 
-function formatCount(value: number) {
-  return Math.round(value).toLocaleString('ja-JP')
-}
-
 function formatDecimal(value: number) {
   return value.toLocaleString('ja-JP', {
     minimumFractionDigits: value % 1 === 0 ? 0 : 1,
@@ -131,21 +156,6 @@ function formatDecimal(value: number) {
   })
 }
 
-function formatDurationShort(totalSec: number) {
-  const clamped = Math.max(0, Math.round(totalSec))
-  const days = Math.floor(clamped / 86400)
-  const hours = Math.floor((clamped % 86400) / 3600)
-  const minutes = Math.floor((clamped % 3600) / 60)
-
-  if (days > 0) {
-    return hours > 0 ? `${days}日 ${hours}時間` : `${days}日`
-  }
-  if (hours > 0) {
-    return minutes > 0 ? `${hours}時間 ${minutes}分` : `${hours}時間`
-  }
-  return `${Math.max(1, minutes)}分`
-}
-
 function collectCharacterMetrics(snapshotData: SnapshotData | null) {
   if (!snapshotData?.data) {
     return []
@@ -255,6 +265,10 @@ export function buildPlayerPartnerLists(snapshotData: SnapshotData | null) {
     partnerMaps.set(playerName, partnerMap)
   }
 
+  return toPartnerLists(partnerMaps)
+}
+
+function toPartnerLists(partnerMaps: Map<string, Map<string, number>>) {
   const result = new Map<string, PlayerPartnerEntry[]>()
   for (const [playerName, partnerMap] of partnerMaps.entries()) {
     result.set(
@@ -270,15 +284,100 @@ export function buildPlayerPartnerLists(snapshotData: SnapshotData | null) {
   return result
 }
 
+const playerTrackPartnerCache = new WeakMap<TracksData, Map<string, PlayerPartnerEntry[]>>()
+
+function collectTrackPartnerMaps(
+  tracksData: TracksData,
+  options: EncounterOptions,
+  focusPlayerName: string | null,
+) {
+  const partnerMaps = new Map<string, Map<string, number>>()
+  const characters = Object.values(tracksData.characters)
+  const focusCharNames = focusPlayerName
+    ? new Set(
+        characters
+          .filter((character) => getCharacterPlayerName(character) === focusPlayerName)
+          .map((character) => character.charName),
+      )
+    : undefined
+  if (focusCharNames?.size === 0) {
+    return partnerMaps
+  }
+
+  const encounters = detectEncounters(characters, {
+    offlineThresholdSec: resolveOfflineThresholdSec(tracksData.meta),
+    ...options,
+    focusCharNames,
+  })
+  for (const encounter of encounters) {
+    const [firstPlayer, secondPlayer] = encounter.playerNames.map((playerName, index) =>
+      normalizePlayerName(playerName, encounter.participants[index]),
+    )
+    if (firstPlayer === secondPlayer) {
+      continue
+    }
+    for (const [playerName, partnerName] of [
+      [firstPlayer, secondPlayer],
+      [secondPlayer, firstPlayer],
+    ]) {
+      if (focusPlayerName && playerName !== focusPlayerName) {
+        continue
+      }
+      const partnerMap = partnerMaps.get(playerName) ?? new Map<string, number>()
+      partnerMap.set(partnerName, (partnerMap.get(partnerName) ?? 0) + encounter.durationSec)
+      partnerMaps.set(playerName, partnerMap)
+    }
+  }
+  return partnerMaps
+}
+
+export function buildTrackPartnerLists(
+  tracksData: TracksData | null,
+  options: EncounterOptions = {},
+) {
+  if (!tracksData?.characters) {
+    return toPartnerLists(new Map())
+  }
+  return toPartnerLists(collectTrackPartnerMaps(tracksData, options, null))
+}
+
+export function buildPlayerTrackPartners(
+  tracksData: TracksData | null,
+  playerName: string,
+  options: EncounterOptions = {},
+) {
+  if (!tracksData?.characters || !playerName) {
+    return []
+  }
+  return (
+    toPartnerLists(collectTrackPartnerMaps(tracksData, options, playerName)).get(playerName) ?? []
+  )
+}
+
+export function getPlayerTrackPartners(tracksData: TracksData | null, playerName: string) {
+  if (!tracksData?.characters || !playerName) {
+    return []
+  }
+  const cached = playerTrackPartnerCache.get(tracksData) ?? new Map<string, PlayerPartnerEntry[]>()
+  playerTrackPartnerCache.set(tracksData, cached)
+  const partners = cached.get(playerName) ?? buildPlayerTrackPartners(tracksData, playerName)
+  cached.set(playerName, partners)
+  return partners
+}
+
 function createEmptyPlayerAggregate(playerName: string, currentCharacterName: string): PlayerAggregate {
   return {
     playerName,
     characterNames: [],
     currentCharacterName,
     onlineTimeSec: 0,
+    sessionCount: 0,
+    longestSessionSec: 0,
+    longestSessionCharName: '',
     totalSurvivalTime: 0,
     totalZombieKills: 0,
     explorerScore: 0,
+    coverageCellCount: 0,
     deathCount: 0,
     serveCount: 0,
     serveCalories: 0,
@@ -379,9 +478,10 @@ function buildPlayerAggregates(
   if (tracksData?.characters) {
     const allCharacters = Object.values(tracksData.characters)
     const terminalInfo = buildCharacterTerminalInfoMap(allCharacters)
+    const offlineThresholdSec = resolveOfflineThresholdSec(tracksData.meta)
 
     for (const character of allCharacters) {
-      const playerName = normalizePlayerName(character.playerName, character.charName)
+      const playerName = getCharacterPlayerName(character)
       const aggregate =
         groups.get(playerName) ?? createEmptyPlayerAggregate(playerName, character.charName)
 
@@ -395,11 +495,15 @@ function buildPlayerAggregates(
         aggregate.currentCharacterName = character.charName
       }
 
-      const onlineTime = getCharacterOnlineIntervals(character).reduce(
-        (sum, interval) => sum + Math.max(0, interval.end - interval.start),
-        0,
-      )
-      aggregate.onlineTimeSec += onlineTime
+      const sessions = getCharacterSessions(character, offlineThresholdSec)
+      for (const session of sessions) {
+        aggregate.onlineTimeSec += Math.max(0, session.durationSec)
+        if (session.durationSec > aggregate.longestSessionSec) {
+          aggregate.longestSessionSec = session.durationSec
+          aggregate.longestSessionCharName = session.charName
+        }
+      }
+      aggregate.sessionCount += sessions.length
 
       if (terminalInfo.get(character.charName)?.terminalType === 'death') {
         aggregate.deathCount += 1
@@ -407,6 +511,16 @@ function buildPlayerAggregates(
 
       groups.set(playerName, aggregate)
     }
+
+    for (const aggregate of groups.values()) {
+      const playerCharacters = aggregate.characterNames
+        .map((charName) => tracksData.characters[charName])
+        .filter((character): character is CharacterTrack => character != null)
+      aggregate.coverageCellCount = countCharacterCoverageCells(
+        playerCharacters,
+        offlineThresholdSec,
+      )
+    }
   }
 
   for (const [playerName, aggregate] of groups.entries()) {
@@ -452,7 +566,7 @@ function createSingleCard(
 }
 
 function createCharacterEntry(
-  character: CharacterMetric,
+  character: Pick<CharacterMetric, 'charName' | 'playerName'>,
   valueLabel: string,
   options?: {
     id?: string
@@ -470,7 +584,7 @@ function createCharacterEntry(
 }
 
 function createPlayerEntry(
-  player: PlayerAggregate,
+  player: Pick<PlayerAggregate, 'playerName'>,
   valueLabel: string,
   options?: {
     id?: string
@@ -626,6 +740,35 @@ function buildPlayerCards(playerAggregates: PlayerAggregate[]) {
       }),
     )
 
+  const marathoners = [...playerAggregates]
+    .filter((player) => player.longestSessionSec > 0)
+    .sort(
+      (a, b) =>
+        b.longestSessionSec - a.longestSessionSec ||
+        a.playerName.localeCompare(b.playerName, 'ja'),
+    )
+    .map((player) =>
+      createPlayerEntry(player, formatDurationShort(player.longestSessionSec), {
+        id: `longest-session:${player.playerName}`,
+        subLabel: player.longestSessionCharName,
+      }),
+    )
+
+  const regulars = [...playerAggregates]
+    .filter((player) => player.sessionCount > 0)
+    .sort(
+      (a, b) =>
+        b.sessionCount - a.sessionCount ||
+        b.onlineTimeSec - a.onlineTimeSec ||
+        a.playerName.localeCompare(b.playerName, 'ja'),
+    )
+    .map((player) =>
+      createPlayerEntry(player, `${formatCount(player.sessionCount)} 回`, {
+        id: `session-count:${player.playerName}`,
+        subLabel: `合計 ${formatDurationShort(player.onlineTimeSec)}`,
+      }),
+    )
+
   const reapers = [...playerAggregates]
     .filter((player) => player.totalZombieKills > 0)
     .sort(
@@ -674,6 +817,34 @@ function buildPlayerCards(playerAggregates: PlayerAggregate[]) {
       }),
     )
 
+  const trackExplorers = [...playerAggregates]
+    .filter((player) => player.coverageCellCount > 0)
+    .sort(
+      (a, b) =>
+        b.coverageCellCount - a.coverageCellCount ||
+        a.playerName.localeCompare(b.playerName, 'ja'),
+    )
+    .map((player) =>
+      createPlayerEntry(player, `${formatCount(player.coverageCellCount)} 区画`, {
+        id: `explorer-track:${player.playerName}`,
+        subLabel: `${player.characterNames.length} キャラ`,
+      }),
+    )
+  const explorerSections: RankingSection[] = [
+    { id: 'explorer:snapshot', title: 'スナップショットの探索スコア', entries: explorers },
+    { id: 'explorer:tracks', title: '軌跡から求めた踏破区画', entries: trackExplorers },
+  ].filter((section) => section.entries.length > 0)
+  const explorerCard: RankingCard | null =
+    explorerSections.length > 0
+      ? {
+          id: 'explorer',
+          title: '探索者',
+          description: '探索済みマップ範囲が広いプレイヤーです。',
+          unit: 'プレイヤー',
+          sections: explorerSections,
+        }
+      : null
+
   const chefs = [...playerAggregates]
     .filter(
       (player) =>
@@ -835,9 +1006,11 @@ function buildPlayerCards(playerAggregates: PlayerAggregate[]) {
 
   const cards = [
     createSingleCard('mainstay', '大黒柱', 'オンライン時間が長いプレイヤーです。', 'プレイヤー', mainstays),
+    createSingleCard('longest-session', '耐久プレイ', '1回のセッションで最も長くオンラインだったプレイヤーです。', 'プレイヤー', marathoners),
+    createSingleCard('session-count', '常連', 'ログインしたセッション数が多いプレイヤーです。', 'プレイヤー', regulars),
     createSingleCard('reaper-possessed', '死神: 憑依', 'ゾンビキル数合計が多いプレイヤーです。', 'プレイヤー', reapers),
     createSingleCard('pacifist', '平和主義者', '総生存時間に対してキル数が少ないプレイヤーです。', 'プレイヤー', pacifists),
-    createSingleCard('explorer', '探索者', '探索済みマップ範囲が広いプレイヤーです。', 'プレイヤー', explorers),
+    explorerCard,
     createSingleCard('chef', '料理長', '提供行動が多いプレイヤーです。', 'プレイヤー', chefs),
     createSingleCard('wrecker', '廃車屋', '車両破壊や損傷スコア合計が高いプレイヤーです。', 'プレイヤー', wreckers),
     createSingleCard('farmer', '農場主', '農業系の行動量が多いプレイヤーです。', 'プレイヤー', farmers),
@@ -854,17 +1027,116 @@ function buildPlayerCards(playerAggregates: PlayerAggregate[]) {
   return cards.filter((card): card is RankingCard => card != null)
 }
 
+function createTrackMetricRanker<T>(
+  items: T[],
+  readName: (item: T) => string,
+  createEntry: (item: T, valueLabel: string, id: string) => RankingEntry,
+) {
+  return (id: string, readValue: (item: T) => number, formatValue: (value: number) => string) =>
+    [...items]
+      .filter((item) => readValue(item) > 0)
+      .sort((a, b) => readValue(b) - readValue(a) || readName(a).localeCompare(readName(b), 'ja'))
+      .map((item) => createEntry(item, formatValue(readValue(item)), `${id}:${readName(item)}`))
+}
+
+function buildTrackCharacterCards(trackMetrics: TrackMetrics[]) {
+  const rank = createTrackMetricRanker(
+    trackMetrics,
+    (metrics) => metrics.charName,
+    (metrics, valueLabel, id) => createCharacterEntry(metrics, valueLabel, { id }),
+  )
+
+  const cards = [
+    createSingleCard('traveler', '旅人', '軌跡上の移動距離が長いキャラクターです。', 'キャラ', rank('traveler', (metrics) => metrics.distance, (value) => `${formatCount(value)} マス`)),
+    createSingleCard('wanderer', '放浪者', 'スポーン地点から最も遠くまで離れたキャラクターです。', 'キャラ', rank('wanderer', (metrics) => metrics.maxDistanceFromSpawn, (value) => `${formatCount(value)} マス`)),
+    createSingleCard('territory', '縄張り', '行動範囲の外接矩形が広いキャラクターです。', 'キャラ', rank('territory', (metrics) => metrics.boundingArea, (value) => `${formatCount(value)} マス²`)),
+    createSingleCard('cell-visitor', '踏破者', '訪れたマップセル数が多いキャラクターです。', 'キャラ', rank('cell-visitor', (metrics) => metrics.visitedCells.size, (value) => `${formatCount(value)} セル`)),
+  ]
+
+  return cards.filter((card): card is RankingCard => card != null)
+}
+
+function buildTrackPlayerCards(playerMetrics: PlayerTrackMetrics[]) {
+  const rank = createTrackMetricRanker(
+    playerMetrics,
+    (metrics) => metrics.playerName,
+    (metrics, valueLabel, id) =>
+      createPlayerEntry(metrics, valueLabel, { id, subLabel: `${metrics.charNames.length} キャラ` }),
+  )
+
+  const cards = [
+    createSingleCard('traveler', '旅人', '全キャラの軌跡上の移動距離合計が長いプレイヤーです。', 'プレイヤー', rank('traveler', (metrics) => metrics.distance, (value) => `${formatCount(value)} マス`)),
+    createSingleCard('wanderer', '放浪者', 'スポーン地点から最も遠くまで離れたプレイヤーです。', 'プレイヤー', rank('wanderer', (metrics) => metrics.maxDistanceFromSpawn, (value) => `${formatCount(value)} マス`)),
+    createSingleCard('territory', '縄張り', '全キャラの行動範囲の外接矩形が広いプレイヤーです。', 'プレイヤー', rank('territory', (metrics) => metrics.boundingArea, (value) => `${formatCount(value)} マス²`)),
+    createSingleCard('cell-visitor', '踏破者', '全キャラで訪れたマップセル数が多いプレイヤーです。', 'プレイヤー', rank('cell-visitor', (metrics) => metrics.visitedCellCount, (value) => `${formatCount(value)} セル`)),
+  ]
+
+  return cards.filter((card): card is RankingCard => card != null)
+}
+
 export function buildRankingData(
   snapshotData: SnapshotData | null,
   tracksData: TracksData | null,
 ): RankingData {
   const characterMetrics = collectCharacterMetrics(snapshotData)
   const playerAggregates = buildPlayerAggregates(snapshotData, tracksData)
+  const trackCharacters = tracksData?.characters ? Object.values(tracksData.characters) : []
+  const offlineThresholdSec = resolveOfflineThresholdSec(tracksData?.meta)
 
   return {
-    characterCards: buildCharacterCards(characterMetrics),
-    playerCards: buildPlayerCards(playerAggregates),
+    characterCards: [
+      ...buildCharacterCards(characterMetrics),
+      ...buildTrackCharacterCards(
+        trackCharacters.map((character) => getCharacterTrackMetrics(character, offlineThresholdSec)),
+      ),
+    ],
+    playerCards: [
+      ...buildPlayerCards(playerAggregates),
+      ...buildTrackPlayerCards(summarizePlayerTrackMetrics(trackCharacters, offlineThresholdSec)),
+    ],
+    playerAggregates,
     totalCharacters: characterMetrics.length,
     totalPlayers: playerAggregates.length,
   }
 }
+
+export function findPlayerAggregate(rankingData: RankingData, playerName: string) {
+  return (
+    rankingData.playerAggregates.find((aggregate) => aggregate.playerName === playerName) ?? null
+  )
+}
+
+export function findRankingPlacements(
+  rankingData: RankingData,
+  playerName: string,
+): RankingPlacement[] {
+  const placements: RankingPlacement[] = []
+  for (const [scope, cards] of [
+    ['character', rankingData.characterCards],
+    ['player', rankingData.playerCards],
+  ] as const) {
+    for (const card of cards) {
+      for (const section of card.sections) {
+        const index = section.entries.findIndex((entry) => entry.playerName === playerName)
+        if (index < 0) {
+          continue
+        }
+        const entry = section.entries[index]
+        placements.push({
+          scope,
+          cardId: card.id,
+          cardTitle: card.title,
+          sectionTitle: section.title,
+          unit: card.unit,
+          rank: index + 1,
+          total: section.entries.length,
+          valueLabel: entry.valueLabel,
+          charName: entry.charName,
+        })
+      }
+    }
+  }
+  return placements.sort(
+    (a, b) => a.rank - b.rank || a.cardTitle.localeCompare(b.cardTitle, 'ja'),
+  )
+}
@@ -0,0 +1,140 @@
+import {
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  getCharacterOnlineIntervals,
+  getCharacterPlayerName,
+  type CharacterTrack,
+  type TimeInterval,
+} from '../domain/characters.js'
+import { DEFAULT_TIME_ZONE } from '../domain/tracks.js'
+import { getTimeZoneOffsetSec } from '../timeline/timeline.js'
+
+export type ActivityPattern = {
+  slots: number[][]
+  hourly: number[]
+  weekday: number[]
+  totalSec: number
+}
+
+export type PlayerActivityPattern = ActivityPattern & {
+  playerName: string
+  charNames: string[]
+}
+
+export type ActivityPatternOptions = {
+  timeZone?: string
+  offlineThresholdSec?: number
+}
+
+export type ActivityPatterns = {
+  server: ActivityPattern
+  players: PlayerActivityPattern[]
+}
+
+export type ActivitySlot = {
+  weekday: number
+  hour: number
+  seconds: number
+  average: number
+}
+
+export const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'] as const
+
+const HOUR_SEC = 60 * 60
+const DAY_SEC = 24 * HOUR_SEC
+const EPOCH_WEEKDAY = 4
+
+export function createEmptyActivityPattern(): ActivityPattern {
+  return {
+    slots: Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => 0)),
+    hourly: Array.from({ length: 24 }, () => 0),
+    weekday: Array.from({ length: 7 }, () => 0),
+    totalSec: 0,
+  }
+}
+
+export function addIntervalToActivityPattern(
+  pattern: ActivityPattern,
+  interval: TimeInterval,
+  timeZone = DEFAULT_TIME_ZONE,
+) {
+  if (!(interval.end > interval.start)) {
+    return
+  }
+  let cursor = interval.start
+  while (cursor < interval.end) {
+    const localCursor = cursor + getTimeZoneOffsetSec(cursor, timeZone)
+    const hourStart = Math.floor(localCursor / HOUR_SEC) * HOUR_SEC
+    const chunkEnd = Math.min(interval.end, cursor + hourStart + HOUR_SEC - localCursor)
+    const seconds = chunkEnd - cursor
+    const dayIndex = Math.floor(hourStart / DAY_SEC)
+    const weekday = (((dayIndex + EPOCH_WEEKDAY) % 7) + 7) % 7
+    const hour = Math.floor((hourStart - dayIndex * DAY_SEC) / HOUR_SEC)
+    pattern.slots[weekday][hour] += seconds
+    pattern.hourly[hour] += seconds
+    pattern.weekday[weekday] += seconds
+    pattern.totalSec += seconds
+    cursor = chunkEnd
+  }
+}
+
+export function buildActivityPatterns(
+  characters: CharacterTrack[],
+  options: ActivityPatternOptions = {},
+): ActivityPatterns {
+  const timeZone = options.timeZone ?? DEFAULT_TIME_ZONE
+  const offlineThresholdSec = options.offlineThresholdSec ?? DEFAULT_OFFLINE_THRESHOLD_SEC
+  const server = createEmptyActivityPattern()
+  const byPlayer = new Map<string, PlayerActivityPattern>()
+
+  for (const character of characters) {
+    const playerName = getCharacterPlayerName(character)
+    const player = byPlayer.get(playerName) ?? {
+      ...createEmptyActivityPattern(),
+      playerName,
+      charNames: [],
+    }
+    player.charNames.push(character.charName)
+    for (const interval of getCharacterOnlineIntervals(character, offlineThresholdSec)) {
+      addIntervalToActivityPattern(server, interval, timeZone)
+      addIntervalToActivityPattern(player, interval, timeZone)
+    }
+    byPlayer.set(playerName, player)
+  }
+
+  return {
+    server,
+    players: [...byPlayer.values()].sort((a, b) => a.playerName.localeCompare(b.playerName, 'ja')),
+  }
+}
+
+export function buildPeriodActivityPattern(
+  period: TimeInterval | null,
+  timeZone = DEFAULT_TIME_ZONE,
+) {
+  const pattern = createEmptyActivityPattern()
+  if (period) {
+    addIntervalToActivityPattern(pattern, period, timeZone)
+  }
+  return pattern
+}
+
+export function getPeakActivitySlot(
+  pattern: ActivityPattern,
+  periodPattern: ActivityPattern | null = null,
+): ActivitySlot | null {
+  let peak: ActivitySlot | null = null
+  for (let weekday = 0; weekday < 7; weekday += 1) {
+    for (let hour = 0; hour < 24; hour += 1) {
+      const seconds = pattern.slots[weekday][hour]
+      const periodSeconds = periodPattern?.slots[weekday][hour] ?? 0
+      const average = periodSeconds > 0 ? seconds / periodSeconds : 0
+      if (
+        seconds > 0 &&
+        (!peak || (periodPattern ? average > peak.average : seconds > peak.seconds))
+      ) {
+        peak = { weekday, hour, seconds, average }
+      }
+    }
+  }
+  return peak
+}
@@ -0,0 +1,83 @@
+import {
+  DEFAULT_OFFLINE_THRESHOLD_SEC,
+  getCharacterOnlineIntervals,
+  type CharacterTrack,
+} from '../domain/characters.js'
+import { DEFAULT_TIME_ZONE } from '../domain/tracks.js'
+import type { EventKind, EventPoint } from '../events/events.js'
+import { getTimeZoneOffsetSec, type TimeInterval } from './timeline.js'
+
+export type ConcurrencyBin = {
+  start: number
+  end: number
+  count: number
+}
+
+export type HourlyEventBin = {
+  start: number
+  end: number
+  counts: Partial<Record<EventKind, number>>
+  total: number
+}
+
+const HOUR_SEC = 60 * 60
+
+export function buildConcurrencyHistogram(
+  characters: CharacterTrack[],
+  boundaries: number[],
+  offlineThresholdSec = DEFAULT_OFFLINE_THRESHOLD_SEC,
+): ConcurrencyBin[] {
+  const changes: Array<{ time: number; delta: number }> = []
+  for (const character of characters) {
+    for (const interval of getCharacterOnlineIntervals(character, offlineThresholdSec)) {
+      changes.push({ time: interval.start, delta: 1 }, { time: interval.end, delta: -1 })
+    }
+  }
+  changes.sort((a, b) => a.time - b.time || a.delta - b.delta)
+
+  const bins: ConcurrencyBin[] = []
+  let cursor = 0
+  let online = 0
+  for (let index = 1; index < boundaries.length; index += 1) {
+    const start = boundaries[index - 1]
+    const end = boundaries[index]
+    while (cursor < changes.length && changes[cursor].time <= start) {
+      online += changes[cursor].delta
+      cursor += 1
+    }
+    let count = online
+    while (cursor < changes.length && changes[cursor].time < end) {
+      online += changes[cursor].delta
+      count = Math.max(count, online)
+      cursor += 1
+    }
+    bins.push({ start, end, count })
+  }
+  return bins
+}
+
+export function buildHourlyEventCounts(
+  eventPoints: EventPoint[],
+  period: TimeInterval,
+  timeZone = DEFAULT_TIME_ZONE,
+): HourlyEventBin[] {
+  if (!(period.end > period.start)) {
+    return []
+  }
+  const offset = getTimeZoneOffsetSec(period.start, timeZone)
+  const firstStart = Math.floor((period.start + offset) / HOUR_SEC) * HOUR_SEC - offset
+  const bins: HourlyEventBin[] = []
+  for (let start = firstStart; start < period.end; start += HOUR_SEC) {
+    bins.push({ start, end: start + HOUR_SEC, counts: {}, total: 0 })
+  }
+
+  for (const point of eventPoints) {
+    if (point.time < period.start || point.time > period.end) {
+      continue
+    }
+    const bin = bins[Math.min(bins.length - 1, Math.floor((point.time - firstStart) / HOUR_SEC))]
+    bin.counts[point.kind] = (bin.counts[point.kind] ?? 0) + 1
+    bin.total += 1
+  }
+  return bins
+}
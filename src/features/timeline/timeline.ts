@@ -208,36 +208,83 @@ export function mapVirtualToRealTime(virtualTime: number, segments: TimelineSegm
   return last.end
 }
 
-export function getJstDayBoundaryUnixSec(startUnixSec: number, endUnixSec: number) {
+const timeZonePartsFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getTimeZonePartsFormatter(timeZone: string) {
+  const cached = timeZonePartsFormatters.get(timeZone)
+  if (cached) {
+    return cached
+  }
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+  timeZonePartsFormatters.set(timeZone, formatter)
+  return formatter
+}
+
+export function getTimeZoneOffsetSec(unixSec: number, timeZone: string) {
+  const parts = getTimeZonePartsFormatter(timeZone).formatToParts(new Date(unixSec * 1000))
+  const read = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0)
+  const localAsUtcMs = Date.UTC(
+    read('year'),
+    read('month') - 1,
+    read('day'),
+    read('hour'),
+    read('minute'),
+    read('second'),
+  )
+  return Math.round(localAsUtcMs / 1000 - Math.floor(unixSec))
+}
+
+export function getDayBoundaryUnixSec(
+  startUnixSec: number,
+  endUnixSec: number,
+  timeZone: string,
+) {
   if (!Number.isFinite(startUnixSec) || !Number.isFinite(endUnixSec) || endUnixSec <= startUnixSec) {
     return []
   }
 
   const boundaries: number[] = []
-  const jstOffsetSec = 9 * 60 * 60
-  const startJst = new Date((startUnixSec + jstOffsetSec) * 1000)
-  let nextBoundary =
-    Date.UTC(
-      startJst.getUTCFullYear(),
-      startJst.getUTCMonth(),
-      startJst.getUTCDate() + 1,
-      0,
-      0,
-      0,
-    ) /
-      1000 -
-    jstOffsetSec
-
-  while (nextBoundary < endUnixSec) {
+  const startLocal = new Date((startUnixSec + getTimeZoneOffsetSec(startUnixSec, timeZone)) * 1000)
+  let dayOffset = 1
+
+  while (true) {
+    const localMidnightAsUtc =
+      Date.UTC(
+        startLocal.getUTCFullYear(),
+        startLocal.getUTCMonth(),
+        startLocal.getUTCDate() + dayOffset,
+        0,
+        0,
+        0,
+      ) / 1000
+    const guess = localMidnightAsUtc - getTimeZoneOffsetSec(localMidnightAsUtc, timeZone)
+    const nextBoundary = localMidnightAsUtc - getTimeZoneOffsetSec(guess, timeZone)
+    if (nextBoundary >= endUnixSec) {
+      break
+    }
     if (nextBoundary > startUnixSec) {
       boundaries.push(nextBoundary)
     }
-    nextBoundary += 24 * 60 * 60
+    dayOffset += 1
   }
 
   return boundaries
 }
 
+export function getJstDayBoundaryUnixSec(startUnixSec: number, endUnixSec: number) {
+  return getDayBoundaryUnixSec(startUnixSec, endUnixSec, 'Asia/Tokyo')
+}
+
 export function getOverlayWindowRange(
   focusWindowStart: number,
   windowWidthSec: number,
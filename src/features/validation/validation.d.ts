@@ -0,0 +1,26 @@
+export type ValidationIssueKind =
+  | 'invalid-structure'
+  | 'invalid-snapshot'
+  | 'length-mismatch'
+  | 'invalid-sample'
+  | 'non-monotonic-time'
+  | 'out-of-bounds'
+  | 'orphan-character'
+
+export type ValidationSeverity = 'error' | 'warning'
+
+export type ValidationIssue = {
+  kind: ValidationIssueKind
+  severity: ValidationSeverity
+  charName: string | null
+  count: number
+  detail: string
+}
+
+export function getSnapshotCharacterNames(snapshot: unknown): Set<string>
+export function validateSnapshotData(snapshot: unknown): ValidationIssue[]
+export function validateTracksData(tracks: unknown, snapshot?: unknown): ValidationIssue[]
+export function hasValidationErrors(issues: ValidationIssue[]): boolean
+export function formatValidationReport(issues: ValidationIssue[]): string
+export function getValidationIssueLabel(kind: ValidationIssueKind): string
+export function summarizeValidationIssues(issues: ValidationIssue[]): string
@@ -0,0 +1,186 @@
+const ISSUE_SEVERITY = {
+  'invalid-structure': 'error',
+  'invalid-snapshot': 'error',
+  'length-mismatch': 'error',
+  'invalid-sample': 'error',
+  'non-monotonic-time': 'error',
+  'out-of-bounds': 'warning',
+  'orphan-character': 'warning',
+}
+
+const ISSUE_LABELS = {
+  'invalid-structure': 'データ構造の不正',
+  'invalid-snapshot': 'スナップショットの不正',
+  'length-mismatch': '配列長の不一致',
+  'invalid-sample': '数値でないサンプル',
+  'non-monotonic-time': '時刻の逆行',
+  'out-of-bounds': '範囲外の座標',
+  'orphan-character': 'スナップショット未登録のキャラ',
+}
+
+const characterIssueCache = new WeakMap()
+
+function isRecord(value) {
+  return value != null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function createIssue(kind, charName, count, detail) {
+  return { kind, severity: ISSUE_SEVERITY[kind], charName, count, detail }
+}
+
+function getWorldBounds(meta) {
+  const bounds = meta?.bounds
+  if (!bounds || !Number.isFinite(bounds.worldW) || !Number.isFinite(bounds.worldH)) {
+    return null
+  }
+  const minX = Number.isFinite(bounds.worldMinX) ? bounds.worldMinX : 0
+  const minY = Number.isFinite(bounds.worldMinY) ? bounds.worldMinY : 0
+  return { minX, maxX: minX + bounds.worldW, minY, maxY: minY + bounds.worldH }
+}
+
+export function getSnapshotCharacterNames(snapshot) {
+  const names = new Set()
+  if (!isRecord(snapshot) || !isRecord(snapshot.data)) {
+    return names
+  }
+  for (const entry of Object.values(snapshot.data)) {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : ''
+    if (name) {
+      names.add(name)
+    }
+  }
+  return names
+}
+
+export function validateSnapshotData(snapshot) {
+  if (!isRecord(snapshot) || !isRecord(snapshot.data)) {
+    return [createIssue('invalid-snapshot', null, 1, 'snapshot.data is not an object')]
+  }
+  const unnamed = Object.values(snapshot.data).filter(
+    (entry) => !isRecord(entry) || typeof entry.name !== 'string' || !entry.name.trim(),
+  ).length
+  return unnamed > 0
+    ? [createIssue('invalid-snapshot', null, unnamed, `${unnamed} snapshot entries have no name`)]
+    : []
+}
+
+function validateCharacterCached(charName, character, worldBounds) {
+  if (!isRecord(character)) {
+    return validateCharacter(charName, character, worldBounds)
+  }
+  const boundsKey = worldBounds
+    ? `${worldBounds.minX},${worldBounds.maxX},${worldBounds.minY},${worldBounds.maxY}`
+    : ''
+  const cached = characterIssueCache.get(character)
+  if (cached && cached.charName === charName && cached.boundsKey === boundsKey) {
+    return cached.issues
+  }
+  const issues = validateCharacter(charName, character, worldBounds)
+  characterIssueCache.set(character, { charName, boundsKey, issues })
+  return issues
+}
+
+function validateCharacter(charName, character, worldBounds) {
+  if (!isRecord(character) || !isRecord(character.track) || !isRecord(character.life)) {
+    return [createIssue('invalid-structure', charName, 1, 'character is missing track or life')]
+  }
+
+  const { t, x, y } = character.track
+  if (!Array.isArray(t) || !Array.isArray(x) || !Array.isArray(y)) {
+    return [createIssue('invalid-structure', charName, 1, 'track.t/x/y must be arrays')]
+  }
+  if (t.length !== x.length || t.length !== y.length) {
+    return [
+      createIssue(
+        'length-mismatch',
+        charName,
+        1,
+        `track lengths differ (t=${t.length}, x=${x.length}, y=${y.length})`,
+      ),
+    ]
+  }
+
+  let invalidSamples = 0
+  let backwardSteps = 0
+  let outOfBounds = 0
+  for (let index = 0; index < t.length; index += 1) {
+    if (!Number.isFinite(t[index]) || !Number.isFinite(x[index]) || !Number.isFinite(y[index])) {
+      invalidSamples += 1
+      continue
+    }
+    if (index > 0 && t[index] < t[index - 1]) {
+      backwardSteps += 1
+    }
+    if (
+      worldBounds &&
+      (x[index] < worldBounds.minX ||
+        x[index] > worldBounds.maxX ||
+        y[index] < worldBounds.minY ||
+        y[index] > worldBounds.maxY)
+    ) {
+      outOfBounds += 1
+    }
+  }
+
+  const issues = []
+  if (invalidSamples > 0) {
+    issues.push(
+      createIssue('invalid-sample', charName, invalidSamples, `${invalidSamples} samples are not finite numbers`),
+    )
+  }
+  if (backwardSteps > 0) {
+    issues.push(
+      createIssue('non-monotonic-time', charName, backwardSteps, `time goes backwards ${backwardSteps} times`),
+    )
+  }
+  if (outOfBounds > 0) {
+    issues.push(
+      createIssue('out-of-bounds', charName, outOfBounds, `${outOfBounds} samples are outside the world bounds`),
+    )
+  }
+  return issues
+}
+
+export function validateTracksData(tracks, snapshot = null) {
+  if (!isRecord(tracks) || !isRecord(tracks.characters)) {
+    return [createIssue('invalid-structure', null, 1, 'tracks.characters is not an object')]
+  }
+
+  const worldBounds = getWorldBounds(tracks.meta)
+  const snapshotNames = snapshot ? getSnapshotCharacterNames(snapshot) : null
+  const issues = []
+  for (const [charName, character] of Object.entries(tracks.characters)) {
+    issues.push(...validateCharacterCached(charName, character, worldBounds))
+    if (snapshotNames && !snapshotNames.has(charName)) {
+      issues.push(createIssue('orphan-character', charName, 1, 'character is missing from snapshot'))
+    }
+  }
+  return issues
+}
+
+export function hasValidationErrors(issues) {
+  return issues.some((issue) => issue.severity === 'error')
+}
+
+export function formatValidationReport(issues) {
+  return issues
+    .map((issue) => {
+      const target = issue.charName ? ` "${issue.charName}"` : ''
+      return `[${issue.severity}] ${issue.kind}${target}: ${issue.detail}`
+    })
+    .join('\n')
+}
+
+export function getValidationIssueLabel(kind) {
+  return ISSUE_LABELS[kind] ?? kind
+}
+
+export function summarizeValidationIssues(issues) {
+  const countByKind = new Map()
+  for (const issue of issues) {
+    countByKind.set(issue.kind, (countByKind.get(issue.kind) ?? 0) + 1)
+  }
+  return [...countByKind.entries()]
+    .map(([kind, count]) => `${getValidationIssueLabel(kind)} ${count}件`)
+    .join(' / ')
+}
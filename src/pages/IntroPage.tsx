@@ -1,4 +1,4 @@
-﻿function goToHash(hash: '#/map' | '#/ranking') {
+﻿function goToHash(hash: '#/map' | '#/ranking' | '#/stats') {
   if (typeof window === 'undefined') {
     return
   }
@@ -29,6 +29,13 @@ function IntroPage() {
                 <strong>ランキングページ</strong>
                 <span>キャラ統計とプレイヤー統計を確認します</span>
               </button>
+              <button
+                className="intro-action-button intro-action-button-stats"
+                onClick={() => goToHash('#/stats')}
+              >
+                <strong>活動傾向ページ</strong>
+                <span>曜日と時間帯ごとのオンライン状況を確認します</span>
+              </button>
             </div>
           </section>
           <section className="intro-note-panel" aria-label="利用前の案内">
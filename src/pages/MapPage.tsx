@@ -8,7 +8,14 @@
   type WheelEvent as ReactWheelEvent,
 } from 'react'
 import '../App.css'
-import { viewerColorSettings, zoomSettings } from '../config/viewerSettings'
+import {
+  adminSettings,
+  dataSettings,
+  liveFollowSettings,
+  offlineSettings,
+  viewerColorSettings,
+  zoomSettings,
+} from '../config/viewerSettings'
 import {
   buildAllEventPoints as buildAllEventPointsFeature,
   buildCharacterTerminalInfoMap as buildCharacterTerminalInfoMapFeature,
@@ -19,26 +26,107 @@ import {
   getCharacterListStateFromEvents as getCharacterListStateFromEventsFeature,
   isPlayerRespawnVisible as isPlayerRespawnVisibleFeature,
 } from '../features/events/events'
+import { clusterDeathHotspots, type DeathHotspot } from '../features/events/hotspots'
+import { formatDurationShort } from '../features/format/format'
 import {
+  DEFAULT_SNAP_DISTANCE,
   getCharacterOnlineIntervals,
   getCurrentOnlineIntervalStart,
+  getInterpolationModeLabel,
   getNearestOnlineTime,
   getNearestOnlineTimeForCharacters,
   getPointAtTime,
+  INTERPOLATION_MODES,
   selectTrackingCharacter,
+  type InterpolationMode,
 } from '../features/domain/characters'
 import {
+  getMovementModeLabel,
+  MOVEMENT_MODES,
+} from '../features/domain/movement'
+import { detectEncounters } from '../features/domain/encounters'
+import { detectBases } from '../features/domain/stays'
+import { createCoverageGrid, getCoverageRatio } from '../features/domain/coverage'
+import {
+  buildPointHeatmap,
+  buildPresenceHeatmap,
+  getHeatmapMetricLabel,
+  HEATMAP_METRICS,
+  type HeatmapMetric,
+} from '../features/domain/heatmap'
+import { buildPlayerSessionSummaries, getCharacterSessions } from '../features/domain/sessions'
+import {
+  ANOMALY_KINDS,
+  detectAnomalies,
+  getAnomalyKindLabel,
+  type Anomaly,
+  type AnomalyKind,
+} from '../features/domain/anomalies'
+import {
+  createTrackSpatialIndex,
+  queryTrackIndexRadius,
+  type TrackSpatialIndex,
+} from '../features/domain/spatialIndex'
+import {
+  readSeasonIdFromHash,
+  resolveSeasonData,
+  resolveSeasonEntry,
+  withSeasonInHash,
+  type SeasonCatalog,
+} from '../features/catalog/catalog'
+import {
+  fetchTrackChunk,
+  fetchTrackChunkIndex,
+  getTrackChunkCharacterNames,
+  getTrackChunksInRange,
+  remergeTrackChunkCharacters,
+  type TrackChunk,
+  type TrackChunkIndex,
+} from '../features/loader/trackChunks'
+import {
+  fetchLiveTracks,
+  getLatestTrackTime,
+  mergeLiveTracks,
+} from '../features/loader/liveTracks'
+import {
+  getTracksLoadRatio,
+  loadTracks,
+  type TracksLoadProgress,
+} from '../features/loader/tracksLoader'
+import {
+  summarizeValidationIssues,
+  validateSnapshotData,
+  validateTracksData,
+} from '../features/validation/validation'
+import {
+  resolveOfflineThresholdSec,
+  resolveTracksPeriod,
+  resolveTracksTimeZone,
+  type TracksMeta,
+} from '../features/domain/tracks'
+import {
+  getBaseMarkerRadius,
+  getDeathHotspotMarkerRadius,
   renderBackgroundLayer,
+  renderBaseLayer,
+  renderCoverageLayer,
+  renderDeathHotspotLayer,
+  renderHeatmapLayer,
   renderCharacterLayer,
   renderEventLayer,
   renderLabelLayer,
   renderTrailLayer,
+  type TrailColorMode,
 } from '../features/map/render'
+import {
+  buildConcurrencyHistogram,
+  buildHourlyEventCounts,
+} from '../features/timeline/activity'
 import {
   buildTimelineSegments,
   createInitialTimelineState as createInitialTimelineStateFeature,
   expandTimeIntervals,
-  getJstDayBoundaryUnixSec,
+  getDayBoundaryUnixSec,
   getOverlayWindowRange as getOverlayWindowRangeFeature,
   getTimeWindow as getTimeWindowFeature,
   mapRealToVirtualTime,
@@ -77,18 +165,18 @@ type CharacterTrack = {
 }
 
 type TracksData = {
-  meta: {
-    timezone: string
-    periodJST: {
-      start: string
-      end: string
-    }
-    bounds: Bounds
-    offlineGapSec: number
-  }
+  meta: TracksMeta
   characters: Record<string, CharacterTrack>
 }
 
+type TrackChunkStore = {
+  index: TrackChunkIndex
+  baseUrl: string
+  loaded: Map<string, TrackChunk>
+  inflight: Set<string>
+  failures: Map<string, { attempts: number; retryAt: number }>
+}
+
 type SnapshotRecord = Record<string, unknown> & {
   name?: string
   playerName?: string
@@ -173,7 +261,7 @@ type PeriodRange = {
 
 type OverlayMode = 'normal' | 'events'
 type ListMode = 'character' | 'player'
-type EventKind = 'respawn' | 'login' | 'logout' | 'death' | 'logoutMaybe'
+type EventKind = 'respawn' | 'login' | 'logout' | 'death' | 'logoutMaybe' | 'encounter'
 
 type EventPoint = {
   id: string
@@ -183,6 +271,8 @@ type EventPoint = {
   x: number
   y: number
   time: number
+  participants?: string[]
+  endTime?: number
 }
 
 type EventHoverTooltip = {
@@ -191,6 +281,18 @@ type EventHoverTooltip = {
   points: EventPoint[]
 }
 
+type BasePopup = {
+  clientX: number
+  clientY: number
+  baseId: string
+}
+
+type HotspotHoverTooltip = {
+  clientX: number
+  clientY: number
+  hotspotId: string
+}
+
 type CharacterLabelPlacement = {
   charName: string
   anchorX: number
@@ -214,20 +316,33 @@ type HoveredCharacterEntry = {
   snapshotRecord: SnapshotRecord | null
 }
 
-const TRACKS_URL = `${import.meta.env.BASE_URL}data/tracks.json`
-const SNAPSHOT_URL = `${import.meta.env.BASE_URL}data/snapshot.json`
+const TRACKS_STREAM_FLUSH_MS = 400
+const TRACK_CHUNK_PREFETCH_SEC = 6 * 60 * 60
+const TRACK_CHUNK_CACHE_LIMIT = 14
+const TRACK_CHUNK_RETRY_BASE_MS = 2000
+const TRACK_CHUNK_RETRY_MAX_MS = 60 * 1000
 const MAP_MANIFEST_URL = `${import.meta.env.BASE_URL}data/map/manifest.json`
 const MAP_ASSET_BASE_URL = `${import.meta.env.BASE_URL}data/map/`
 const PLAYBACK_SPEEDS = [1, 2, 4, 8, 16, 32, 64, 128, 256, 512, 1024, 2048, 4096, 8192] as const
 const WINDOW_PRESET_HOURS = [1, 2, 4, 6, 12, 24] as const
+const OFFLINE_THRESHOLD_PRESET_MINUTES = [30, 60, 120, 240, 360, 720] as const
+const SNAP_DISTANCE_PRESETS = [25, 50, 100, 200, 500] as const
 const TRAIL_WINDOW_SEC = 30 * 60
 const MIN_WINDOW_SEC = 60 * 60
 const MAX_ZOOM = 64
 const HOVER_RADIUS_PX = 12
 const TRACKING_OUTLINE_COLOR = '#4a87f5'
 const TRACKED_MODE_PADDING_SEC = 5
-const FIXED_PERIOD_START_SEC = Date.parse('2026-02-01T21:00:00+09:00') / 1000
-const FIXED_PERIOD_END_SEC = Date.parse('2026-02-28T23:00:00+09:00') / 1000
+const OVERVIEW_ACTIVITY_BIN_COUNT = 300
+const OVERVIEW_ACTIVITY_WIDTH = 1000
+const OVERVIEW_EVENT_KINDS = [
+  'respawn',
+  'login',
+  'logout',
+  'death',
+  'logoutMaybe',
+  'encounter',
+] as const
 const FALLBACK_BOUNDS: Bounds = {
   worldW: 15000 - 3000,
   worldH: 13500 - 900,
@@ -238,25 +353,10 @@ const FALLBACK_BOUNDS: Bounds = {
   mapScale: 1.88,
 }
 
-const jstDateTimeFormatter = new Intl.DateTimeFormat('ja-JP', {
-  timeZone: 'Asia/Tokyo',
-  year: 'numeric',
-  month: '2-digit',
-  day: '2-digit',
-  hour: '2-digit',
-  minute: '2-digit',
-  second: '2-digit',
-  hour12: false,
-})
-
-const jstShortFormatter = new Intl.DateTimeFormat('ja-JP', {
-  timeZone: 'Asia/Tokyo',
-  month: '2-digit',
-  day: '2-digit',
-  hour: '2-digit',
-  minute: '2-digit',
-  hour12: false,
-})
+const dateTimeFormatters = new Map<
+  string,
+  { full: Intl.DateTimeFormat; short: Intl.DateTimeFormat }
+>()
 
 let labelMeasureContext: CanvasRenderingContext2D | null = null
 
@@ -414,47 +514,56 @@ function clampFloatingPosition(
   }
 }
 
-function parseIsoToUnixSec(iso: string | undefined) {
-  if (!iso) {
-    return NaN
-  }
-  const parsed = Date.parse(iso)
-  return Number.isFinite(parsed) ? parsed / 1000 : NaN
+function getPeriodRange(tracks: TracksData): PeriodRange {
+  return resolveTracksPeriod(tracks.meta, Object.values(tracks.characters)) ?? { start: 0, end: 1 }
 }
 
-function getPeriodRange(tracks: TracksData): PeriodRange {
-  if (
-    Number.isFinite(FIXED_PERIOD_START_SEC) &&
-    Number.isFinite(FIXED_PERIOD_END_SEC) &&
-    FIXED_PERIOD_END_SEC > FIXED_PERIOD_START_SEC
-  ) {
-    return {
-      start: FIXED_PERIOD_START_SEC,
-      end: FIXED_PERIOD_END_SEC,
-    }
+function getDateTimeFormatters(timeZone: string) {
+  const cached = dateTimeFormatters.get(timeZone)
+  if (cached) {
+    return cached
   }
-
-  const startMeta = parseIsoToUnixSec(tracks.meta.periodJST?.start)
-  const endMeta = parseIsoToUnixSec(tracks.meta.periodJST?.end)
-  if (Number.isFinite(startMeta) && Number.isFinite(endMeta) && endMeta > startMeta) {
-    return { start: startMeta, end: endMeta }
+  const formatters = {
+    full: new Intl.DateTimeFormat('ja-JP', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false,
+    }),
+    short: new Intl.DateTimeFormat('ja-JP', {
+      timeZone,
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    }),
   }
-
-  return { start: 0, end: 1 }
+  dateTimeFormatters.set(timeZone, formatters)
+  return formatters
 }
 
-function formatJst(unixSec: number) {
+function formatDateTime(unixSec: number, timeZone: string) {
   if (!Number.isFinite(unixSec)) {
     return '-'
   }
-  return jstDateTimeFormatter.format(new Date(unixSec * 1000))
+  return getDateTimeFormatters(timeZone).full.format(new Date(unixSec * 1000))
 }
 
-function formatJstShort(unixSec: number) {
+function formatDateTimeShort(unixSec: number, timeZone: string) {
   if (!Number.isFinite(unixSec)) {
     return '-'
   }
-  return jstShortFormatter.format(new Date(unixSec * 1000))
+  return getDateTimeFormatters(timeZone).short.format(new Date(unixSec * 1000))
+}
+
+function formatOfflineThreshold(seconds: number) {
+  const minutes = Math.round(seconds / 60)
+  return minutes % 60 === 0 ? `${minutes / 60}時間` : `${minutes}分`
 }
 
 function normalizePlayerName(name: string) {
@@ -777,6 +886,21 @@ function MapPage() {
   const [snapshotLoadStatus, setSnapshotLoadStatus] = useState<LoadStatus>('idle')
   const [errorMessage, setErrorMessage] = useState('')
   const [snapshotWarning, setSnapshotWarning] = useState('')
+  const [tracksLoadProgress, setTracksLoadProgress] = useState<TracksLoadProgress | null>(null)
+  const [trackChunkIndex, setTrackChunkIndex] = useState<TrackChunkIndex | null>(null)
+  const [pendingTrackChunkCount, setPendingTrackChunkCount] = useState(0)
+  const [failedTrackChunkCount, setFailedTrackChunkCount] = useState(0)
+  const [trackChunkRetrySeq, setTrackChunkRetrySeq] = useState(0)
+  const trackChunkStoreRef = useRef<TrackChunkStore | null>(null)
+  const tracksDataRef = useRef<TracksData | null>(null)
+  const [liveFollow, setLiveFollow] = useState(false)
+  const [offlineThresholdOverrideSec, setOfflineThresholdOverrideSec] = useState<number | null>(
+    offlineSettings.thresholdOverrideSec,
+  )
+  const [seasonCatalog, setSeasonCatalog] = useState<SeasonCatalog | null>(null)
+  const [selectedSeasonId, setSelectedSeasonId] = useState(() =>
+    typeof window === 'undefined' ? '' : readSeasonIdFromHash(window.location.hash),
+  )
 
   const [searchTerm, setSearchTerm] = useState('')
   const [panelCollapsed, setPanelCollapsed] = useState(false)
@@ -792,6 +916,7 @@ function MapPage() {
     logout: true,
     death: true,
     logoutMaybe: true,
+    encounter: false,
   })
   const [speedMenuOpen, setSpeedMenuOpen] = useState(false)
   const [visibility, setVisibility] = useState<Record<string, boolean>>({})
@@ -824,6 +949,23 @@ function MapPage() {
 
   const [iconColor] = useState<string>(viewerColorSettings.iconColorDefault)
   const [trailColor] = useState<string>(viewerColorSettings.trailColorDefault)
+  const [trailColorMode, setTrailColorMode] = useState<TrailColorMode>('single')
+  const [interpolationMode, setInterpolationMode] = useState<InterpolationMode>('linear')
+  const [snapDistance, setSnapDistance] = useState(DEFAULT_SNAP_DISTANCE)
+  const [basesEnabled, setBasesEnabled] = useState(false)
+  const [coverageEnabled, setCoverageEnabled] = useState(false)
+  const [coverageScope, setCoverageScope] = useState<'all' | 'visible'>('all')
+  const [heatmapEnabled, setHeatmapEnabled] = useState(false)
+  const [heatmapMetric, setHeatmapMetric] = useState<HeatmapMetric>('presence')
+  const [heatmapRangeMode, setHeatmapRangeMode] = useState<'window' | 'all'>('window')
+  const [heatmapPlayerName, setHeatmapPlayerName] = useState('')
+  const [hotspotsEnabled, setHotspotsEnabled] = useState(false)
+  const [selectedHotspotId, setSelectedHotspotId] = useState<string | null>(null)
+  const [concurrencyChartEnabled, setConcurrencyChartEnabled] = useState(true)
+  const [hourlyEventChartEnabled, setHourlyEventChartEnabled] = useState(false)
+  const [anomalyPanelOpen, setAnomalyPanelOpen] = useState(false)
+  const [anomalyKindFilter, setAnomalyKindFilter] = useState<AnomalyKind | 'all'>('all')
+  const [basePopup, setBasePopup] = useState<BasePopup | null>(null)
 
   const [zoom, setZoom] = useState<number>(zoomSettings.minZoom)
   const [cameraCenter, setCameraCenter] = useState<Point>(() =>
@@ -834,6 +976,9 @@ function MapPage() {
   const [characterHoverTooltip, setCharacterHoverTooltip] =
     useState<CharacterHoverTooltip | null>(null)
   const [eventHoverTooltip, setEventHoverTooltip] = useState<EventHoverTooltip | null>(null)
+  const [hotspotHoverTooltip, setHotspotHoverTooltip] = useState<HotspotHoverTooltip | null>(
+    null,
+  )
   const statusCharacterName = selectedCharacterName
 
   const [mapManifestStatus, setMapManifestStatus] = useState<LoadStatus>('idle')
@@ -887,6 +1032,28 @@ function MapPage() {
     [tracksData],
   )
   const periodDuration = Math.max(1, period.end - period.start)
+  const timeZone = useMemo(() => resolveTracksTimeZone(tracksData?.meta), [tracksData])
+  const dataOfflineThresholdSec = resolveOfflineThresholdSec(tracksData?.meta)
+  const offlineThresholdSec = resolveOfflineThresholdSec(
+    tracksData?.meta,
+    offlineThresholdOverrideSec != null && offlineThresholdOverrideSec >= dataOfflineThresholdSec
+      ? offlineThresholdOverrideSec
+      : null,
+  )
+  const offlineThresholdOptions = OFFLINE_THRESHOLD_PRESET_MINUTES.map((minutes) => minutes * 60).filter(
+    (seconds) => seconds > dataOfflineThresholdSec,
+  )
+  const dataQualityWarning = useMemo(() => {
+    if (!tracksData || tracksLoadProgress) {
+      return ''
+    }
+    const snapshot = snapshotLoadStatus === 'ready' ? snapshotData : null
+    const issues = [
+      ...(snapshot ? validateSnapshotData(snapshot) : []),
+      ...validateTracksData(tracksData, snapshot),
+    ]
+    return issues.length > 0 ? `データ品質の警告: ${summarizeValidationIssues(issues)}` : ''
+  }, [snapshotData, snapshotLoadStatus, tracksData, tracksLoadProgress])
   const allCharacters = useMemo(() => {
     if (!tracksData) {
       return []
@@ -918,18 +1085,22 @@ function MapPage() {
   const onlineTimelineIntervals = useMemo(
     () =>
       mergeTimeIntervals(
-        allCharacters.flatMap((character) => getCharacterOnlineIntervals(character)),
+        allCharacters.flatMap((character) =>
+          getCharacterOnlineIntervals(character, offlineThresholdSec),
+        ),
         period.start,
         period.end,
       ),
-    [allCharacters, period.end, period.start],
+    [allCharacters, offlineThresholdSec, period.end, period.start],
   )
 
   const trackedTimelineIntervals = useMemo(
     () =>
       mergeTimeIntervals(
         expandTimeIntervals(
-          trackedPlayerCharacters.flatMap((character) => getCharacterOnlineIntervals(character)),
+          trackedPlayerCharacters.flatMap((character) =>
+            getCharacterOnlineIntervals(character, offlineThresholdSec),
+          ),
           TRACKED_MODE_PADDING_SEC,
           period.start,
           period.end,
@@ -937,7 +1108,7 @@ function MapPage() {
         period.start,
         period.end,
       ),
-    [period.end, period.start, trackedPlayerCharacters],
+    [offlineThresholdSec, period.end, period.start, trackedPlayerCharacters],
   )
 
   const timelineSegments = useMemo(() => {
@@ -981,76 +1152,180 @@ function MapPage() {
   }, [timelineState])
 
   useEffect(() => {
-    if (tracksData && loadStatus === 'ready') {
-      return
-    }
+    tracksDataRef.current = tracksData
+  }, [tracksData])
 
+  useEffect(() => {
     const controller = new AbortController()
 
     const loadData = async () => {
       setLoadStatus('loading')
       setErrorMessage('')
       setSnapshotWarning('')
+      setSnapshotData(null)
       setSnapshotLoadStatus('loading')
+      setTracksLoadProgress(null)
 
       try {
-        const tracksResponse = await fetch(TRACKS_URL, { signal: controller.signal })
-        if (!tracksResponse.ok) {
-          throw new Error('map-data-load-failed')
+        const { catalog, dataUrls } = await resolveSeasonData(
+          dataSettings,
+          selectedSeasonId,
+          controller.signal,
+        )
+        if (controller.signal.aborted) {
+          return
         }
-        const loadedTracks = (await tracksResponse.json()) as TracksData
+        setSeasonCatalog(catalog)
+
+        const chunkIndex = await fetchTrackChunkIndex(
+          `${dataUrls.trackChunks}index.json`,
+          controller.signal,
+        )
         if (controller.signal.aborted) {
           return
         }
-        const loadedBounds = normalizeBounds(loadedTracks.meta.bounds)
-        setTracksData({
-          ...loadedTracks,
-          meta: {
-            ...loadedTracks.meta,
-            bounds: loadedBounds,
-          },
-        })
+        trackChunkStoreRef.current = chunkIndex
+          ? {
+              index: chunkIndex,
+              baseUrl: dataUrls.trackChunks,
+              loaded: new Map(),
+              inflight: new Set(),
+              failures: new Map(),
+            }
+          : null
+        setTrackChunkIndex(chunkIndex)
+        setPendingTrackChunkCount(0)
+        setFailedTrackChunkCount(0)
+
+        const initializeTracks = (meta: TracksMeta, characters: CharacterTrack[]) => {
+          const loadedBounds = normalizeBounds(meta.bounds)
+          const loadedTracks: TracksData = {
+            meta: { ...meta, bounds: loadedBounds },
+            characters: Object.fromEntries(
+              characters.map((character) => [character.charName, character]),
+            ),
+          }
+          setTracksData(loadedTracks)
+
+          const nextVisibility: Record<string, boolean> = {}
+          for (const name of Object.keys(loadedTracks.characters)) {
+            nextVisibility[name] = true
+          }
+          setVisibility(nextVisibility)
+          setSelectedCharacterName(null)
+          setTrackedCharacterName(null)
+          setStatusWindowPosition(null)
+          setSearchTerm('')
+          setListMode('character')
+          setExpandedPlayers({})
+          setOverlayMode('normal')
+          setSeekbarMode('online')
+          setSpeedMenuOpen(false)
+          setTimelineCollapsed(false)
+
+          const loadedPeriod = getPeriodRange(loadedTracks)
+          const loadedDuration = Math.max(1, loadedPeriod.end - loadedPeriod.start)
+          setCurrentTime(loadedPeriod.start)
+          setWindowWidthSec(Math.min(24 * 60 * 60, loadedDuration))
+          setFocusWindowStart(0)
+          setZoom(zoomSettings.minZoom)
+          setCameraCenter(getBoundsCenter(loadedBounds))
+          setIsPlaying(true)
+
+          setLoadStatus('ready')
+        }
+
+        const appendTracks = (characters: CharacterTrack[]) => {
+          setTracksData((prev) => {
+            if (!prev) {
+              return prev
+            }
+            const nextCharacters = { ...prev.characters }
+            for (const character of characters) {
+              nextCharacters[character.charName] = character
+            }
+            return { ...prev, characters: nextCharacters }
+          })
+          setVisibility((prev) => {
+            const next = { ...prev }
+            for (const character of characters) {
+              if (next[character.charName] === undefined) {
+                next[character.charName] = true
+              }
+            }
+            return next
+          })
+        }
 
-        const nextVisibility: Record<string, boolean> = {}
-        for (const name of Object.keys(loadedTracks.characters)) {
-          nextVisibility[name] = true
+        if (chunkIndex) {
+          initializeTracks(chunkIndex.meta, Object.values(chunkIndex.characters))
+        } else {
+          let loadedMeta: TracksMeta | null = null
+          let pendingCharacters: CharacterTrack[] = []
+          let pendingProgress: TracksLoadProgress | null = null
+          let initialized = false
+          let lastFlushAt = 0
+          const flushTracks = (force: boolean) => {
+            if (controller.signal.aborted || !loadedMeta) {
+              return
+            }
+            const now = performance.now()
+            if (!force && initialized && now - lastFlushAt < TRACKS_STREAM_FLUSH_MS) {
+              return
+            }
+            if (!initialized && pendingCharacters.length === 0 && !force) {
+              return
+            }
+            lastFlushAt = now
+            const characters = pendingCharacters
+            pendingCharacters = []
+            if (!initialized) {
+              initialized = true
+              initializeTracks(loadedMeta, characters)
+            } else if (characters.length > 0) {
+              appendTracks(characters)
+            }
+            setTracksLoadProgress(pendingProgress)
+          }
+
+          await loadTracks(
+            { binary: dataUrls.tracksBinary, json: dataUrls.tracks },
+            {
+              signal: controller.signal,
+              onHeader: (header) => {
+                loadedMeta = header.meta
+              },
+              onCharacters: (characters) => {
+                pendingCharacters.push(...characters)
+              },
+              onProgress: (progress) => {
+                pendingProgress = progress
+                flushTracks(false)
+              },
+            },
+          )
+          if (controller.signal.aborted) {
+            return
+          }
+          pendingProgress = null
+          flushTracks(true)
         }
-        setVisibility(nextVisibility)
-        setSelectedCharacterName(null)
-        setTrackedCharacterName(null)
-        setStatusWindowPosition(null)
-        setSearchTerm('')
-        setListMode('character')
-        setExpandedPlayers({})
-        setOverlayMode('normal')
-        setSeekbarMode('online')
-        setSpeedMenuOpen(false)
-        setTimelineCollapsed(false)
-
-        const loadedPeriod = getPeriodRange(loadedTracks)
-        const loadedDuration = Math.max(1, loadedPeriod.end - loadedPeriod.start)
-        setCurrentTime(loadedPeriod.start)
-        setWindowWidthSec(Math.min(24 * 60 * 60, loadedDuration))
-        setFocusWindowStart(0)
-        setZoom(zoomSettings.minZoom)
-        setCameraCenter(getBoundsCenter(loadedBounds))
-        setIsPlaying(true)
-
-        setLoadStatus('ready')
 
         try {
-          const snapshotResponse = await fetch(SNAPSHOT_URL, { signal: controller.signal })
+          const snapshotResponse = await fetch(dataUrls.snapshot, { signal: controller.signal })
           if (!snapshotResponse.ok) {
             throw new Error('snapshot-load-failed')
           }
           const loadedSnapshot = (await snapshotResponse.json()) as SnapshotData
           if (!controller.signal.aborted) {
             setSnapshotData(loadedSnapshot)
+            setSnapshotLoadStatus('ready')
           }
         } catch (error) {
           if (!controller.signal.aborted) {
             console.error('Failed to load snapshot data', error)
             setSnapshotData(null)
+            setSnapshotLoadStatus('error')
             setSnapshotWarning(
               'ステータス情報の読み込みに失敗しました。一部表示できません。',
             )
@@ -1062,6 +1337,7 @@ function MapPage() {
         }
         console.error('Failed to load map data', error)
         setErrorMessage('読み込みに失敗しました。再試行してください。')
+        setTracksLoadProgress(null)
         setLoadStatus('error')
         setSnapshotLoadStatus('idle')
       }
@@ -1069,7 +1345,63 @@ function MapPage() {
 
     void loadData()
     return () => controller.abort()
-  }, [loadRequestSeq, tracksData, loadStatus])
+  }, [loadRequestSeq, selectedSeasonId])
+
+  useEffect(() => {
+    const liveTracksUrl = liveFollowSettings.endpoint
+    if (!liveFollow || loadStatus !== 'ready' || trackChunkIndex || !liveTracksUrl) {
+      return
+    }
+    const controller = new AbortController()
+
+    const poll = async () => {
+      try {
+        const incoming = await fetchLiveTracks(liveTracksUrl, controller.signal)
+        const current = tracksDataRef.current
+        if (controller.signal.aborted || !current) {
+          return
+        }
+        const result = mergeLiveTracks(current, incoming)
+        if (!result.changed) {
+          return
+        }
+        const previousLatest = getLatestTrackTime(current.characters)
+        const atLiveEdge =
+          timelineStateRef.current.currentTime >=
+          previousLatest - liveFollowSettings.liveEdgeToleranceSec
+        tracksDataRef.current = result.tracks
+        setTracksData(result.tracks)
+        if (result.addedCharacterNames.length > 0) {
+          setVisibility((prev) => {
+            const next = { ...prev }
+            for (const name of result.addedCharacterNames) {
+              next[name] = true
+            }
+            return next
+          })
+        }
+        if (atLiveEdge) {
+          timelineDispatch({
+            type: 'setCurrentTime',
+            currentTime: getLatestTrackTime(result.tracks.characters),
+          })
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Failed to poll live tracks', error)
+        }
+      }
+    }
+
+    const timerId = window.setInterval(() => {
+      void poll()
+    }, liveFollowSettings.pollIntervalSec * 1000)
+    void poll()
+    return () => {
+      controller.abort()
+      window.clearInterval(timerId)
+    }
+  }, [liveFollow, loadStatus, trackChunkIndex])
 
   useEffect(() => {
     const controller = new AbortController()
@@ -1461,15 +1793,126 @@ function MapPage() {
     () => allCharacters.filter((character) => visibility[character.charName] !== false),
     [allCharacters, visibility],
   )
+  const bases = useMemo(
+    () => (basesEnabled ? detectBases(allCharacters, { offlineThresholdSec }) : []),
+    [allCharacters, basesEnabled, offlineThresholdSec],
+  )
+  const coverageGrid = useMemo(
+    () =>
+      coverageEnabled
+        ? createCoverageGrid(coverageScope === 'visible' ? visibleCharacters : allCharacters, {
+            worldRange: getWorldRange(bounds),
+            offlineThresholdSec,
+          })
+        : null,
+    [allCharacters, bounds, coverageEnabled, coverageScope, offlineThresholdSec, visibleCharacters],
+  )
+  const anomalies = useMemo(
+    () =>
+      anomalyPanelOpen
+        ? detectAnomalies(allCharacters, {
+            worldRange: tracksData?.meta.bounds ? getWorldRange(bounds) : null,
+            offlineThresholdSec,
+          })
+        : [],
+    [allCharacters, anomalyPanelOpen, bounds, offlineThresholdSec, tracksData],
+  )
+  const filteredAnomalies =
+    anomalyKindFilter === 'all'
+      ? anomalies
+      : anomalies.filter((anomaly) => anomaly.kind === anomalyKindFilter)
+  const basePopupEntry = basePopup
+    ? (bases.find((base) => base.id === basePopup.baseId) ?? null)
+    : null
+  const trackSpatialIndexRef = useRef<{
+    characters: CharacterTrack[]
+    offlineThresholdSec: number
+    index: TrackSpatialIndex
+  } | null>(null)
+
+  const getTrackSpatialIndex = () => {
+    const cached = trackSpatialIndexRef.current
+    if (
+      cached &&
+      cached.characters === allCharacters &&
+      cached.offlineThresholdSec === offlineThresholdSec
+    ) {
+      return cached.index
+    }
+    const index = createTrackSpatialIndex(allCharacters, { offlineThresholdSec })
+    trackSpatialIndexRef.current = { characters: allCharacters, offlineThresholdSec, index }
+    return index
+  }
 
   const characterTerminalInfoMap = useMemo(
     () => buildCharacterTerminalInfoMapFeature(allCharacters),
     [allCharacters],
   )
+  const encounters = useMemo(
+    () =>
+      visibleEventKinds.encounter ? detectEncounters(allCharacters, { offlineThresholdSec }) : [],
+    [allCharacters, offlineThresholdSec, visibleEventKinds.encounter],
+  )
   const allEventPoints = useMemo(
-    () => buildAllEventPointsFeature(allCharacters, characterTerminalInfoMap),
-    [allCharacters, characterTerminalInfoMap],
+    () => buildAllEventPointsFeature(allCharacters, characterTerminalInfoMap, encounters),
+    [allCharacters, characterTerminalInfoMap, encounters],
   )
+  const deathHotspots = useMemo(
+    () =>
+      hotspotsEnabled
+        ? clusterDeathHotspots(
+            allEventPoints.filter((point) => visibility[point.charName] !== false),
+            { timeZone },
+          )
+        : [],
+    [allEventPoints, hotspotsEnabled, timeZone, visibility],
+  )
+  const hoveredHotspotId = hotspotHoverTooltip?.hotspotId ?? null
+  const hoveredHotspot = hoveredHotspotId
+    ? (deathHotspots.find((hotspot) => hotspot.id === hoveredHotspotId) ?? null)
+    : null
+  const heatmapPlayerNames = useMemo(
+    () =>
+      [...new Set(allCharacters.map((character) => normalizePlayerName(character.playerName)))].sort(
+        (a, b) => a.localeCompare(b, 'ja'),
+      ),
+    [allCharacters],
+  )
+  const heatmapGrid = useMemo(() => {
+    if (!heatmapEnabled) {
+      return null
+    }
+    const worldRange = getWorldRange(bounds)
+    const range = heatmapRangeMode === 'window' ? overlayWindowRange : null
+    const matchesPlayer = (playerName: string) =>
+      !heatmapPlayerName || normalizePlayerName(playerName) === heatmapPlayerName
+    if (heatmapMetric === 'presence') {
+      return buildPresenceHeatmap(
+        allCharacters.filter((character) => matchesPlayer(character.playerName)),
+        worldRange,
+        { range, offlineThresholdSec },
+      )
+    }
+    const eventKind: EventKind = heatmapMetric === 'deaths' ? 'death' : 'login'
+    return buildPointHeatmap(
+      heatmapMetric,
+      allEventPoints.filter(
+        (point) => point.kind === eventKind && matchesPlayer(point.playerName),
+      ),
+      worldRange,
+      { range },
+    )
+  }, [
+    allCharacters,
+    allEventPoints,
+    bounds,
+    heatmapEnabled,
+    heatmapMetric,
+    heatmapPlayerName,
+    heatmapRangeMode,
+    offlineThresholdSec,
+    overlayWindowRange,
+  ])
   const activeEventPoints = useMemo(
     () =>
       filterActiveEventPointsFeature(allEventPoints, {
@@ -1486,7 +1929,8 @@ function MapPage() {
   const panelCharacters = useMemo(() => {
     const keyword = searchTerm.trim().toLocaleLowerCase('ja-JP')
     const currentTrackedCharacterName =
-      selectTrackingCharacter(trackedPlayerCharacters, currentTime)?.charName ?? null
+      selectTrackingCharacter(trackedPlayerCharacters, currentTime, offlineThresholdSec)?.charName ??
+      null
     const rows = allCharacters
       .filter((character) =>
         keyword
@@ -1498,12 +1942,13 @@ function MapPage() {
           character,
           currentTime,
           activeEventPoints,
+          offlineThresholdSec,
         )
         return {
           character,
           state,
           active: currentTrackedCharacterName === character.charName,
-          onlineStartedAt: getCurrentOnlineIntervalStart(character, currentTime),
+          onlineStartedAt: getCurrentOnlineIntervalStart(character, currentTime, offlineThresholdSec),
           visible: visibility[character.charName] !== false,
         }
       })
@@ -1540,6 +1985,7 @@ function MapPage() {
     characterTerminalInfoMap,
     currentTime,
     listSortMode,
+    offlineThresholdSec,
     overlayMode,
     overlayWindowRange.end,
     overlayWindowRange.start,
@@ -1594,7 +2040,12 @@ function MapPage() {
       }
 
       const states = playerCharacters.map((character) =>
-        getCharacterListStateFromEventsFeature(character, currentTime, activeEventPoints),
+        getCharacterListStateFromEventsFeature(
+          character,
+          currentTime,
+          activeEventPoints,
+          offlineThresholdSec,
+        ),
       )
       const hasOnline = states.includes('online')
       const hasDeadRecent = states.includes('dead')
@@ -1603,12 +2054,20 @@ function MapPage() {
         : hasDeadRecent
           ? 'dead'
           : 'inactive'
-      const representative = selectTrackingCharacter(playerCharacters, currentTime)
+      const representative = selectTrackingCharacter(
+        playerCharacters,
+        currentTime,
+        offlineThresholdSec,
+      )
       const active = playerCharacters.some((character) =>
         trackedCharacterNames.has(character.charName),
       )
       const onlineStartedAt = playerCharacters.reduce((earliest, character) => {
-        const intervalStart = getCurrentOnlineIntervalStart(character, currentTime)
+        const intervalStart = getCurrentOnlineIntervalStart(
+          character,
+          currentTime,
+          offlineThresholdSec,
+        )
         return intervalStart < earliest ? intervalStart : earliest
       }, Number.POSITIVE_INFINITY)
       const respawnVisible = isPlayerRespawnVisibleFeature(
@@ -1666,6 +2125,7 @@ function MapPage() {
     characterTerminalInfoMap,
     currentTime,
     listSortMode,
+    offlineThresholdSec,
     overlayMode,
     overlayWindowRange.end,
     overlayWindowRange.start,
@@ -1680,8 +2140,8 @@ function MapPage() {
     allCharacters.every((character) => visibility[character.charName] !== false)
 
   const trackedCharacter = useMemo(
-    () => selectTrackingCharacter(trackedPlayerCharacters, currentTime),
-    [currentTime, trackedPlayerCharacters],
+    () => selectTrackingCharacter(trackedPlayerCharacters, currentTime, offlineThresholdSec),
+    [currentTime, offlineThresholdSec, trackedPlayerCharacters],
   )
   const activeTrackedCharacterName = trackedCharacter?.charName ?? null
   const trackedCharacterNameSet = useMemo(
@@ -1689,6 +2149,7 @@ function MapPage() {
     [trackedPlayerCharacters],
   )
   const sceneTime = overlayMode === 'normal' ? currentTime : period.start
+  const coverageRatio = coverageGrid ? getCoverageRatio(coverageGrid, sceneTime) : null
 
   const cameraMetrics = useMemo(
     () =>
@@ -1725,7 +2186,10 @@ function MapPage() {
       return
     }
 
-    const sample = getPointAtTime(trackedCharacter, currentTime)
+    const sample = getPointAtTime(trackedCharacter, currentTime, offlineThresholdSec, {
+      mode: interpolationMode,
+      snapDistance,
+    })
     if (!sample) {
       return
     }
@@ -1746,6 +2210,9 @@ function MapPage() {
   }, [
     bounds,
     currentTime,
+    interpolationMode,
+    offlineThresholdSec,
+    snapDistance,
     trackedCharacter,
     tracksData,
     viewportSize.height,
@@ -1759,7 +2226,10 @@ function MapPage() {
     }
     const rendered: RenderedCharacter[] = []
     for (const character of visibleCharacters) {
-      const sample = getPointAtTime(character, sceneTime)
+      const sample = getPointAtTime(character, sceneTime, offlineThresholdSec, {
+        mode: interpolationMode,
+        snapDistance,
+      })
       if (!sample || sample.beforeStart || sample.afterEnd) {
         continue
       }
@@ -1772,7 +2242,15 @@ function MapPage() {
       })
     }
     return rendered
-  }, [cameraMetrics, overlayMode, sceneTime, visibleCharacters])
+  }, [
+    cameraMetrics,
+    interpolationMode,
+    offlineThresholdSec,
+    overlayMode,
+    sceneTime,
+    snapDistance,
+    visibleCharacters,
+  ])
   const characterLabelPlacements = useMemo(
     () => {
       if (overlayMode !== 'normal') {
@@ -1818,6 +2296,26 @@ function MapPage() {
     const records = snapshotIndex.get(statusCharacterName) ?? []
     return pickSnapshotRecord(records)
   }, [snapshotIndex, statusCharacterName])
+  const statusCharacter = useMemo(
+    () =>
+      statusCharacterName
+        ? (allCharacters.find((character) => character.charName === statusCharacterName) ?? null)
+        : null,
+    [allCharacters, statusCharacterName],
+  )
+  const statusSessions = useMemo(
+    () => (statusCharacter ? getCharacterSessions(statusCharacter, offlineThresholdSec) : []),
+    [offlineThresholdSec, statusCharacter],
+  )
+  const statusPlayerSessionSummary = useMemo(() => {
+    if (!statusCharacter) {
+      return null
+    }
+    const playerCharacters = allCharacters.filter(
+      (character) => character.playerName === statusCharacter.playerName,
+    )
+    return buildPlayerSessionSummaries(playerCharacters, offlineThresholdSec)[0] ?? null
+  }, [allCharacters, offlineThresholdSec, statusCharacter])
 
   const currentTimeVirtual = useMemo(
     () => mapRealToVirtualTime(currentTime, timelineSegments),
@@ -1825,7 +2323,7 @@ function MapPage() {
   )
 
   const dayBoundaryVirtualTimes = useMemo(() => {
-    const boundaries = getJstDayBoundaryUnixSec(period.start, period.end)
+    const boundaries = getDayBoundaryUnixSec(period.start, period.end, timeZone)
     const deduped: number[] = []
     for (const boundary of boundaries) {
       const virtual = mapRealToVirtualTime(boundary, timelineSegments)
@@ -1838,7 +2336,7 @@ function MapPage() {
       deduped.push(virtual)
     }
     return deduped
-  }, [period.end, period.start, timelineDuration, timelineSegments])
+  }, [period.end, period.start, timeZone, timelineDuration, timelineSegments])
 
   const timeWindow = useMemo(
     () => getTimeWindowFeature(focusWindowStart, windowWidthSec, minWindowSec, timelineDuration),
@@ -1852,10 +2350,133 @@ function MapPage() {
     }),
     [timeWindow.end, timeWindow.start, timelineSegments],
   )
+  const requiredTrackChunkKey = useMemo(() => {
+    if (!trackChunkIndex) {
+      return ''
+    }
+    const start = allTimeTrail
+      ? period.start
+      : Math.min(timeWindowReal.start, currentTime - TRAIL_WINDOW_SEC)
+    const end = allTimeTrail
+      ? period.end
+      : Math.max(timeWindowReal.end, currentTime + TRACK_CHUNK_PREFETCH_SEC)
+    return getTrackChunksInRange(trackChunkIndex, start, end)
+      .map((chunk) => chunk.id)
+      .join(',')
+  }, [allTimeTrail, currentTime, period.end, period.start, timeWindowReal, trackChunkIndex])
+
+  useEffect(() => {
+    const store = trackChunkStoreRef.current
+    if (!store || !requiredTrackChunkKey) {
+      return
+    }
+    const requiredIds = new Set(requiredTrackChunkKey.split(','))
+    for (const id of requiredIds) {
+      const chunk = store.loaded.get(id)
+      if (chunk) {
+        store.loaded.delete(id)
+        store.loaded.set(id, chunk)
+      }
+    }
+    const evicted: TrackChunk[] = []
+    for (const [id, chunk] of store.loaded) {
+      if (store.loaded.size <= TRACK_CHUNK_CACHE_LIMIT) {
+        break
+      }
+      if (!requiredIds.has(id)) {
+        store.loaded.delete(id)
+        evicted.push(chunk)
+      }
+    }
+    if (evicted.length > 0) {
+      const evictedNames = getTrackChunkCharacterNames(evicted)
+      setTracksData((prev) =>
+        prev
+          ? {
+              ...prev,
+              characters: remergeTrackChunkCharacters(
+                store.index,
+                store.loaded,
+                prev.characters,
+                evictedNames,
+              ),
+            }
+          : prev,
+      )
+    }
+    for (const id of store.failures.keys()) {
+      if (!requiredIds.has(id)) {
+        store.failures.delete(id)
+      }
+    }
+    setFailedTrackChunkCount(store.failures.size)
+
+    const now = Date.now()
+    const missing = store.index.chunks.filter(
+      (chunk) =>
+        requiredIds.has(chunk.id) &&
+        !store.loaded.has(chunk.id) &&
+        !store.inflight.has(chunk.id) &&
+        (store.failures.get(chunk.id)?.retryAt ?? 0) <= now,
+    )
+    for (const entry of missing) {
+      store.inflight.add(entry.id)
+      void fetchTrackChunk(`${store.baseUrl}${entry.file}`)
+        .then((chunk) => {
+          if (trackChunkStoreRef.current !== store) {
+            return
+          }
+          store.loaded.set(entry.id, chunk)
+          store.failures.delete(entry.id)
+          setFailedTrackChunkCount(store.failures.size)
+          setTracksData((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  characters: remergeTrackChunkCharacters(
+                    store.index,
+                    store.loaded,
+                    prev.characters,
+                    Object.keys(chunk.characters),
+                  ),
+                }
+              : prev,
+          )
+        })
+        .catch((error) => {
+          console.error('Failed to load track chunk', entry.id, error)
+          if (trackChunkStoreRef.current !== store) {
+            return
+          }
+          const attempts = (store.failures.get(entry.id)?.attempts ?? 0) + 1
+          const delayMs = Math.min(
+            TRACK_CHUNK_RETRY_MAX_MS,
+            TRACK_CHUNK_RETRY_BASE_MS * 2 ** (attempts - 1),
+          )
+          store.failures.set(entry.id, { attempts, retryAt: Date.now() + delayMs })
+          setFailedTrackChunkCount(store.failures.size)
+          window.setTimeout(() => {
+            if (trackChunkStoreRef.current === store) {
+              setTrackChunkRetrySeq((prev) => prev + 1)
+            }
+          }, delayMs)
+        })
+        .finally(() => {
+          store.inflight.delete(entry.id)
+          if (trackChunkStoreRef.current === store) {
+            setPendingTrackChunkCount(store.inflight.size)
+          }
+        })
+    }
+    if (missing.length > 0) {
+      setPendingTrackChunkCount(store.inflight.size)
+    }
+  }, [requiredTrackChunkKey, trackChunkRetrySeq])
+
   const timelineStatusLabel =
     overlayMode === 'events'
-      ? `${formatJst(timeWindowReal.start)} - ${formatJst(timeWindowReal.end)}`
-      : formatJst(currentTime)
+      ? `${formatDateTime(timeWindowReal.start, timeZone)} - ${formatDateTime(timeWindowReal.end, timeZone)}`
+      : formatDateTime(currentTime, timeZone)
 
   const scaleSliderValue = useMemo(() => {
     const minLog = Math.log(minWindowSec)
@@ -1893,6 +2514,71 @@ function MapPage() {
     () => dayBoundaryVirtualTimes.map((value) => clamp((value / timelineDuration) * 100, 0, 100)),
     [dayBoundaryVirtualTimes, timelineDuration],
   )
+  const overviewConcurrency = useMemo(() => {
+    if (!concurrencyChartEnabled || timelineDuration <= 0) {
+      return null
+    }
+    const boundaries = Array.from({ length: OVERVIEW_ACTIVITY_BIN_COUNT + 1 }, (_, index) =>
+      mapVirtualToRealTime(
+        (timelineDuration * index) / OVERVIEW_ACTIVITY_BIN_COUNT,
+        timelineSegments,
+      ),
+    )
+    const bins = buildConcurrencyHistogram(allCharacters, boundaries, offlineThresholdSec)
+    const peak = bins.reduce((max, bin) => Math.max(max, bin.count), 0)
+    if (peak <= 0) {
+      return null
+    }
+    const binWidth = OVERVIEW_ACTIVITY_WIDTH / OVERVIEW_ACTIVITY_BIN_COUNT
+    const steps = bins
+      .map((bin, index) => `V${100 - (bin.count / peak) * 100}H${(index + 1) * binWidth}`)
+      .join('')
+    return { peak, path: `M0,100${steps}V100Z` }
+  }, [
+    allCharacters,
+    concurrencyChartEnabled,
+    offlineThresholdSec,
+    timelineDuration,
+    timelineSegments,
+  ])
+  const overviewEventBars = useMemo(() => {
+    if (!hourlyEventChartEnabled || timelineDuration <= 0) {
+      return []
+    }
+    const bins = buildHourlyEventCounts(
+      allEventPoints.filter(
+        (point) => visibleEventKinds[point.kind] && visibility[point.charName] !== false,
+      ),
+      period,
+      timeZone,
+    ).filter((bin) => bin.total > 0)
+    const peak = bins.reduce((max, bin) => Math.max(max, bin.total), 0)
+    const toX = (time: number) =>
+      (mapRealToVirtualTime(time, timelineSegments) / timelineDuration) * OVERVIEW_ACTIVITY_WIDTH
+    return bins.flatMap((bin) => {
+      const x = toX(bin.start)
+      const width = Math.max(toX(bin.end) - x, 0.5)
+      let bottom = 100
+      return OVERVIEW_EVENT_KINDS.flatMap((kind) => {
+        const count = bin.counts[kind] ?? 0
+        if (count <= 0) {
+          return []
+        }
+        const height = (count / peak) * 100
+        bottom -= height
+        return [{ key: `${bin.start}:${kind}`, kind, x, y: bottom, width, height, count }]
+      })
+    })
+  }, [
+    allEventPoints,
+    hourlyEventChartEnabled,
+    period,
+    timeZone,
+    timelineDuration,
+    timelineSegments,
+    visibility,
+    visibleEventKinds,
+  ])
   const focusDayBoundaryPercents = useMemo(() => {
     const windowSize = Math.max(1, timeWindow.end - timeWindow.start)
     return dayBoundaryVirtualTimes
@@ -1957,6 +2643,16 @@ function MapPage() {
     Math.min(520, 44 + Math.max(hoveredCharacterEntries.length, 1) * 116),
     280,
   )
+  const basePopupStyle = getMapHoverTooltipStyle(
+    basePopupEntry ? basePopup : null,
+    Math.min(520, 190 + (basePopupEntry?.visitors.length ?? 1) * 22),
+    280,
+  )
+  const hotspotTooltipStyle = getMapHoverTooltipStyle(
+    hoveredHotspot ? hotspotHoverTooltip : null,
+    Math.min(520, 220 + (hoveredHotspot?.victims.length ?? 1) * 22),
+    280,
+  )
   const eventTooltipStyle = getMapHoverTooltipStyle(
     eventHoverTooltip,
     Math.min(520, 44 + (eventHoverTooltip?.points.length ?? 1) * 116),
@@ -1988,6 +2684,28 @@ function MapPage() {
     return null
   }
 
+  const activeSeasonId = resolveSeasonEntry(seasonCatalog, selectedSeasonId)?.id ?? ''
+
+  const handleSeasonChange = (seasonId: string) => {
+    if (seasonId === selectedSeasonId) {
+      return
+    }
+    window.history.replaceState(null, '', withSeasonInHash(window.location.hash, seasonId))
+    setSelectedSeasonId(seasonId)
+  }
+
+  const toggleLiveFollow = () => {
+    if (liveFollow) {
+      setLiveFollow(false)
+      return
+    }
+    const latestTime = tracksData ? getLatestTrackTime(tracksData.characters) : Number.NaN
+    if (Number.isFinite(latestTime)) {
+      setCurrentTime(latestTime)
+    }
+    setLiveFollow(true)
+  }
+
   const retryLoad = () => {
     setLoadStatus('idle')
     setErrorMessage('')
@@ -1998,6 +2716,37 @@ function MapPage() {
     setIsPlaying(false)
   }
 
+  const jumpToAnomaly = (anomaly: Anomaly) => {
+    stopPlaybackForManualControl()
+    clearTrackingCharacter()
+    setSelectedCharacterName(anomaly.charName)
+    setCurrentTime(clamp(anomaly.time, period.start, period.end))
+    setCameraCenter(
+      clampCameraCenter(
+        { x: anomaly.x, y: anomaly.y },
+        bounds,
+        viewportSize.width,
+        viewportSize.height,
+        zoom,
+      ),
+    )
+  }
+
+  const jumpToHotspot = (hotspot: DeathHotspot) => {
+    stopPlaybackForManualControl()
+    clearTrackingCharacter()
+    setSelectedHotspotId(hotspot.id)
+    setCameraCenter(
+      clampCameraCenter(
+        { x: hotspot.x, y: hotspot.y },
+        bounds,
+        viewportSize.width,
+        viewportSize.height,
+        zoom,
+      ),
+    )
+  }
+
   const toggleEventKindVisibility = (kind: EventKind) => {
     setVisibleEventKinds((prev) => ({
       ...prev,
@@ -2302,18 +3051,39 @@ function MapPage() {
       }
     }
 
-    const iconHits = renderedCharacters
-      .map((character) => {
-        const dx = character.screenX - x
-        const dy = character.screenY - y
-        return {
-          charName: character.character.charName,
-          distance: dx * dx + dy * dy,
-          screenY: character.screenY,
-        }
-      })
-      .filter((entry) => entry.distance <= HOVER_RADIUS_PX * HOVER_RADIUS_PX)
-      .sort((a, b) => a.distance - b.distance || b.screenY - a.screenY)
+    const renderedByName = new Map(
+      renderedCharacters.map((entry) => [entry.character.charName, entry]),
+    )
+    const world = screenToWorld(x, y, cameraMetrics)
+    const usesLinearPositions =
+      interpolationMode === 'linear' && snapDistance === DEFAULT_SNAP_DISTANCE
+    const iconHits = (
+      usesLinearPositions
+        ? queryTrackIndexRadius(
+            getTrackSpatialIndex(),
+            world.x,
+            world.y,
+            HOVER_RADIUS_PX / cameraMetrics.scale,
+            { time: { start: sceneTime, end: sceneTime }, includeOffline: true },
+          ).flatMap((hit) => {
+            const rendered = renderedByName.get(hit.charName)
+            return rendered
+              ? [{ charName: hit.charName, distance: hit.distance, screenY: rendered.screenY }]
+              : []
+          })
+        : renderedCharacters.flatMap((rendered) => {
+            const distance = Math.hypot(rendered.screenX - x, rendered.screenY - y)
+            return distance <= HOVER_RADIUS_PX
+              ? [
+                  {
+                    charName: rendered.character.charName,
+                    distance: distance / cameraMetrics.scale,
+                    screenY: rendered.screenY,
+                  },
+                ]
+              : []
+          })
+    ).sort((a, b) => a.distance - b.distance || b.screenY - a.screenY)
 
     for (const hit of iconHits) {
       if (seen.has(hit.charName)) {
@@ -2326,6 +3096,36 @@ function MapPage() {
     return hitNames
   }
 
+  const findBaseAtCanvasPoint = (x: number, y: number) => {
+    let nearest: { id: string; distance: number } | null = null
+    for (const base of bases) {
+      const center = worldToScreen(base.x, base.y, cameraMetrics)
+      const distance = Math.hypot(center.x - x, center.y - y)
+      if (distance > getBaseMarkerRadius(base, cameraMetrics)) {
+        continue
+      }
+      if (!nearest || distance < nearest.distance) {
+        nearest = { id: base.id, distance }
+      }
+    }
+    return nearest?.id ?? null
+  }
+
+  const findHotspotAtCanvasPoint = (x: number, y: number) => {
+    let nearest: { id: string; distance: number } | null = null
+    for (const hotspot of deathHotspots) {
+      const center = worldToScreen(hotspot.x, hotspot.y, cameraMetrics)
+      const distance = Math.hypot(center.x - x, center.y - y)
+      if (distance > getDeathHotspotMarkerRadius(hotspot, cameraMetrics)) {
+        continue
+      }
+      if (!nearest || distance < nearest.distance) {
+        nearest = { id: hotspot.id, distance }
+      }
+    }
+    return nearest?.id ?? null
+  }
+
   const findNormalCharacterAtCanvasPoint = (x: number, y: number) => {
     return findNormalCharactersAtCanvasPoint(x, y)[0] ?? null
   }
@@ -2336,6 +3136,7 @@ function MapPage() {
       setHoveredCharacterName(null)
       setCharacterHoverTooltip(null)
       setEventHoverTooltip(null)
+      setHotspotHoverTooltip(null)
       return
     }
 
@@ -2358,6 +3159,7 @@ function MapPage() {
       if (hoveredPoints.length > 0) {
         setHoveredCharacterName(null)
         setCharacterHoverTooltip(null)
+        setHotspotHoverTooltip(null)
         setEventHoverTooltip({
           clientX,
           clientY,
@@ -2367,7 +3169,9 @@ function MapPage() {
       }
 
       setEventHoverTooltip(null)
-      if (overlayMode === 'events') {
+      const hotspotId = findHotspotAtCanvasPoint(x, y)
+      setHotspotHoverTooltip(hotspotId ? { clientX, clientY, hotspotId } : null)
+      if (hotspotId || overlayMode === 'events') {
         setHoveredCharacterName(null)
         setCharacterHoverTooltip(null)
         return
@@ -2443,6 +3247,7 @@ function MapPage() {
       setHoveredCharacterName(null)
       setCharacterHoverTooltip(null)
       setEventHoverTooltip(null)
+      setHotspotHoverTooltip(null)
     }
     const worldDeltaX = deltaX / cameraMetrics.scale
     const worldDeltaY = deltaY / cameraMetrics.scale
@@ -2474,6 +3279,11 @@ function MapPage() {
           charNames: [drag.hitCharacterName],
         })
       }
+      if (!drag.dragging && !drag.hitCharacterName && overlayMode === 'normal' && basesEnabled) {
+        const rect = event.currentTarget.getBoundingClientRect()
+        const baseId = findBaseAtCanvasPoint(event.clientX - rect.left, event.clientY - rect.top)
+        setBasePopup(baseId ? { clientX: event.clientX, clientY: event.clientY, baseId } : null)
+      }
       dragRef.current = null
       if (event.currentTarget.hasPointerCapture(event.pointerId)) {
         event.currentTarget.releasePointerCapture(event.pointerId)
@@ -2499,6 +3309,7 @@ function MapPage() {
       setHoveredCharacterName(null)
       setCharacterHoverTooltip(null)
       setEventHoverTooltip(null)
+      setHotspotHoverTooltip(null)
     }
   }
 
@@ -2618,6 +3429,28 @@ function MapPage() {
       resolveMapAssetUrl,
     })
 
+    if (overlayMode === 'normal' && coverageGrid) {
+      renderCoverageLayer({
+        context,
+        grid: coverageGrid,
+        time: sceneTime,
+        fogColor: viewerColorSettings.coverageFogColor,
+        cameraMetrics,
+        worldToScreen,
+      })
+    }
+
+    if (heatmapGrid) {
+      renderHeatmapLayer({
+        context,
+        grid: heatmapGrid,
+        lowColor: viewerColorSettings.heatmapLowColor,
+        highColor: viewerColorSettings.heatmapHighColor,
+        cameraMetrics,
+        worldToScreen,
+      })
+    }
+
     if (overlayMode === 'normal' && trailEnabled) {
       renderTrailLayer({
         context,
@@ -2625,7 +3458,32 @@ function MapPage() {
         sceneTime,
         trailWindowSec: TRAIL_WINDOW_SEC,
         trailColor,
+        trailColorMode,
+        movementModeColors: viewerColorSettings.movementModeColors,
         allTimeTrail,
+        offlineThresholdSec,
+        cameraMetrics,
+        worldToScreen,
+      })
+    }
+
+    if (overlayMode === 'normal' && bases.length > 0) {
+      renderBaseLayer({
+        context,
+        bases,
+        baseColor: viewerColorSettings.baseColor,
+        selectedBaseId: basePopup?.baseId ?? null,
+        cameraMetrics,
+        worldToScreen,
+      })
+    }
+
+    if (deathHotspots.length > 0) {
+      renderDeathHotspotLayer({
+        context,
+        hotspots: deathHotspots,
+        hotspotColor: viewerColorSettings.hotspotColor,
+        selectedHotspotId: hoveredHotspotId ?? selectedHotspotId,
         cameraMetrics,
         worldToScreen,
       })
@@ -2667,20 +3525,29 @@ function MapPage() {
     activeTrackedCharacterName,
     activeEventPoints,
     allTimeTrail,
+    basePopup,
+    bases,
     bounds,
     cameraMetrics,
+    coverageGrid,
+    deathHotspots,
+    heatmapGrid,
+    hoveredHotspotId,
     iconColor,
     lowResStatus,
     mapManifest,
+    offlineThresholdSec,
     overlayWindowRange,
     overlayMode,
     characterLabelPlacements,
     currentTime,
     renderedCharacters,
     sceneTime,
+    selectedHotspotId,
     selectedTileLevel,
     tileCacheTick,
     trailColor,
+    trailColorMode,
     trailEnabled,
     viewportSize.height,
     viewportSize.width,
@@ -2695,6 +3562,9 @@ function MapPage() {
         {loadStatus === 'loading' && (
           <section className="status-card">
             <h2>読み込み中...</h2>
+            {tracksLoadProgress && (
+              <p>{Math.round(getTracksLoadRatio(tracksLoadProgress) * 100)}%</p>
+            )}
           </section>
         )}
 
@@ -2804,6 +3674,7 @@ function MapPage() {
                                 const jumpTime = getNearestOnlineTime(
                                   row.character,
                                   currentTime,
+                                  offlineThresholdSec,
                                 )
                                 if (jumpTime != null) {
                                   stopPlaybackForManualControl()
@@ -2815,8 +3686,8 @@ function MapPage() {
                             <span className="character-name">{row.character.charName}</span>
                             <span className="line-meta">
                               <span className="life-range">
-                                {formatJstShort(row.character.life.start)} -{' '}
-                                {formatJstShort(row.character.life.end)}
+                                {formatDateTimeShort(row.character.life.start, timeZone)} -{' '}
+                                {formatDateTimeShort(row.character.life.end, timeZone)}
                               </span>
                             </span>
                           </button>
@@ -2888,6 +3759,7 @@ function MapPage() {
                                     const nearest = getNearestOnlineTimeForCharacters(
                                       row.allCharacters,
                                       currentTime,
+                                      offlineThresholdSec,
                                     )
                                     if (nearest) {
                                       stopPlaybackForManualControl()
@@ -2935,6 +3807,7 @@ function MapPage() {
                                     character,
                                     currentTime,
                                     activeEventPoints,
+                                    offlineThresholdSec,
                                   )
                                   const childVisible =
                                     visibility[character.charName] !== false
@@ -2963,6 +3836,7 @@ function MapPage() {
                                             const jumpTime = getNearestOnlineTime(
                                               character,
                                               currentTime,
+                                              offlineThresholdSec,
                                             )
                                             if (jumpTime != null) {
                                               stopPlaybackForManualControl()
@@ -2977,8 +3851,8 @@ function MapPage() {
                                           {character.charName}
                                         </span>
                                         <span className="life-range">
-                                          {formatJstShort(character.life.start)} -{' '}
-                                          {formatJstShort(character.life.end)}
+                                          {formatDateTimeShort(character.life.start, timeZone)} -{' '}
+                                          {formatDateTimeShort(character.life.end, timeZone)}
                                         </span>
                                       </button>
                                       <label
@@ -3011,6 +3885,23 @@ function MapPage() {
 
               <section className="map-panel">
                 <div className="map-toolbar">
+                  {seasonCatalog && seasonCatalog.seasons.length > 1 && (
+                    <div className="toolbar-group">
+                      <label className="season-select">
+                        <span>シーズン</span>
+                        <select
+                          value={activeSeasonId}
+                          onChange={(event) => handleSeasonChange(event.target.value)}
+                        >
+                          {seasonCatalog.seasons.map((season) => (
+                            <option key={season.id} value={season.id}>
+                              {season.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                  )}
                   <div className="toolbar-group">
                     <button
                       className={trailEnabled ? 'primary-button small' : 'secondary-button small'}
@@ -3019,6 +3910,45 @@ function MapPage() {
                     >
                       軌跡: {trailEnabled ? 'ON' : 'OFF'}
                     </button>
+                    <button
+                      className={
+                        trailColorMode === 'movement' ? 'primary-button small' : 'secondary-button small'
+                      }
+                      onClick={() =>
+                        setTrailColorMode((prev) => (prev === 'movement' ? 'single' : 'movement'))
+                      }
+                      disabled={overlayMode !== 'normal' || !trailEnabled}
+                    >
+                      軌跡色: {trailColorMode === 'movement' ? '移動種別' : '単色'}
+                    </button>
+                    <button
+                      className={basesEnabled ? 'primary-button small' : 'secondary-button small'}
+                      onClick={() => {
+                        setBasesEnabled((prev) => !prev)
+                        setBasePopup(null)
+                      }}
+                      disabled={overlayMode !== 'normal'}
+                    >
+                      拠点: {basesEnabled ? 'ON' : 'OFF'}
+                    </button>
+                    <button
+                      className={coverageEnabled ? 'primary-button small' : 'secondary-button small'}
+                      onClick={() => setCoverageEnabled((prev) => !prev)}
+                      disabled={overlayMode !== 'normal'}
+                    >
+                      探索範囲: {coverageEnabled ? 'ON' : 'OFF'}
+                    </button>
+                    {coverageEnabled && (
+                      <button
+                        className="secondary-button small"
+                        onClick={() =>
+                          setCoverageScope((prev) => (prev === 'all' ? 'visible' : 'all'))
+                        }
+                        disabled={overlayMode !== 'normal'}
+                      >
+                        対象: {coverageScope === 'all' ? '全員' : '表示中'}
+                      </button>
+                    )}
                     <button
                       className={allTimeTrail ? 'primary-button small' : 'secondary-button small'}
                       onClick={() => setAllTimeTrail((prev) => !prev)}
@@ -3026,6 +3956,82 @@ function MapPage() {
                     >
                       全時間表示: {allTimeTrail ? 'ON' : 'OFF'}
                     </button>
+                    <button
+                      className={liveFollow ? 'primary-button small' : 'secondary-button small'}
+                      onClick={toggleLiveFollow}
+                      disabled={trackChunkIndex != null || !liveFollowSettings.endpoint}
+                      title={liveFollowSettings.endpoint ? undefined : 'VITE_LIVE_TRACKS_URL が未設定です'}
+                    >
+                      ライブ追従: {liveFollow ? 'ON' : 'OFF'}
+                    </button>
+                    {offlineThresholdOptions.length > 0 && (
+                      <label className="season-select">
+                        <span>オフライン判定</span>
+                        <select
+                          value={offlineThresholdSec === dataOfflineThresholdSec ? '' : offlineThresholdSec}
+                          onChange={(event) =>
+                            setOfflineThresholdOverrideSec(
+                              event.target.value ? Number(event.target.value) : null,
+                            )
+                          }
+                        >
+                          <option value="">
+                            データ既定 ({formatOfflineThreshold(dataOfflineThresholdSec)})
+                          </option>
+                          {offlineThresholdOptions.map((seconds) => (
+                            <option key={seconds} value={seconds}>
+                              {formatOfflineThreshold(seconds)}以上
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+                    {adminSettings.anomalyReportEnabled && (
+                      <button
+                        className={
+                          anomalyPanelOpen ? 'primary-button small' : 'secondary-button small'
+                        }
+                        onClick={() => setAnomalyPanelOpen((prev) => !prev)}
+                      >
+                        異常検知
+                      </button>
+                    )}
+                    <label className="season-select">
+                      <span>補間</span>
+                      <select
+                        value={interpolationMode}
+                        onChange={(event) =>
+                          setInterpolationMode(event.target.value as InterpolationMode)
+                        }
+                      >
+                        {INTERPOLATION_MODES.map((mode) => (
+                          <option key={mode} value={mode}>
+                            {getInterpolationModeLabel(mode)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="season-select">
+                      <span>ワープ判定</span>
+                      <select
+                        value={Number.isFinite(snapDistance) ? snapDistance : ''}
+                        onChange={(event) =>
+                          setSnapDistance(
+                            event.target.value
+                              ? Number(event.target.value)
+                              : Number.POSITIVE_INFINITY,
+                          )
+                        }
+                        disabled={interpolationMode === 'step'}
+                      >
+                        {SNAP_DISTANCE_PRESETS.map((distance) => (
+                          <option key={distance} value={distance}>
+                            {distance}マス超
+                          </option>
+                        ))}
+                        <option value="">なし</option>
+                      </select>
+                    </label>
                     {!showTips && (
                       <button
                         className="secondary-button small"
@@ -3050,6 +4056,54 @@ function MapPage() {
                   />
                   <div className="map-overlays">
                     <span className="pill">{characterCount} キャラ</span>
+                    {liveFollow && <span className="pill accent">ライブ追従中</span>}
+                    {overlayMode === 'normal' && trailEnabled && trailColorMode === 'movement' && (
+                      <span className="pill movement-legend">
+                        {MOVEMENT_MODES.map((mode) => (
+                          <span key={mode} className="movement-legend-item">
+                            <span
+                              className="movement-legend-swatch"
+                              style={{ background: viewerColorSettings.movementModeColors[mode] }}
+                            />
+                            {getMovementModeLabel(mode)}
+                          </span>
+                        ))}
+                      </span>
+                    )}
+                    {overlayMode === 'normal' && coverageRatio != null && (
+                      <span className="pill">
+                        探索率 {(coverageRatio * 100).toFixed(1)}%
+                        {coverageScope === 'visible' ? ' (表示中)' : ''}
+                      </span>
+                    )}
+                    {heatmapGrid && (
+                      <span className="pill heatmap-legend">
+                        {getHeatmapMetricLabel(heatmapGrid.metric)}
+                        <span
+                          className="heatmap-legend-ramp"
+                          style={{
+                            background: `linear-gradient(90deg, ${viewerColorSettings.heatmapLowColor}, ${viewerColorSettings.heatmapHighColor})`,
+                          }}
+                        />
+                        最大{' '}
+                        {heatmapGrid.metric === 'presence'
+                          ? formatDurationShort(heatmapGrid.max)
+                          : `${heatmapGrid.max}件`}
+                      </span>
+                    )}
+                    {pendingTrackChunkCount > 0 && (
+                      <span className="pill">軌跡データ取得中 ({pendingTrackChunkCount})</span>
+                    )}
+                    {failedTrackChunkCount > 0 && (
+                      <span className="pill warning">
+                        軌跡データの取得に失敗 ({failedTrackChunkCount}) 再試行中
+                      </span>
+                    )}
+                    {tracksLoadProgress && (
+                      <span className="pill">
+                        軌跡読み込み中 {Math.round(getTracksLoadRatio(tracksLoadProgress) * 100)}%
+                      </span>
+                    )}
                     <span className="pill">{mapModeLabel}</span>
                     <span className="pill">ズーム {zoom.toFixed(2)}x</span>
                     <span className="pill">
@@ -3100,7 +4154,7 @@ function MapPage() {
                       </button>
                     </div>
                     <div className="map-mode-filter-group">
-                      {(['respawn', 'login', 'logout', 'death', 'logoutMaybe'] as const).map((kind) => (
+                      {(['respawn', 'login', 'logout', 'death', 'logoutMaybe', 'encounter'] as const).map((kind) => (
                         <button
                           key={kind}
                           className={
@@ -3114,6 +4168,64 @@ function MapPage() {
                         </button>
                       ))}
                     </div>
+                    <span className="map-mode-switch-title">死亡ホットスポット</span>
+                    <div className="map-mode-heatmap-controls">
+                      <button
+                        className={hotspotsEnabled ? 'primary-button small' : 'secondary-button small'}
+                        onClick={() => {
+                          setHotspotsEnabled((prev) => !prev)
+                          setHotspotHoverTooltip(null)
+                          setSelectedHotspotId(null)
+                        }}
+                      >
+                        {hotspotsEnabled ? 'ON' : 'OFF'}
+                      </button>
+                    </div>
+                    <span className="map-mode-switch-title">ヒートマップ</span>
+                    <div className="map-mode-heatmap-controls">
+                      <button
+                        className={heatmapEnabled ? 'primary-button small' : 'secondary-button small'}
+                        onClick={() => setHeatmapEnabled((prev) => !prev)}
+                      >
+                        {heatmapEnabled ? 'ON' : 'OFF'}
+                      </button>
+                      <select
+                        value={heatmapMetric}
+                        onChange={(event) => setHeatmapMetric(event.target.value as HeatmapMetric)}
+                        disabled={!heatmapEnabled}
+                        aria-label="ヒートマップの指標"
+                      >
+                        {HEATMAP_METRICS.map((metric) => (
+                          <option key={metric} value={metric}>
+                            {getHeatmapMetricLabel(metric)}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={heatmapRangeMode}
+                        onChange={(event) =>
+                          setHeatmapRangeMode(event.target.value as 'window' | 'all')
+                        }
+                        disabled={!heatmapEnabled}
+                        aria-label="ヒートマップの期間"
+                      >
+                        <option value="window">表示範囲</option>
+                        <option value="all">全期間</option>
+                      </select>
+                      <select
+                        value={heatmapPlayerName}
+                        onChange={(event) => setHeatmapPlayerName(event.target.value)}
+                        disabled={!heatmapEnabled}
+                        aria-label="ヒートマップの対象プレイヤー"
+                      >
+                        <option value="">全員</option>
+                        {heatmapPlayerNames.map((playerName) => (
+                          <option key={playerName} value={playerName}>
+                            {playerName}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
                   </div>
                   {overlayMode === 'normal' &&
                     characterHoverTooltip &&
@@ -3183,7 +4295,9 @@ function MapPage() {
                             )
                             return (
                               <section className="event-hover-entry" key={point.id}>
-                                <div className="death-hover-title">{point.charName}</div>
+                                <div className="death-hover-title">
+                                  {point.participants?.join(' × ') ?? point.charName}
+                                </div>
                                 <dl className="death-hover-list">
                                   <div>
                                     <dt>種別</dt>
@@ -3191,8 +4305,14 @@ function MapPage() {
                                   </div>
                                   <div>
                                     <dt>{getEventTimeLabelFeature(point.kind)}</dt>
-                                    <dd>{formatJst(point.time)}</dd>
+                                    <dd>{formatDateTime(point.time, timeZone)}</dd>
                                   </div>
+                                  {point.endTime != null && (
+                                    <div>
+                                      <dt>遭遇時間</dt>
+                                      <dd>{formatDurationShort(point.endTime - point.time)}</dd>
+                                    </div>
+                                  )}
                                   <div>
                                     <dt>プレイヤー</dt>
                                     <dd>{point.playerName || '-'}</dd>
@@ -3220,6 +4340,106 @@ function MapPage() {
                         </div>
                       </div>
                     )}
+                  {hoveredHotspot && hotspotTooltipStyle && (
+                    <div className="death-hover-tooltip hotspot-hover-tooltip" style={hotspotTooltipStyle}>
+                      <div className="death-hover-title">
+                        危険地帯 {deathHotspots.indexOf(hoveredHotspot) + 1}
+                      </div>
+                      <dl className="death-hover-list">
+                        <div>
+                          <dt>死亡数</dt>
+                          <dd>{hoveredHotspot.count}件</dd>
+                        </div>
+                        <div>
+                          <dt>最初</dt>
+                          <dd>{formatDateTime(hoveredHotspot.firstTime, timeZone)}</dd>
+                        </div>
+                        <div>
+                          <dt>最後</dt>
+                          <dd>{formatDateTime(hoveredHotspot.lastTime, timeZone)}</dd>
+                        </div>
+                        <div>
+                          <dt>座標</dt>
+                          <dd>
+                            {Math.round(hoveredHotspot.x)}, {Math.round(hoveredHotspot.y)}
+                          </dd>
+                        </div>
+                      </dl>
+                      <div className="hotspot-hours" aria-label="時間帯別の死亡数">
+                        {hoveredHotspot.hourCounts.map((count, hour) => (
+                          <span
+                            key={hour}
+                            className="hotspot-hour-bar"
+                            title={`${hour}時台: ${count}件`}
+                            style={{
+                              height: `${(count / Math.max(...hoveredHotspot.hourCounts)) * 100}%`,
+                            }}
+                          />
+                        ))}
+                      </div>
+                      <div className="hotspot-hours-axis">
+                        <span>0時</span>
+                        <span>12時</span>
+                        <span>23時</span>
+                      </div>
+                      <ul className="base-popup-visitors">
+                        {hoveredHotspot.victims.map((victim) => (
+                          <li key={`${victim.charName}:${victim.time}`}>
+                            <span>{victim.charName}</span>
+                            <span>{formatDateTime(victim.time, timeZone)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {overlayMode === 'normal' && basePopupEntry && basePopupStyle && (
+                    <div className="death-hover-tooltip base-popup" style={basePopupStyle}>
+                      <div className="base-popup-header">
+                        <div className="death-hover-title">
+                          拠点 {bases.indexOf(basePopupEntry) + 1}
+                        </div>
+                        <button
+                          className="secondary-button small"
+                          onClick={() => setBasePopup(null)}
+                          aria-label="拠点情報を閉じる"
+                        >
+                          ×
+                        </button>
+                      </div>
+                      <dl className="death-hover-list">
+                        <div>
+                          <dt>滞在合計</dt>
+                          <dd>{formatDurationShort(basePopupEntry.dwellSec)}</dd>
+                        </div>
+                        <div>
+                          <dt>初回訪問</dt>
+                          <dd>{formatDateTime(basePopupEntry.firstVisit, timeZone)}</dd>
+                        </div>
+                        <div>
+                          <dt>最終訪問</dt>
+                          <dd>{formatDateTime(basePopupEntry.lastVisit, timeZone)}</dd>
+                        </div>
+                        <div>
+                          <dt>滞在回数</dt>
+                          <dd>{basePopupEntry.visitCount}回</dd>
+                        </div>
+                        <div>
+                          <dt>座標</dt>
+                          <dd>
+                            {Math.round(basePopupEntry.x)}, {Math.round(basePopupEntry.y)}
+                          </dd>
+                        </div>
+                      </dl>
+                      <ul className="base-popup-visitors">
+                        {basePopupEntry.visitors.map((visitor) => (
+                          <li key={visitor.playerName}>
+                            <span>{visitor.playerName || '-'}</span>
+                            <span>{formatDurationShort(visitor.dwellSec)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                 </div>
 
                 <section className={`timeline-panel ${timelineCollapsed ? 'collapsed' : ''}`}>
@@ -3306,7 +4526,7 @@ function MapPage() {
                         <div className="focus-editor" onWheel={handleFocusWheelScale}>
                           <div className="focus-editor-head">
                             <span>
-                              フォーカスバー（{formatJst(timeWindowReal.start)} - {formatJst(timeWindowReal.end)}）
+                              フォーカスバー（{formatDateTime(timeWindowReal.start, timeZone)} - {formatDateTime(timeWindowReal.end, timeZone)}）
                             </span>
                             <span className="focus-hint">
                               ホイールで拡大幅 / 端外ドラッグで繰り越し
@@ -3354,6 +4574,26 @@ function MapPage() {
                           ))}
                         </div>
                         <span className="window-controls-unit">時間</span>
+                        <button
+                          className={
+                            concurrencyChartEnabled
+                              ? 'primary-button small'
+                              : 'secondary-button small'
+                          }
+                          onClick={() => setConcurrencyChartEnabled((prev) => !prev)}
+                        >
+                          同時接続
+                        </button>
+                        <button
+                          className={
+                            hourlyEventChartEnabled
+                              ? 'primary-button small'
+                              : 'secondary-button small'
+                          }
+                          onClick={() => setHourlyEventChartEnabled((prev) => !prev)}
+                        >
+                          時間別イベント
+                        </button>
                         <label className="zoom-inline">
                           <span>拡大率</span>
                           <input
@@ -3371,14 +4611,44 @@ function MapPage() {
 
                       <label className="slider-label overview-label">
                         全体バー（フォーカス範囲表示）
+                        {overviewConcurrency && ` / 最大同時接続 ${overviewConcurrency.peak}人`}
                         <div
-                          className="overview-track"
+                          className={
+                            overviewConcurrency || overviewEventBars.length > 0
+                              ? 'overview-track with-activity'
+                              : 'overview-track'
+                          }
                           ref={overviewTrackRef}
                           onPointerDown={handleOverviewScrubPointerDown}
                           onPointerMove={handleOverviewScrubPointerMove}
                           onPointerUp={handleOverviewScrubPointerUp}
                           onPointerCancel={handleOverviewScrubPointerUp}
                         >
+                          {(overviewConcurrency || overviewEventBars.length > 0) && (
+                            <svg
+                              className="overview-activity"
+                              viewBox={`0 0 ${OVERVIEW_ACTIVITY_WIDTH} 100`}
+                              preserveAspectRatio="none"
+                              aria-hidden="true"
+                            >
+                              {overviewConcurrency && (
+                                <path
+                                  className="overview-concurrency"
+                                  d={overviewConcurrency.path}
+                                />
+                              )}
+                              {overviewEventBars.map((bar) => (
+                                <rect
+                                  key={bar.key}
+                                  className={`overview-event-bar ${bar.kind}`}
+                                  x={bar.x}
+                                  y={bar.y}
+                                  width={bar.width}
+                                  height={bar.height}
+                                />
+                              ))}
+                            </svg>
+                          )}
                           {overviewDayBoundaryPercents.map((percent, index) => (
                             <div
                               className="timeline-day-line"
@@ -3480,6 +4750,48 @@ function MapPage() {
                   ) : (
                     <p className="muted">snapshot に該当データがありません。</p>
                   )}
+                  {statusSessions.length > 0 && (
+                    <div className="status-sessions">
+                      <h3>
+                        セッション {statusSessions.length}回
+                        {statusPlayerSessionSummary &&
+                          statusPlayerSessionSummary.sessionCount > statusSessions.length &&
+                          ` (プレイヤー計 ${statusPlayerSessionSummary.sessionCount}回 / ${formatDurationShort(statusPlayerSessionSummary.totalDurationSec)})`}
+                      </h3>
+                      <table className="status-session-table">
+                        <thead>
+                          <tr>
+                            <th>開始</th>
+                            <th>時間</th>
+                            <th>移動</th>
+                            <th>範囲</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {statusSessions.map((session) => (
+                            <tr
+                              key={session.id}
+                              className={
+                                currentTime >= session.start && currentTime <= session.end
+                                  ? 'active'
+                                  : ''
+                              }
+                              title={`${Math.round(session.startPlace.x)}, ${Math.round(session.startPlace.y)} → ${Math.round(session.endPlace.x)}, ${Math.round(session.endPlace.y)} / イベント ${session.events.length}件`}
+                              onClick={() => {
+                                stopPlaybackForManualControl()
+                                setCurrentTime(clamp(session.start, period.start, period.end))
+                              }}
+                            >
+                              <td>{formatDateTimeShort(session.start, timeZone)}</td>
+                              <td>{formatDurationShort(session.durationSec)}</td>
+                              <td>{formatMetric(session.distance, 0)}</td>
+                              <td>{formatMetric(session.areaCovered, 0)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
                 </aside>
               )}
             </div>
@@ -3507,9 +4819,135 @@ function MapPage() {
               </section>
             )}
 
-            {snapshotWarning && (
+            {anomalyPanelOpen && (
+              <section className="anomaly-panel">
+                <div className="panel-title-row">
+                  <h2>異常検知レポート</h2>
+                  <button
+                    className="tips-close-button"
+                    onClick={() => setAnomalyPanelOpen(false)}
+                    aria-label="異常検知レポートを閉じる"
+                  >
+                    <span aria-hidden="true">×</span>
+                    <span>閉じる</span>
+                  </button>
+                </div>
+                <div className="anomaly-filter-row">
+                  <label className="season-select">
+                    <span>種別</span>
+                    <select
+                      value={anomalyKindFilter}
+                      onChange={(event) =>
+                        setAnomalyKindFilter(event.target.value as AnomalyKind | 'all')
+                      }
+                    >
+                      <option value="all">すべて</option>
+                      {ANOMALY_KINDS.map((kind) => (
+                        <option key={kind} value={kind}>
+                          {getAnomalyKindLabel(kind)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <span className="anomaly-count">{filteredAnomalies.length}件</span>
+                </div>
+                {filteredAnomalies.length === 0 ? (
+                  <p>該当する異常はありません。</p>
+                ) : (
+                  <ul className="anomaly-list">
+                    {filteredAnomalies.map((anomaly) => (
+                      <li key={anomaly.id} className={`anomaly-entry ${anomaly.kind}`}>
+                        <div className="anomaly-entry-main">
+                          <span className="anomaly-kind">{getAnomalyKindLabel(anomaly.kind)}</span>
+                          <span className="anomaly-name">
+                            {anomaly.otherCharName
+                              ? `${anomaly.charName} ＆ ${anomaly.otherCharName}`
+                              : anomaly.charName}
+                          </span>
+                          <span className="anomaly-meta">
+                            {formatDateTime(anomaly.time, timeZone)}
+                            {anomaly.distance != null &&
+                              ` / ${Math.round(anomaly.distance)}マス`}
+                            {anomaly.speed != null &&
+                              Number.isFinite(anomaly.speed) &&
+                              ` / ${anomaly.speed.toFixed(1)}マス/秒`}
+                            {anomaly.count > 1 && ` / ${anomaly.count}件`}
+                          </span>
+                        </div>
+                        <button
+                          className="secondary-button small"
+                          onClick={() => jumpToAnomaly(anomaly)}
+                        >
+                          地図で表示
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            )}
+
+            {hotspotsEnabled && (
+              <section className="anomaly-panel hotspot-panel">
+                <div className="panel-title-row">
+                  <h2>危険な場所</h2>
+                  <button
+                    className="tips-close-button"
+                    onClick={() => {
+                      setHotspotsEnabled(false)
+                      setHotspotHoverTooltip(null)
+                      setSelectedHotspotId(null)
+                    }}
+                    aria-label="危険な場所を閉じる"
+                  >
+                    <span aria-hidden="true">×</span>
+                    <span>閉じる</span>
+                  </button>
+                </div>
+                {deathHotspots.length === 0 ? (
+                  <p>複数の死亡が集中した場所はありません。</p>
+                ) : (
+                  <ol className="anomaly-list">
+                    {deathHotspots.map((hotspot, index) => (
+                      <li
+                        key={hotspot.id}
+                        className={
+                          hotspot.id === selectedHotspotId
+                            ? 'anomaly-entry hotspot-entry selected'
+                            : 'anomaly-entry hotspot-entry'
+                        }
+                      >
+                        <div className="anomaly-entry-main">
+                          <span className="anomaly-kind">
+                            {index + 1}. 死亡 {hotspot.count}件
+                          </span>
+                          <span className="anomaly-name">
+                            {[...new Set(hotspot.victims.map((victim) => victim.charName))].join(
+                              ', ',
+                            )}
+                          </span>
+                          <span className="anomaly-meta">
+                            {Math.round(hotspot.x)}, {Math.round(hotspot.y)} /{' '}
+                            {formatDateTime(hotspot.lastTime, timeZone)} 最終
+                          </span>
+                        </div>
+                        <button
+                          className="secondary-button small"
+                          onClick={() => jumpToHotspot(hotspot)}
+                        >
+                          地図で表示
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            )}
+
+            {(snapshotWarning || dataQualityWarning) && (
               <section className="snapshot-warning">
-                <p>{snapshotWarning}</p>
+                {snapshotWarning && <p>{snapshotWarning}</p>}
+                {dataQualityWarning && <p>{dataQualityWarning}</p>}
               </section>
             )}
           </>
@@ -0,0 +1,416 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import '../App.css'
+import {
+  buildPlayerPartnerLists,
+  buildRankingData,
+  findPlayerAggregate,
+  findRankingPlacements,
+  getPlayerTrackPartners,
+  type PlayerPartnerEntry,
+} from '../features/ranking/ranking'
+import {
+  resolveOfflineThresholdSec,
+  resolveTracksPeriod,
+  resolveTracksTimeZone,
+} from '../features/domain/tracks'
+import { getHashPath } from '../features/catalog/catalog'
+import { formatCount, formatDateTime, formatDurationShort } from '../features/format/format'
+import {
+  buildPlayerCharacterLives,
+  getPlayerHash,
+  readPlayerNameFromHashPath,
+} from '../features/profile/profile'
+import { renderMiniTrailMap } from '../features/map/render'
+import { getCharacterPlayerName, type CharacterTrack } from '../features/domain/characters'
+import { goToHash, useSeasonTracks } from '../features/catalog/seasonData'
+import { dataSettings } from '../config/viewerSettings'
+
+const MINI_MAP_SIZE = 320
+const CHARACTER_COLORS = [
+  '#1f77b4',
+  '#ff7f0e',
+  '#2ca02c',
+  '#d62728',
+  '#9467bd',
+  '#8c564b',
+  '#e377c2',
+  '#17becf',
+]
+
+function readPlayerNameFromLocation() {
+  if (typeof window === 'undefined') {
+    return ''
+  }
+  return readPlayerNameFromHashPath(getHashPath(window.location.hash)) ?? ''
+}
+
+function PartnerList({
+  partners,
+  seasonId,
+}: {
+  partners: PlayerPartnerEntry[]
+  seasonId: string
+}) {
+  return (
+    <div className="ranking-entry-list ranking-partner-list">
+      {partners.map((partner, index) => (
+        <div key={partner.partnerName} className="ranking-entry-row">
+          <div className="ranking-entry-rank">{index + 1}</div>
+          <div className="ranking-entry-body">
+            <button
+              className="profile-link-button"
+              onClick={() => goToHash(getPlayerHash(partner.partnerName), seasonId)}
+            >
+              {partner.partnerName}
+            </button>
+          </div>
+          <div className="ranking-entry-value">{formatDurationShort(partner.durationSec)}</div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function PlayerPage() {
+  const [playerName, setPlayerName] = useState(readPlayerNameFromLocation)
+  const {
+    loadStatus,
+    errorMessage,
+    tracksData,
+    snapshotData,
+    seasonCatalog,
+    activeSeasonId,
+    handleSeasonChange,
+    retryLoad,
+  } = useSeasonTracks(dataSettings, { pageName: 'player', includeSnapshot: true })
+  const miniMapRef = useRef<HTMLCanvasElement | null>(null)
+
+  useEffect(() => {
+    const onHashChange = () => {
+      setPlayerName(readPlayerNameFromLocation())
+      if (typeof window !== 'undefined') {
+        window.scrollTo({ top: 0, behavior: 'auto' })
+      }
+    }
+    window.addEventListener('hashchange', onHashChange)
+    return () => window.removeEventListener('hashchange', onHashChange)
+  }, [])
+
+  const timeZone = useMemo(() => resolveTracksTimeZone(tracksData?.meta), [tracksData])
+  const offlineThresholdSec = resolveOfflineThresholdSec(tracksData?.meta)
+  const allCharacters = useMemo(
+    () => (tracksData ? Object.values(tracksData.characters) : []),
+    [tracksData],
+  )
+  const period = useMemo(
+    () => (tracksData ? resolveTracksPeriod(tracksData.meta, allCharacters) : null),
+    [allCharacters, tracksData],
+  )
+
+  const characterLives = useMemo(
+    () => buildPlayerCharacterLives(allCharacters, playerName, offlineThresholdSec),
+    [allCharacters, offlineThresholdSec, playerName],
+  )
+  const playerCharacters = useMemo(
+    () => allCharacters.filter((character) => getCharacterPlayerName(character) === playerName),
+    [allCharacters, playerName],
+  )
+  const rankingData = useMemo(
+    () => buildRankingData(snapshotData, tracksData),
+    [snapshotData, tracksData],
+  )
+  const playerAggregate = useMemo(
+    () => findPlayerAggregate(rankingData, playerName),
+    [playerName, rankingData],
+  )
+  const rankingPlacements = useMemo(
+    () => findRankingPlacements(rankingData, playerName),
+    [playerName, rankingData],
+  )
+  const playerPartners = useMemo(
+    () => buildPlayerPartnerLists(snapshotData).get(playerName) ?? [],
+    [playerName, snapshotData],
+  )
+  const trackPartners = useMemo(
+    () => getPlayerTrackPartners(tracksData, playerName),
+    [playerName, tracksData],
+  )
+
+  useEffect(() => {
+    const canvas = miniMapRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) {
+      return
+    }
+    const pixelRatio = window.devicePixelRatio || 1
+    canvas.width = MINI_MAP_SIZE * pixelRatio
+    canvas.height = MINI_MAP_SIZE * pixelRatio
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+    renderMiniTrailMap({
+      context,
+      characters: characterLives
+        .map((life) => tracksData?.characters[life.charName])
+        .filter((character): character is CharacterTrack => character != null),
+      colors: CHARACTER_COLORS,
+      width: MINI_MAP_SIZE,
+      height: MINI_MAP_SIZE,
+      backgroundColor: '#f3f6fb',
+      offlineThresholdSec,
+    })
+  }, [characterLives, loadStatus, offlineThresholdSec, tracksData])
+
+  const periodDuration = period ? Math.max(1, period.end - period.start) : 1
+  const toPercent = (time: number) =>
+    period ? Math.min(100, Math.max(0, ((time - period.start) / periodDuration) * 100)) : 0
+  const playerFound = playerAggregate != null || playerCharacters.length > 0
+
+  return (
+    <div className="ranking-screen">
+      <main className="ranking-shell">
+        <section className="ranking-hero">
+          <div className="ranking-hero-head">
+            <div>
+              <p className="intro-kicker">プレイヤープロフィール</p>
+              <h1>{playerName || '(未指定)'}</h1>
+              {period && (
+                <p>
+                  集計期間: {formatDateTime(period.start, timeZone)} -{' '}
+                  {formatDateTime(period.end, timeZone)}
+                </p>
+              )}
+            </div>
+            <div className="ranking-hero-actions">
+              {seasonCatalog && seasonCatalog.seasons.length > 1 && (
+                <label className="season-select">
+                  <span>シーズン</span>
+                  <select
+                    value={activeSeasonId}
+                    onChange={(event) => handleSeasonChange(event.target.value)}
+                  >
+                    {seasonCatalog.seasons.map((season) => (
+                      <option key={season.id} value={season.id}>
+                        {season.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <button className="secondary-button" onClick={() => goToHash('#/')}>
+                トップへ戻る
+              </button>
+              <button
+                className="secondary-button"
+                onClick={() => goToHash('#/ranking', activeSeasonId)}
+              >
+                ランキングを開く
+              </button>
+              <button
+                className="primary-button"
+                onClick={() => goToHash('#/map', activeSeasonId)}
+              >
+                マップを開く
+              </button>
+            </div>
+          </div>
+        </section>
+
+        {loadStatus === 'loading' && (
+          <section className="status-card">
+            <h2>読み込み中...</h2>
+          </section>
+        )}
+
+        {loadStatus === 'error' && (
+          <section className="status-card">
+            <h2>プレイヤーデータの読み込みに失敗しました</h2>
+            <p className="error-message">{errorMessage}</p>
+            <button
+              className="primary-button"
+              onClick={retryLoad}
+            >
+              再試行
+            </button>
+          </section>
+        )}
+
+        {loadStatus === 'ready' && !playerFound && (
+          <section className="status-card">
+            <h2>プレイヤーが見つかりません</h2>
+            <p>このシーズンには「{playerName}」の記録がありません。</p>
+          </section>
+        )}
+
+        {loadStatus === 'ready' && playerFound && (
+          <>
+            <section className="ranking-panel">
+              <h2 className="profile-section-title">概要</h2>
+              <dl className="profile-stats">
+                <div>
+                  <dt>キャラクター</dt>
+                  <dd>{formatCount(playerAggregate?.characterNames.length ?? 0)}人</dd>
+                </div>
+                <div>
+                  <dt>死亡</dt>
+                  <dd>{formatCount(playerAggregate?.deathCount ?? 0)}回</dd>
+                </div>
+                <div>
+                  <dt>オンライン時間</dt>
+                  <dd>{formatDurationShort(playerAggregate?.onlineTimeSec ?? 0)}</dd>
+                </div>
+                <div>
+                  <dt>セッション</dt>
+                  <dd>{formatCount(playerAggregate?.sessionCount ?? 0)}回</dd>
+                </div>
+                <div>
+                  <dt>最長セッション</dt>
+                  <dd>{formatDurationShort(playerAggregate?.longestSessionSec ?? 0)}</dd>
+                </div>
+                <div>
+                  <dt>合計生存時間</dt>
+                  <dd>{formatDurationShort(playerAggregate?.totalSurvivalTime ?? 0)}</dd>
+                </div>
+                <div>
+                  <dt>ゾンビキル</dt>
+                  <dd>{formatCount(playerAggregate?.totalZombieKills ?? 0)}</dd>
+                </div>
+                <div>
+                  <dt>探索スコア</dt>
+                  <dd>{formatCount(playerAggregate?.explorerScore ?? 0)}</dd>
+                </div>
+                <div>
+                  <dt>踏破区画</dt>
+                  <dd>{formatCount(playerAggregate?.coverageCellCount ?? 0)}</dd>
+                </div>
+                <div>
+                  <dt>ベストパートナー</dt>
+                  <dd>{playerAggregate?.bestPartnerName ?? '-'}</dd>
+                </div>
+              </dl>
+            </section>
+
+            <section className="ranking-panel">
+              <h2 className="profile-section-title">キャラクターの歩み</h2>
+              {characterLives.length === 0 ? (
+                <p className="ranking-partner-empty">軌跡データがありません。</p>
+              ) : (
+                <div className="profile-life-list">
+                  {characterLives.map((life, index) => (
+                    <div key={life.charName} className="profile-life-row">
+                      <div className="profile-life-label">
+                        <span
+                          className="profile-life-swatch"
+                          style={{ background: CHARACTER_COLORS[index % CHARACTER_COLORS.length] }}
+                        />
+                        <strong>{life.charName}</strong>
+                        <span>
+                          {formatDateTime(life.start, timeZone)} 誕生 /{' '}
+                          {life.terminalType === 'death' && life.terminalTime != null
+                            ? `${formatDateTime(life.terminalTime, timeZone)} 死亡`
+                            : '生存中'}
+                          {' / '}
+                          {life.sessions.length}回 {formatDurationShort(life.onlineSec)}
+                        </span>
+                      </div>
+                      <div className="profile-life-track">
+                        <span
+                          className="profile-life-span"
+                          style={{
+                            left: `${toPercent(life.start)}%`,
+                            width: `${Math.max(toPercent(life.end) - toPercent(life.start), 0.3)}%`,
+                          }}
+                        />
+                        {life.sessions.map((session) => (
+                          <span
+                            key={session.id}
+                            className="profile-life-session"
+                            title={`${formatDateTime(session.start, timeZone)} - ${formatDateTime(session.end, timeZone)}`}
+                            style={{
+                              left: `${toPercent(session.start)}%`,
+                              width: `${Math.max(toPercent(session.end) - toPercent(session.start), 0.2)}%`,
+                              background: CHARACTER_COLORS[index % CHARACTER_COLORS.length],
+                            }}
+                          />
+                        ))}
+                        <span
+                          className="profile-life-marker spawn"
+                          title="誕生"
+                          style={{ left: `${toPercent(life.start)}%` }}
+                        />
+                        {life.terminalType === 'death' && life.terminalTime != null && (
+                          <span
+                            className="profile-life-marker death"
+                            title="死亡"
+                            style={{ left: `${toPercent(life.terminalTime)}%` }}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <div className="profile-grid">
+              <section className="ranking-panel">
+                <h2 className="profile-section-title">全期間の軌跡</h2>
+                <canvas
+                  ref={miniMapRef}
+                  className="profile-mini-map"
+                  style={{ width: MINI_MAP_SIZE, height: MINI_MAP_SIZE }}
+                />
+              </section>
+
+              <section className="ranking-panel">
+                <h2 className="profile-section-title">ランキング順位</h2>
+                {rankingPlacements.length === 0 ? (
+                  <p className="ranking-partner-empty">ランキングに載っていません。</p>
+                ) : (
+                  <div className="ranking-entry-list">
+                    {rankingPlacements.map((placement) => (
+                      <div
+                        key={`${placement.scope}:${placement.cardId}:${placement.sectionTitle ?? ''}`}
+                        className="ranking-entry-row"
+                      >
+                        <div className="ranking-entry-rank">{placement.rank}</div>
+                        <div className="ranking-entry-body">
+                          <strong>
+                            {placement.cardTitle}
+                            {placement.sectionTitle ? ` (${placement.sectionTitle})` : ''}
+                          </strong>
+                          <span>
+                            {placement.scope === 'character'
+                              ? `キャラクター: ${placement.charName ?? '-'}`
+                              : 'プレイヤー'}
+                            {` / ${placement.total}件中`}
+                          </span>
+                        </div>
+                        <div className="ranking-entry-value">{placement.valueLabel}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </section>
+
+              <section className="ranking-panel">
+                <h2 className="profile-section-title">パートナー</h2>
+                {playerPartners.length === 0 ? (
+                  <p className="ranking-partner-empty">パートナー情報はありません。</p>
+                ) : (
+                  <PartnerList partners={playerPartners} seasonId={activeSeasonId} />
+                )}
+                {trackPartners.length > 0 && (
+                  <>
+                    <h3 className="ranking-partner-subhead">軌跡から推定した同行時間</h3>
+                    <PartnerList partners={trackPartners} seasonId={activeSeasonId} />
+                  </>
+                )}
+              </section>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
+
+export default PlayerPage
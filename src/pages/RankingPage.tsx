@@ -3,46 +3,29 @@ import '../App.css'
 import {
   buildRankingData,
   buildPlayerPartnerLists,
+  getPlayerTrackPartners,
   type RankingCard,
   type RankingEntry,
   type PlayerPartnerEntry,
-  type SnapshotData,
-  type TracksData,
 } from '../features/ranking/ranking'
+import { resolveTracksPeriod, resolveTracksTimeZone } from '../features/domain/tracks'
+import { formatDurationShort, formatPeriodLabel } from '../features/format/format'
+import { getPlayerHash } from '../features/profile/profile'
+import {
+  summarizeValidationIssues,
+  validateSnapshotData,
+  validateTracksData,
+} from '../features/validation/validation'
+import { goToHash, useSeasonTracks, type LoadStatus } from '../features/catalog/seasonData'
+import { dataSettings } from '../config/viewerSettings'
 
 type RankingMode = 'character' | 'player'
-type LoadStatus = 'idle' | 'loading' | 'ready' | 'error'
 const DEFAULT_VISIBLE_ENTRIES = 3
 
-const TRACKS_URL = `${import.meta.env.BASE_URL}data/tracks.json`
-const SNAPSHOT_URL = `${import.meta.env.BASE_URL}data/snapshot.json`
-
-function goToHash(hash: '#/map' | '#/') {
-  if (typeof window === 'undefined') {
-    return
-  }
-  window.location.hash = hash === '#/' ? '' : hash.slice(1)
-}
-
 function normalizePlayerName(name: string) {
   return name.trim()
 }
 
-function formatDurationShort(totalSec: number) {
-  const clamped = Math.max(0, Math.round(totalSec))
-  const days = Math.floor(clamped / 86400)
-  const hours = Math.floor((clamped % 86400) / 3600)
-  const minutes = Math.floor((clamped % 3600) / 60)
-
-  if (days > 0) {
-    return hours > 0 ? `${days}日 ${hours}時間` : `${days}日`
-  }
-  if (hours > 0) {
-    return minutes > 0 ? `${hours}時間 ${minutes}分` : `${hours}時間`
-  }
-  return `${Math.max(1, minutes)}分`
-}
-
 function RankingCardView({
   card,
   expanded,
@@ -250,12 +233,36 @@ function RankingCardView({
   )
 }
 
+function PartnerEntryList({
+  playerName,
+  partners,
+}: {
+  playerName: string
+  partners: PlayerPartnerEntry[]
+}) {
+  return (
+    <div className="ranking-entry-list ranking-partner-list">
+      {partners.map((partner, index) => (
+        <div key={`${playerName}:${partner.partnerName}`} className="ranking-entry-row">
+          <div className="ranking-entry-rank">{index + 1}</div>
+          <div className="ranking-entry-body">
+            <strong>{partner.partnerName}</strong>
+          </div>
+          <div className="ranking-entry-value">{formatDurationShort(partner.durationSec)}</div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
 function SelectedPlayerPartnerCard({
   playerName,
   partners,
+  trackPartners,
 }: {
   playerName: string
   partners: PlayerPartnerEntry[]
+  trackPartners: PlayerPartnerEntry[]
 }) {
   return (
     <section className="ranking-partner-card" aria-label="パートナー一覧">
@@ -271,17 +278,13 @@ function SelectedPlayerPartnerCard({
           {playerName ? 'パートナー情報はありません。' : 'プレイヤーを選択してください。'}
         </p>
       ) : (
-        <div className="ranking-entry-list ranking-partner-list">
-          {partners.map((partner, index) => (
-            <div key={`${playerName}:${partner.partnerName}`} className="ranking-entry-row">
-              <div className="ranking-entry-rank">{index + 1}</div>
-              <div className="ranking-entry-body">
-                <strong>{partner.partnerName}</strong>
-              </div>
-              <div className="ranking-entry-value">{formatDurationShort(partner.durationSec)}</div>
-            </div>
-          ))}
-        </div>
+        <PartnerEntryList playerName={playerName} partners={partners} />
+      )}
+      {trackPartners.length > 0 && (
+        <>
+          <h3 className="ranking-partner-subhead">軌跡から推定した同行時間</h3>
+          <PartnerEntryList playerName={playerName} partners={trackPartners} />
+        </>
       )}
     </section>
   )
@@ -289,71 +292,55 @@ function SelectedPlayerPartnerCard({
 
 function RankingPage() {
   const [rankingMode, setRankingMode] = useState<RankingMode>('character')
-  const [loadStatus, setLoadStatus] = useState<LoadStatus>('idle')
-  const [loadRequestSeq, setLoadRequestSeq] = useState(0)
-  const [tracksData, setTracksData] = useState<TracksData | null>(null)
-  const [snapshotData, setSnapshotData] = useState<SnapshotData | null>(null)
-  const [errorMessage, setErrorMessage] = useState('')
+  const {
+    loadStatus,
+    errorMessage,
+    tracksData,
+    snapshotData,
+    seasonCatalog,
+    activeSeasonId,
+    handleSeasonChange,
+    retryLoad,
+  } = useSeasonTracks(dataSettings, { pageName: 'ranking', includeSnapshot: true })
   const [expandedCardIds, setExpandedCardIds] = useState<string[]>([])
   const [expandedSelectedSectionIds, setExpandedSelectedSectionIds] = useState<string[]>([])
   const [selectedPlayerName, setSelectedPlayerName] = useState('')
   const [showPlayerPicker, setShowPlayerPicker] = useState(false)
+  const [playerPickerDeps, setPlayerPickerDeps] = useState<{
+    loadStatus: LoadStatus
+    playerOptions: string[] | null
+    selectedPlayerName: string
+  }>({ loadStatus: 'idle', playerOptions: null, selectedPlayerName: '' })
   const [isToolbarPinned, setIsToolbarPinned] = useState(false)
   const toolbarSentinelRef = useRef<HTMLDivElement | null>(null)
 
-  useEffect(() => {
-    const controller = new AbortController()
-
-    const load = async () => {
-      setLoadStatus('loading')
-      setErrorMessage('')
-
-      try {
-        const [tracksResponse, snapshotResponse] = await Promise.all([
-          fetch(TRACKS_URL, { signal: controller.signal }),
-          fetch(SNAPSHOT_URL, { signal: controller.signal }),
-        ])
-
-        if (!tracksResponse.ok) {
-          throw new Error('ranking-data-load-failed')
-        }
-        if (!snapshotResponse.ok) {
-          throw new Error('ranking-data-load-failed')
-        }
-
-        const [loadedTracks, loadedSnapshot] = (await Promise.all([
-          tracksResponse.json(),
-          snapshotResponse.json(),
-        ])) as [TracksData, SnapshotData]
-
-        if (controller.signal.aborted) {
-          return
-        }
-
-        setTracksData(loadedTracks)
-        setSnapshotData(loadedSnapshot)
-        setLoadStatus('ready')
-      } catch (error) {
-        if (controller.signal.aborted) {
-          return
-        }
-        console.error('Failed to load ranking data', error)
-        setTracksData(null)
-        setSnapshotData(null)
-        setLoadStatus('error')
-        setErrorMessage('読み込みに失敗しました。再試行してください。')
-      }
+  const dataQualityWarning = useMemo(() => {
+    if (!tracksData || !snapshotData) {
+      return ''
     }
-
-    void load()
-    return () => controller.abort()
-  }, [loadRequestSeq])
+    const issues = [
+      ...validateSnapshotData(snapshotData),
+      ...validateTracksData(tracksData, snapshotData),
+    ]
+    return issues.length > 0 ? `データ品質の警告: ${summarizeValidationIssues(issues)}` : ''
+  }, [snapshotData, tracksData])
 
   const rankingData = useMemo(
     () => buildRankingData(snapshotData, tracksData),
     [snapshotData, tracksData],
   )
 
+  const periodLabel = useMemo(() => {
+    if (!tracksData) {
+      return ''
+    }
+    const period = resolveTracksPeriod(tracksData.meta, Object.values(tracksData.characters))
+    if (!period) {
+      return ''
+    }
+    return formatPeriodLabel(period.start, period.end, resolveTracksTimeZone(tracksData.meta))
+  }, [tracksData])
+
   const activeCards =
     rankingMode === 'character' ? rankingData.characterCards : rankingData.playerCards
   const sidebarBestPartnerCard =
@@ -387,6 +374,22 @@ function RankingPage() {
     return [...names].sort((a, b) => a.localeCompare(b, 'ja'))
   }, [snapshotData, tracksData])
 
+  if (selectedPlayerName && !playerOptions.includes(selectedPlayerName)) {
+    setSelectedPlayerName('')
+  }
+  if (
+    playerPickerDeps.loadStatus !== loadStatus ||
+    playerPickerDeps.playerOptions !== playerOptions ||
+    playerPickerDeps.selectedPlayerName !== selectedPlayerName
+  ) {
+    setPlayerPickerDeps({ loadStatus, playerOptions, selectedPlayerName })
+    if (loadStatus === 'ready' && selectedPlayerName) {
+      setShowPlayerPicker(false)
+    } else if (loadStatus === 'ready' && playerOptions.length > 0) {
+      setShowPlayerPicker(true)
+    }
+  }
+
   const playerPartnerLists = useMemo(() => buildPlayerPartnerLists(snapshotData), [snapshotData])
 
   const selectedPlayerPartners = useMemo(() => {
@@ -396,24 +399,10 @@ function RankingPage() {
     return playerPartnerLists.get(selectedPlayerName) ?? []
   }, [playerPartnerLists, selectedPlayerName])
 
-  useEffect(() => {
-    if (selectedPlayerName && !playerOptions.includes(selectedPlayerName)) {
-      setSelectedPlayerName('')
-    }
-  }, [playerOptions, selectedPlayerName])
-
-  useEffect(() => {
-    if (loadStatus !== 'ready') {
-      return
-    }
-    if (selectedPlayerName) {
-      setShowPlayerPicker(false)
-      return
-    }
-    if (playerOptions.length > 0) {
-      setShowPlayerPicker(true)
-    }
-  }, [loadStatus, playerOptions, selectedPlayerName])
+  const selectedPlayerTrackPartners = useMemo(
+    () => getPlayerTrackPartners(tracksData, selectedPlayerName),
+    [selectedPlayerName, tracksData],
+  )
 
   useEffect(() => {
     const sentinel = toolbarSentinelRef.current
@@ -513,12 +502,46 @@ function RankingPage() {
             <div>
               <p className="intro-kicker">PZ 行動履歴ビューア</p>
               <h1>ランキングページ</h1>
+              {periodLabel && <p>集計期間: {periodLabel}</p>}
+              {dataQualityWarning && <p className="ranking-data-warning">{dataQualityWarning}</p>}
             </div>
             <div className="ranking-hero-actions">
+              {seasonCatalog && seasonCatalog.seasons.length > 1 && (
+                <label className="season-select">
+                  <span>シーズン</span>
+                  <select
+                    value={activeSeasonId}
+                    onChange={(event) => handleSeasonChange(event.target.value)}
+                  >
+                    {seasonCatalog.seasons.map((season) => (
+                      <option key={season.id} value={season.id}>
+                        {season.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {selectedPlayerName && (
+                <button
+                  className="secondary-button"
+                  onClick={() => goToHash(getPlayerHash(selectedPlayerName), activeSeasonId)}
+                >
+                  プロフィールを見る
+                </button>
+              )}
               <button className="secondary-button" onClick={() => goToHash('#/')}>
                 トップへ戻る
               </button>
-              <button className="primary-button" onClick={() => goToHash('#/map')}>
+              <button
+                className="secondary-button"
+                onClick={() => goToHash('#/stats', activeSeasonId)}
+              >
+                活動傾向を開く
+              </button>
+              <button
+                className="primary-button"
+                onClick={() => goToHash('#/map', activeSeasonId)}
+              >
                 マップを開く
               </button>
             </div>
@@ -576,7 +599,7 @@ function RankingPage() {
               <p className="error-message">{errorMessage}</p>
               <button
                 className="primary-button"
-                onClick={() => setLoadRequestSeq((prev) => prev + 1)}
+                onClick={retryLoad}
               >
                 再試行
               </button>
@@ -624,6 +647,7 @@ function RankingPage() {
                   <SelectedPlayerPartnerCard
                     playerName={selectedPlayerName}
                     partners={selectedPlayerPartners}
+                    trackPartners={selectedPlayerTrackPartners}
                   />
                 </aside>
               )}
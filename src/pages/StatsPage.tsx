@@ -0,0 +1,297 @@
+import { useMemo, useState, type CSSProperties } from 'react'
+import '../App.css'
+import {
+  resolveOfflineThresholdSec,
+  resolveTracksPeriod,
+  resolveTracksTimeZone,
+} from '../features/domain/tracks'
+import { formatDurationShort, formatPeriodLabel } from '../features/format/format'
+import {
+  buildActivityPatterns,
+  buildPeriodActivityPattern,
+  getPeakActivitySlot,
+  WEEKDAY_LABELS,
+  type ActivityPattern,
+} from '../features/stats/stats'
+import { goToHash, useSeasonTracks } from '../features/catalog/seasonData'
+import { dataSettings } from '../config/viewerSettings'
+
+const HOUR_LABELS = Array.from({ length: 24 }, (_, hour) => `${hour}`)
+
+function divideSeconds(values: number[], periodValues: number[]) {
+  return values.map((value, index) => (periodValues[index] > 0 ? value / periodValues[index] : 0))
+}
+
+function ActivityBarChart({
+  title,
+  description,
+  labels,
+  values,
+  formatValue,
+}: {
+  title: string
+  description: string
+  labels: readonly string[]
+  values: number[]
+  formatValue: (value: number) => string
+}) {
+  const max = Math.max(...values, 0)
+  return (
+    <article className="ranking-category-card stats-chart-card">
+      <div className="ranking-category-head">
+        <h2>{title}</h2>
+      </div>
+      <p>{description}</p>
+      <div
+        className="stats-bar-chart"
+        style={{ '--stats-bar-count': values.length } as CSSProperties}
+      >
+        {values.map((value, index) => (
+          <div
+            key={labels[index]}
+            className="stats-bar"
+            title={`${labels[index]}: ${formatValue(value)}`}
+          >
+            <span
+              className="stats-bar-fill"
+              style={{ height: `${max > 0 ? (value / max) * 100 : 0}%` }}
+            />
+            <span className="stats-bar-label">{labels[index]}</span>
+          </div>
+        ))}
+      </div>
+    </article>
+  )
+}
+
+function StatsPage() {
+  const {
+    loadStatus,
+    errorMessage,
+    tracksData,
+    seasonCatalog,
+    activeSeasonId,
+    handleSeasonChange,
+    retryLoad,
+  } = useSeasonTracks(dataSettings, { pageName: 'stats' })
+  const [selectedPlayerName, setSelectedPlayerName] = useState('')
+
+  const timeZone = useMemo(() => resolveTracksTimeZone(tracksData?.meta), [tracksData])
+
+  const period = useMemo(
+    () =>
+      tracksData
+        ? resolveTracksPeriod(tracksData.meta, Object.values(tracksData.characters))
+        : null,
+    [tracksData],
+  )
+
+  const activityPatterns = useMemo(
+    () =>
+      tracksData
+        ? buildActivityPatterns(Object.values(tracksData.characters), {
+            timeZone,
+            offlineThresholdSec: resolveOfflineThresholdSec(tracksData.meta),
+          })
+        : null,
+    [timeZone, tracksData],
+  )
+
+  const periodPattern = useMemo(
+    () => buildPeriodActivityPattern(period, timeZone),
+    [period, timeZone],
+  )
+
+  const selectedPlayer = selectedPlayerName
+    ? (activityPatterns?.players.find((player) => player.playerName === selectedPlayerName) ??
+      null)
+    : null
+  const activePattern: ActivityPattern | null = selectedPlayer ?? activityPatterns?.server ?? null
+  const formatActivityValue = (value: number) =>
+    selectedPlayer ? `${Math.round(value * 100)}%` : `${value.toFixed(1)}人`
+  const valueDescription = selectedPlayer
+    ? `${selectedPlayer.playerName} がオンラインだった割合です。`
+    : 'サーバー全体の平均同時接続数です。'
+  const hourlyValues = activePattern
+    ? divideSeconds(activePattern.hourly, periodPattern.hourly)
+    : []
+  const weekdayValues = activePattern
+    ? divideSeconds(activePattern.weekday, periodPattern.weekday)
+    : []
+  const slotValues = activePattern
+    ? activePattern.slots.map((hours, weekday) =>
+        divideSeconds(hours, periodPattern.slots[weekday]),
+      )
+    : []
+  const slotMax = Math.max(0, ...slotValues.flat())
+  const peakSlot = activePattern ? getPeakActivitySlot(activePattern, periodPattern) : null
+
+  const periodLabel = period ? formatPeriodLabel(period.start, period.end, timeZone) : ''
+
+  return (
+    <div className="ranking-screen">
+      <main className="ranking-shell">
+        <section className="ranking-hero">
+          <div className="ranking-hero-head">
+            <div>
+              <p className="intro-kicker">PZ 行動履歴ビューア</p>
+              <h1>活動傾向ページ</h1>
+              {periodLabel && <p>集計期間: {periodLabel}</p>}
+              <p>時刻はすべて {timeZone} 基準で集計しています。</p>
+            </div>
+            <div className="ranking-hero-actions">
+              {seasonCatalog && seasonCatalog.seasons.length > 1 && (
+                <label className="season-select">
+                  <span>シーズン</span>
+                  <select
+                    value={activeSeasonId}
+                    onChange={(event) => handleSeasonChange(event.target.value)}
+                  >
+                    {seasonCatalog.seasons.map((season) => (
+                      <option key={season.id} value={season.id}>
+                        {season.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <button className="secondary-button" onClick={() => goToHash('#/')}>
+                トップへ戻る
+              </button>
+              <button
+                className="secondary-button"
+                onClick={() => goToHash('#/ranking', activeSeasonId)}
+              >
+                ランキングを開く
+              </button>
+              <button
+                className="primary-button"
+                onClick={() => goToHash('#/map', activeSeasonId)}
+              >
+                マップを開く
+              </button>
+            </div>
+          </div>
+        </section>
+
+        <section className="ranking-panel">
+          <div className="stats-toolbar">
+            <label className="ranking-player-filter">
+              <span>集計対象</span>
+              <select
+                value={selectedPlayer?.playerName ?? ''}
+                onChange={(event) => setSelectedPlayerName(event.target.value)}
+              >
+                <option value="">サーバー全体</option>
+                {activityPatterns?.players.map((player) => (
+                  <option key={player.playerName} value={player.playerName}>
+                    {player.playerName}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {activePattern && (
+              <dl className="stats-summary">
+                <div>
+                  <dt>合計オンライン時間</dt>
+                  <dd>{formatDurationShort(activePattern.totalSec)}</dd>
+                </div>
+                <div>
+                  <dt>最も多い時間帯</dt>
+                  <dd>
+                    {peakSlot
+                      ? `${WEEKDAY_LABELS[peakSlot.weekday]}曜 ${peakSlot.hour}時台 (${formatActivityValue(peakSlot.average)})`
+                      : '-'}
+                  </dd>
+                </div>
+              </dl>
+            )}
+          </div>
+
+          {loadStatus === 'loading' && (
+            <section className="status-card">
+              <h2>読み込み中...</h2>
+            </section>
+          )}
+
+          {loadStatus === 'error' && (
+            <section className="status-card">
+              <h2>統計データの読み込みに失敗しました</h2>
+              <p className="error-message">{errorMessage}</p>
+              <button
+                className="primary-button"
+                onClick={retryLoad}
+              >
+                再試行
+              </button>
+            </section>
+          )}
+
+          {loadStatus === 'ready' && (!activePattern || activePattern.totalSec <= 0) && (
+            <section className="status-card">
+              <h2>表示できる統計がありません</h2>
+              <p>現在のデータでは、オンライン時間を集計できませんでした。</p>
+            </section>
+          )}
+
+          {loadStatus === 'ready' && activePattern && activePattern.totalSec > 0 && (
+            <div className="stats-grid">
+              <ActivityBarChart
+                title="時間帯別"
+                description={`時刻ごとの平均です。${valueDescription}`}
+                labels={HOUR_LABELS}
+                values={hourlyValues}
+                formatValue={formatActivityValue}
+              />
+              <ActivityBarChart
+                title="曜日別"
+                description={`曜日ごとの平均です。${valueDescription}`}
+                labels={WEEKDAY_LABELS}
+                values={weekdayValues}
+                formatValue={formatActivityValue}
+              />
+              <article className="ranking-category-card stats-chart-card stats-matrix-card">
+                <div className="ranking-category-head">
+                  <h2>曜日 × 時間帯</h2>
+                </div>
+                <p>色が濃いほどオンラインが多い時間帯です。{valueDescription}</p>
+                <div className="stats-matrix-scroll">
+                  <table className="stats-matrix">
+                    <thead>
+                      <tr>
+                        <th />
+                        {HOUR_LABELS.map((label) => (
+                          <th key={label}>{label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {slotValues.map((hours, weekday) => (
+                        <tr key={WEEKDAY_LABELS[weekday]}>
+                          <th>{WEEKDAY_LABELS[weekday]}</th>
+                          {hours.map((value, hour) => (
+                            <td
+                              key={hour}
+                              title={`${WEEKDAY_LABELS[weekday]}曜 ${hour}時台: ${formatActivityValue(value)}`}
+                              style={{
+                                background: `rgba(44, 118, 224, ${
+                                  slotMax > 0 ? (value / slotMax) * 0.9 : 0
+                                })`,
+                              }}
+                            />
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </article>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  )
+}
+
+export default StatsPage
@@ -0,0 +1,122 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { spawnSync } from 'node:child_process'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+const BUILD_SCRIPT = path.resolve('tools/build_tracks.mjs')
+
+function runBuild(cwd: string, args: string[]) {
+  const result = spawnSync(process.execPath, [BUILD_SCRIPT, '--data', 'data', ...args], {
+    cwd,
+    encoding: 'utf-8',
+  })
+  assert.equal(result.status, 0, result.stderr)
+}
+
+function readTracks(cwd: string) {
+  return JSON.parse(fs.readFileSync(path.join(cwd, 'public/data/tracks.json'), 'utf-8'))
+}
+
+function readAlice(cwd: string) {
+  return readTracks(cwd).characters.alice
+}
+
+test('build then append does not parse a row that was still being written', () => {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'build-tracks-'))
+  try {
+    const csvPath = path.join(cwd, 'data/movement.csv')
+    fs.mkdirSync(path.join(cwd, 'data'))
+    fs.writeFileSync(
+      path.join(cwd, 'data/snapshot.json'),
+      JSON.stringify({ data: { '1': { name: 'alice', playerID: '1', playerName: 'p1' } } }),
+    )
+    fs.writeFileSync(
+      csvPath,
+      'time,id,char,x,y,z,event\n100,1,alice,4000,2000,0,move\n160,1,alice,4010,2005,0,mo',
+    )
+
+    runBuild(cwd, [])
+    assert.deepEqual(readAlice(cwd).track, { t: [100], x: [4000], y: [2000] })
+
+    fs.appendFileSync(csvPath, 've\n220,1,alice,4020,2010,0,move\n')
+    runBuild(cwd, ['--append'])
+    const alice = readAlice(cwd)
+    assert.equal(alice.events, undefined)
+    assert.deepEqual(alice.track, {
+      t: [100, 160, 220],
+      x: [4000, 4010, 4020],
+      y: [2000, 2005, 2010],
+    })
+  } finally {
+    fs.rmSync(cwd, { recursive: true, force: true })
+  }
+})
+
+test('append keeps events logged before the first movement row of a character', () => {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'build-tracks-'))
+  try {
+    const csvPath = path.join(cwd, 'data/movement.csv')
+    fs.mkdirSync(path.join(cwd, 'data'))
+    fs.writeFileSync(
+      path.join(cwd, 'data/snapshot.json'),
+      JSON.stringify({
+        data: {
+          '1': { name: 'alice', playerID: '1', playerName: 'p1' },
+          '2': { name: 'bob', playerID: '2', playerName: 'p2' },
+        },
+      }),
+    )
+    fs.writeFileSync(
+      csvPath,
+      'time,id,char,x,y,z,event\n90,2,bob,3900,1900,0,move\n100,1,alice,4000,2000,0,login\n',
+    )
+
+    runBuild(cwd, [])
+    assert.equal(readAlice(cwd), undefined)
+
+    fs.appendFileSync(csvPath, '160,1,alice,4010,2005,0,move\n')
+    runBuild(cwd, ['--append'])
+    const alice = readAlice(cwd)
+    assert.deepEqual(alice.events, [{ t: 100, type: 'login', x: 4000, y: 2000 }])
+    assert.deepEqual(alice.track, { t: [160], x: [4010], y: [2005] })
+  } finally {
+    fs.rmSync(cwd, { recursive: true, force: true })
+  }
+})
+
+test('append over a split CSV writes the same tracks as a full build', () => {
+  const appendCwd = fs.mkdtempSync(path.join(os.tmpdir(), 'build-tracks-'))
+  const fullCwd = fs.mkdtempSync(path.join(os.tmpdir(), 'build-tracks-'))
+  try {
+    const snapshot = JSON.stringify({
+      data: {
+        '1': { name: 'alice', playerID: '1', playerName: 'p1' },
+        '2': { name: 'bob', playerID: '2', playerName: 'p2' },
+      },
+    })
+    const firstBatch =
+      'time,id,char,x,y,z,event\n90,2,bob,3900,1900,0,move\n100,1,alice,4000,2000,0,login\n'
+    const secondBatch =
+      '160,1,alice,4010,2005,0,move\n200,2,bob,3910,1905,0,death\n220,1,alice,4020,2010,0,move\n'
+    for (const cwd of [appendCwd, fullCwd]) {
+      fs.mkdirSync(path.join(cwd, 'data'))
+      fs.writeFileSync(path.join(cwd, 'data/snapshot.json'), snapshot)
+    }
+
+    fs.writeFileSync(path.join(appendCwd, 'data/movement.csv'), firstBatch)
+    runBuild(appendCwd, [])
+    fs.appendFileSync(path.join(appendCwd, 'data/movement.csv'), secondBatch)
+    runBuild(appendCwd, ['--append'])
+
+    fs.writeFileSync(path.join(fullCwd, 'data/movement.csv'), firstBatch + secondBatch)
+    runBuild(fullCwd, [])
+
+    assert.deepEqual(readTracks(appendCwd), readTracks(fullCwd))
+    assert.equal(readAlice(appendCwd).events.length, 1)
+  } finally {
+    fs.rmSync(appendCwd, { recursive: true, force: true })
+    fs.rmSync(fullCwd, { recursive: true, force: true })
+  }
+})
@@ -0,0 +1,72 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  getHashPath,
+  getSeasonDataUrls,
+  normalizeSeasonCatalog,
+  readSeasonIdFromHash,
+  resolveSeasonEntry,
+  withSeasonInHash,
+} from '../src/features/catalog/catalog.js'
+
+test('normalizeSeasonCatalog drops invalid and duplicate seasons', () => {
+  const catalog = normalizeSeasonCatalog({
+    version: 1,
+    seasons: [
+      { id: 's2', name: 'Season 2', path: 'seasons/s2', characterCount: 4, playerCount: 3 },
+      { id: 's2', name: 'Duplicate', path: 'seasons/s2-dup/' },
+      { id: '', path: 'seasons/empty/' },
+      { id: 's1', path: 'seasons/s1/', period: { start: '2025-01-01T00:00:00+09:00' } },
+      null,
+    ],
+  })
+
+  assert.ok(catalog)
+  assert.deepEqual(
+    catalog.seasons.map((season) => [season.id, season.name, season.path]),
+    [
+      ['s2', 'Season 2', 'seasons/s2/'],
+      ['s1', 's1', 'seasons/s1/'],
+    ],
+  )
+  assert.equal(catalog.seasons[0].characterCount, 4)
+  assert.equal(catalog.seasons[1].period, undefined)
+  assert.equal(normalizeSeasonCatalog({ seasons: [] }), null)
+  assert.equal(normalizeSeasonCatalog(null), null)
+})
+
+test('resolveSeasonEntry falls back to the first season and builds data urls', () => {
+  const catalog = normalizeSeasonCatalog({
+    seasons: [
+      { id: 's2', path: 'seasons/s2/' },
+      { id: 's1', path: 'seasons/s1/' },
+    ],
+  })
+
+  assert.equal(resolveSeasonEntry(catalog, 's1')?.id, 's1')
+  assert.equal(resolveSeasonEntry(catalog, 'missing')?.id, 's2')
+  assert.equal(resolveSeasonEntry(null, 's1'), null)
+
+  assert.deepEqual(getSeasonDataUrls('/app/data/', resolveSeasonEntry(catalog, 's1')), {
+    tracks: '/app/data/seasons/s1/tracks.json',
+    tracksBinary: '/app/data/seasons/s1/tracks.bin',
+    trackChunks: '/app/data/seasons/s1/chunks/',
+    snapshot: '/app/data/seasons/s1/snapshot.json',
+  })
+  assert.deepEqual(getSeasonDataUrls('/app/data/', null), {
+    tracks: '/app/data/tracks.json',
+    tracksBinary: '/app/data/tracks.bin',
+    trackChunks: '/app/data/chunks/',
+    snapshot: '/app/data/snapshot.json',
+  })
+})
+
+test('season id round-trips through the location hash', () => {
+  assert.equal(getHashPath('#/map?season=s1'), '#/map')
+  assert.equal(getHashPath('#/ranking'), '#/ranking')
+  assert.equal(readSeasonIdFromHash('#/map?season=s1'), 's1')
+  assert.equal(readSeasonIdFromHash('#/map'), '')
+  assert.equal(withSeasonInHash('#/map', 's2'), '#/map?season=s2')
+  assert.equal(withSeasonInHash('#/map?season=s1', 's2'), '#/map?season=s2')
+  assert.equal(withSeasonInHash('#/map?season=s1', ''), '#/map')
+})
@@ -1,11 +1,55 @@
 import test from 'node:test'
 import assert from 'node:assert/strict'
 import {
+  crossesOfflineGap,
+  getCharacterOnlineIntervals,
   getCurrentOnlineIntervalStart,
   getNearestOnlineTimeForCharacters,
+  getPointAtTime,
   selectTrackingCharacter,
   type CharacterTrack,
 } from '../src/features/domain/characters.js'
+import {
+  buildMovementSegments,
+  classifyMovementSpeed,
+  getMovementSegmentAtTime,
+  summarizeMovementModes,
+} from '../src/features/domain/movement.js'
+import { detectAnomalies } from '../src/features/domain/anomalies.js'
+import { detectEncounters } from '../src/features/domain/encounters.js'
+import { detectBases, detectStayPoints } from '../src/features/domain/stays.js'
+import { buildPointHeatmap, buildPresenceHeatmap } from '../src/features/domain/heatmap.js'
+import {
+  countCharacterCoverageCells,
+  countCoveredCells,
+  createCoverageGrid,
+  getCoverageRatio,
+} from '../src/features/domain/coverage.js'
+import {
+  computeTrackMetrics,
+  summarizePlayerTrackMetrics,
+} from '../src/features/domain/trackMetrics.js'
+import {
+  buildCharacterSessions,
+  buildPlayerSessionSummaries,
+} from '../src/features/domain/sessions.js'
+import {
+  buildTrailLods,
+  selectTrailLod,
+  simplifyPolylineIndexes,
+  TRAIL_RUN_BREAK,
+} from '../src/features/domain/simplify.js'
+import {
+  createTrackSpatialIndex,
+  queryTrackIndexBounds,
+  queryTrackIndexRadius,
+  queryTrackIndexTimeRange,
+} from '../src/features/domain/spatialIndex.js'
+import {
+  resolveOfflineThresholdSec,
+  resolveTracksPeriod,
+  resolveTracksTimeZone,
+} from '../src/features/domain/tracks.js'
 
 function createCharacter(
   charName: string,
@@ -60,6 +104,75 @@ test('getCurrentOnlineIntervalStart returns the current online segment start', (
   assert.equal(getCurrentOnlineIntervalStart(character, 250), 220)
 })
 
+test('getCurrentOnlineIntervalStart merges gaps shorter than a given threshold', () => {
+  const character = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    300,
+    [
+      [0, 0, 0],
+      [100, 10, 10],
+      [200, 20, 20],
+      [300, 30, 30],
+    ],
+    [[100, 220]],
+  )
+
+  assert.equal(getCurrentOnlineIntervalStart(character, 250, 60), 220)
+  assert.equal(getCurrentOnlineIntervalStart(character, 250, 180), 0)
+})
+
+test('offline helpers ignore gaps shorter than the threshold', () => {
+  const character = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    10_000,
+    [
+      [0, 0, 0],
+      [1_000, 10, 10],
+      [4_000, 20, 20],
+      [10_000, 30, 30],
+    ],
+    [[1_000, 4_000]],
+  )
+
+  assert.equal(getPointAtTime(character, 2_000)?.offline, false)
+  assert.equal(getPointAtTime(character, 2_000, 1_800)?.offline, true)
+  assert.equal(crossesOfflineGap(character.gaps.offline, 500, 1_500), false)
+  assert.equal(crossesOfflineGap(character.gaps.offline, 500, 1_500, 1_800), true)
+  assert.deepEqual(getCharacterOnlineIntervals(character), [
+    { start: 0, end: 1_000 },
+    { start: 4_000, end: 10_000 },
+  ])
+  assert.deepEqual(getCharacterOnlineIntervals(character, 1_800), [
+    { start: 0, end: 1_000 },
+    { start: 4_000, end: 10_000 },
+  ])
+  assert.deepEqual(getCharacterOnlineIntervals(character, 7_200), [{ start: 0, end: 10_000 }])
+})
+
+test('getPointAtTime supports step, linear and spline interpolation with a snap distance', () => {
+  const character = createCharacter('alice-1', 'alice', 0, 100, [
+    [0, 0, 0],
+    [10, 10, 0],
+    [20, 20, 10],
+    [30, 220, 10],
+  ])
+
+  const step = getPointAtTime(character, 15, undefined, { mode: 'step' })
+  assert.deepEqual([step?.x, step?.y], [10, 0])
+  const linear = getPointAtTime(character, 15)
+  assert.deepEqual([linear?.x, linear?.y], [15, 5])
+  const spline = getPointAtTime(character, 15, undefined, { mode: 'spline' })
+  assert.equal(spline?.x, 15.625)
+  assert.equal(spline?.y, 5)
+
+  assert.equal(getPointAtTime(character, 24)?.x, 20)
+  assert.equal(getPointAtTime(character, 25, undefined, { snapDistance: 500 })?.x, 120)
+})
+
 test('getNearestOnlineTimeForCharacters finds the closest playable timestamp', () => {
   const first = createCharacter(
     'alpha',
@@ -81,3 +194,611 @@ test('getNearestOnlineTimeForCharacters finds the closest playable timestamp', (
   assert.equal(nearest?.character.charName, 'beta')
   assert.equal(nearest?.time, 220)
 })
+
+test('resolveTracksPeriod reads meta.period and falls back to the legacy periodJST key', () => {
+  assert.deepEqual(
+    resolveTracksPeriod({
+      period: { start: '2026-03-01T00:00:00+09:00', end: '2026-03-31T23:00:00+09:00' },
+    }),
+    { start: 1772290800, end: 1774965600 },
+  )
+  assert.deepEqual(
+    resolveTracksPeriod({
+      periodJST: { start: '2026-02-01T21:00:00+09:00', end: '2026-02-28T23:00:00+09:00' },
+    }),
+    { start: 1769947200, end: 1772287200 },
+  )
+})
+
+test('resolveTracksPeriod derives the range from character lives when meta has no period', () => {
+  const first = createCharacter('alpha', 'p1', 100, 200, [[100, 0, 0]])
+  const second = createCharacter('beta', 'p2', 50, 150, [[50, 0, 0]])
+
+  assert.deepEqual(resolveTracksPeriod({}, [first, second]), { start: 50, end: 200 })
+  assert.equal(resolveTracksPeriod({}, []), null)
+})
+
+test('resolveTracksTimeZone ignores unknown zones', () => {
+  assert.equal(resolveTracksTimeZone({ timezone: 'Europe/Berlin' }), 'Europe/Berlin')
+  assert.equal(resolveTracksTimeZone({ timezone: 'Not/AZone' }), 'Asia/Tokyo')
+  assert.equal(resolveTracksTimeZone(null), 'Asia/Tokyo')
+})
+
+test('resolveOfflineThresholdSec prefers the override, then meta.offlineGapSec', () => {
+  assert.equal(resolveOfflineThresholdSec({ offlineGapSec: 1_800 }, 3_600), 3_600)
+  assert.equal(resolveOfflineThresholdSec({ offlineGapSec: 1_800 }, null), 1_800)
+  assert.equal(resolveOfflineThresholdSec({ offlineGapSec: -1 }), 7_200)
+  assert.equal(resolveOfflineThresholdSec(null), 7_200)
+})
+
+test('track spatial index answers radius, bounding box and time range queries', () => {
+  const walker = createCharacter('walker', 'p1', 0, 100, [
+    [0, 0, 0],
+    [100, 100, 0],
+  ])
+  const camper = createCharacter('camper', 'p2', 0, 100, [
+    [0, 500, 500],
+    [100, 500, 500],
+  ])
+  const late = createCharacter('late', 'p3', 200, 300, [
+    [200, 50, 0],
+    [300, 60, 0],
+  ])
+  const index = createTrackSpatialIndex([walker, camper, late], { cellSize: 64 })
+
+  const atMidpoint = queryTrackIndexRadius(index, 50, 3, 5, { time: { start: 50, end: 50 } })
+  assert.deepEqual(
+    atMidpoint.map((hit) => hit.charName),
+    ['walker'],
+  )
+  assert.equal(atMidpoint[0].time, 50)
+  assert.equal(queryTrackIndexRadius(index, 50, 3, 5, { time: { start: 0, end: 10 } }).length, 0)
+
+  assert.deepEqual(
+    queryTrackIndexBounds(index, { minX: 40, minY: -10, maxX: 70, maxY: 10 }),
+    [
+      { charName: 'walker', start: 40, end: 70 },
+      { charName: 'late', start: 200, end: 300 },
+    ],
+  )
+  assert.deepEqual(
+    queryTrackIndexTimeRange(index, { start: 150, end: 250 }).map((hit) => hit.charName),
+    ['late'],
+  )
+})
+
+test('track spatial index skips offline segments unless asked to include them', () => {
+  const character = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    10_000,
+    [
+      [0, 0, 0],
+      [1_000, 10, 0],
+      [9_000, 20, 0],
+    ],
+    [[1_000, 9_000]],
+  )
+  const index = createTrackSpatialIndex([character])
+  const time = { start: 5_000, end: 5_000 }
+
+  assert.equal(queryTrackIndexRadius(index, 15, 0, 2, { time }).length, 0)
+  assert.equal(queryTrackIndexRadius(index, 15, 0, 2, { time, includeOffline: true }).length, 1)
+})
+
+test('track spatial index follows sparse vehicle travel and splits teleports at the midpoint', () => {
+  const driver = createCharacter('driver-1', 'driver', 0, 1_000, [
+    [0, 0, 0],
+    [60, 600, 0],
+  ])
+  const teleporter = createCharacter('teleporter-1', 'teleporter', 0, 1_000, [
+    [0, 0, 1_000],
+    [2, 600, 1_000],
+  ])
+  const index = createTrackSpatialIndex([driver, teleporter])
+
+  assert.deepEqual(
+    queryTrackIndexRadius(index, 300, 0, 5, { time: { start: 30, end: 30 } }).map(
+      (hit) => hit.charName,
+    ),
+    ['driver-1'],
+  )
+  assert.equal(queryTrackIndexRadius(index, 0, 0, 5, { time: { start: 30, end: 30 } }).length, 0)
+  assert.equal(
+    queryTrackIndexRadius(index, 0, 1_000, 5, { time: { start: 0.5, end: 0.5 } })[0]?.charName,
+    'teleporter-1',
+  )
+})
+
+test('classifyMovementSpeed separates walking, running, vehicles and teleports', () => {
+  assert.equal(classifyMovementSpeed(0, 10), 'idle')
+  assert.equal(classifyMovementSpeed(15, 10), 'walking')
+  assert.equal(classifyMovementSpeed(50, 10), 'running')
+  assert.equal(classifyMovementSpeed(300, 10), 'vehicle')
+  assert.equal(classifyMovementSpeed(3_000, 10), 'teleport')
+  assert.equal(classifyMovementSpeed(40, 0), 'teleport')
+})
+
+test('movement segments are queryable by time and summarized per mode', () => {
+  const character = createCharacter(
+    'driver',
+    'p1',
+    0,
+    10_000,
+    [
+      [0, 0, 0],
+      [10, 15, 0],
+      [20, 315, 0],
+      [30, 315, 0],
+      [9_000, 320, 0],
+    ],
+    [[30, 9_000]],
+  )
+  const segments = buildMovementSegments(character)
+
+  assert.deepEqual(
+    segments.map((segment) => segment.mode),
+    ['walking', 'vehicle', 'idle', 'idle'],
+  )
+  assert.equal(segments[3].offline, true)
+  assert.equal(getMovementSegmentAtTime(segments, 15)?.mode, 'vehicle')
+  assert.equal(getMovementSegmentAtTime(segments, 5_000), null)
+
+  const summary = summarizeMovementModes(segments)
+  assert.equal(summary.vehicle.distance, 300)
+  assert.equal(summary.idle.durationSec, 10)
+  assert.equal(summarizeMovementModes(segments, { start: 15, end: 20 }).vehicle.distance, 150)
+})
+
+test('simplifyPolylineIndexes keeps endpoints and corners and drops collinear points', () => {
+  const xs = [0, 10, 20, 30, 30, 30]
+  const ys = [0, 0.2, 0, 0, 10, 20]
+
+  assert.deepEqual(simplifyPolylineIndexes(xs, ys, 0, 5, 1), [0, 3, 5])
+  assert.deepEqual(simplifyPolylineIndexes(xs, ys, 0, 5, 0), [0, 1, 2, 3, 4, 5])
+  assert.deepEqual(simplifyPolylineIndexes(xs, ys, 0, 5, 0.05), [0, 1, 2, 3, 5])
+})
+
+test('trail levels of detail break at offline gaps and coarsen as the camera zooms out', () => {
+  const character = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    10_000,
+    [
+      [0, 0, 0],
+      [60, 10, 0],
+      [120, 20, 0],
+      [4_000, 500, 500],
+      [4_060, 510, 503],
+      [4_120, 520, 500],
+    ],
+    [[120, 4_000]],
+  )
+  const lods = buildTrailLods(character, 60)
+
+  assert.deepEqual(lods[0].indexes, [0, 1, 2, TRAIL_RUN_BREAK, 3, 4, 5])
+  assert.deepEqual(lods[lods.length - 1].indexes, [0, 2, TRAIL_RUN_BREAK, 3, 5])
+  assert.equal(selectTrailLod(lods, 0.5)?.tolerance, 0)
+  assert.equal(selectTrailLod(lods, 100)?.tolerance, 64)
+})
+
+test('trail levels of detail split at movement mode changes when colored by movement', () => {
+  const character = createCharacter('alice-1', 'alice', 0, 240, [
+    [0, 0, 0],
+    [60, 60, 0],
+    [120, 120, 0],
+    [180, 1_200, 0],
+    [240, 2_280, 0],
+  ])
+
+  const coarsest = (lods: ReturnType<typeof buildTrailLods>) => lods[lods.length - 1].indexes
+  assert.deepEqual(coarsest(buildTrailLods(character, 600)), [0, 4])
+  assert.deepEqual(coarsest(buildTrailLods(character, 600, true)), [0, 2, TRAIL_RUN_BREAK, 2, 4])
+})
+
+test('detectStayPoints finds places a character lingered and breaks at offline gaps', () => {
+  const character = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    20_000,
+    [
+      [0, 1_000, 1_000],
+      [600, 1_005, 1_000],
+      [1_800, 1_000, 1_010],
+      [1_900, 1_400, 1_400],
+      [2_000, 1_400, 1_400],
+      [12_000, 1_400, 1_402],
+      [13_000, 1_401, 1_400],
+    ],
+    [[2_000, 12_000]],
+  )
+
+  const stays = detectStayPoints(character, { minDurationSec: 900 })
+  assert.deepEqual(
+    stays.map((stay) => [stay.start, stay.end]),
+    [
+      [0, 1_800],
+      [12_000, 13_000],
+    ],
+  )
+  assert.equal(stays[0].durationSec, 1_800)
+})
+
+test('detectBases clusters stays across characters and lists visitors', () => {
+  const stayAt = (charName: string, playerName: string, start: number, x: number) =>
+    createCharacter(charName, playerName, start, start + 3_600, [
+      [start, x, 500],
+      [start + 1_800, x + 5, 500],
+      [start + 3_600, x, 505],
+    ])
+  const bases = detectBases(
+    [
+      stayAt('alice-1', 'alice', 0, 500),
+      stayAt('alice-2', 'alice', 10_000, 520),
+      stayAt('bob-1', 'bob', 20_000, 510),
+      stayAt('carol-1', 'carol', 0, 5_000),
+    ],
+    { minDwellSec: 2 * 3_600 },
+  )
+
+  assert.equal(bases.length, 1)
+  assert.equal(bases[0].visitCount, 3)
+  assert.equal(bases[0].dwellSec, 3 * 3_600)
+  assert.equal(bases[0].firstVisit, 0)
+  assert.equal(bases[0].lastVisit, 23_600)
+  assert.deepEqual(
+    bases[0].visitors.map((visitor) => [visitor.playerName, visitor.charNames]),
+    [
+      ['alice', ['alice-1', 'alice-2']],
+      ['bob', ['bob-1']],
+    ],
+  )
+})
+
+test('detectEncounters finds intervals when two online characters stay close', () => {
+  const alice = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    3_000,
+    [0, 600, 1_200, 1_800, 2_400, 3_000].map((t): [number, number, number] => [t, t / 10, 0]),
+  )
+  const bob = createCharacter('bob-1', 'bob', 0, 3_000, [
+    [0, 100, 5],
+    [1_000, 100, 5],
+    [1_600, 160, 5],
+    [2_200, 220, 5],
+    [3_000, 220, 5],
+  ])
+  const far = createCharacter('carol-1', 'carol', 0, 3_000, [
+    [0, 5_000, 5_000],
+    [3_000, 5_000, 5_000],
+  ])
+
+  const encounters = detectEncounters([far, bob, alice], { minDurationSec: 300, stepSec: 60 })
+  assert.equal(encounters.length, 1)
+  assert.deepEqual(encounters[0].participants, ['alice-1', 'bob-1'])
+  assert.deepEqual(encounters[0].playerNames, ['alice', 'bob'])
+  assert.equal(encounters[0].start, 960)
+  assert.equal(encounters[0].end, 2_280)
+  assert.deepEqual(
+    detectEncounters([far, bob, alice], {
+      minDurationSec: 300,
+      stepSec: 60,
+      focusCharNames: new Set(['bob-1']),
+    }),
+    encounters,
+  )
+  assert.deepEqual(
+    detectEncounters([far, bob, alice], { focusCharNames: new Set(['carol-1']) }),
+    [],
+  )
+})
+
+test('detectEncounters ignores characters that are offline at the same place', () => {
+  const alice = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    20_000,
+    [
+      [0, 0, 0],
+      [20_000, 0, 0],
+    ],
+    [[0, 20_000]],
+  )
+  const bob = createCharacter('bob-1', 'bob', 0, 20_000, [
+    [0, 0, 0],
+    [20_000, 0, 0],
+  ])
+
+  assert.deepEqual(detectEncounters([alice, bob]), [])
+})
+
+test('detectAnomalies flags teleports, impossible speeds and out-of-bounds samples', () => {
+  const character = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    10_000,
+    [
+      [0, 1_000, 1_000],
+      [60, 1_000, 1_000],
+      [62, 1_500, 1_000],
+      [120, 1_510, 1_000],
+      [121, 1_590, 1_000],
+      [180, 1_595, 1_000],
+      [240, 1_600, 1_000],
+      [241, 1_600, 3_000],
+      [300, 1_600, 3_000],
+      [360, 1_600, 3_000],
+      [361, 1_600, 1_000],
+    ],
+  )
+  character.events = [{ t: 361, type: 'respawn', x: 1_600, y: 1_000 }]
+
+  const anomalies = detectAnomalies([character], {
+    worldRange: { minX: 0, minY: 0, maxX: 2_000, maxY: 2_000 },
+  })
+
+  assert.deepEqual(
+    anomalies.map((anomaly) => [anomaly.kind, anomaly.time, anomaly.count]),
+    [
+      ['teleport', 60, 1],
+      ['impossible-speed', 120, 1],
+      ['teleport', 240, 1],
+      ['out-of-bounds', 241, 3],
+    ],
+  )
+})
+
+test('detectAnomalies ignores jumps across offline gaps and reports duplicate positions', () => {
+  const alice = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    10_000,
+    [
+      [0, 100, 100],
+      [60, 100, 100],
+      [8_000, 900, 900],
+      [8_060, 900, 900],
+    ],
+    [[60, 8_000]],
+  )
+  const bob = createCharacter('bob-1', 'bob', 0, 10_000, [
+    [0, 100, 100],
+    [60, 100, 100],
+    [120, 101, 100],
+  ])
+
+  const anomalies = detectAnomalies([bob, alice])
+
+  assert.equal(anomalies.length, 1)
+  assert.equal(anomalies[0].kind, 'duplicate-position')
+  assert.equal(anomalies[0].charName, 'alice-1')
+  assert.equal(anomalies[0].otherCharName, 'bob-1')
+  assert.equal(anomalies[0].count, 2)
+  assert.equal(anomalies[0].endTime, 60)
+})
+
+test('sessions split at offline gaps and carry distance, places and events', () => {
+  const alice = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    10_000,
+    [
+      [0, 0, 0],
+      [60, 30, 40],
+      [120, 30, 40],
+      [8_000, 500, 500],
+      [8_060, 500, 520],
+      [10_000, 500, 520],
+    ],
+    [[120, 8_000]],
+  )
+  alice.events = [
+    { t: 60, type: 'vehicleEnter', x: 30, y: 40 },
+    { t: 8_000, type: 'login', x: 500, y: 500 },
+  ]
+  const aliceAlt = createCharacter('alice-2', 'alice', 20_000, 20_100, [
+    [20_000, 0, 0],
+    [20_100, 0, 0],
+  ])
+
+  const sessions = buildCharacterSessions(alice)
+  assert.equal(sessions.length, 2)
+  assert.deepEqual(
+    sessions.map((session) => [session.start, session.end, session.distance]),
+    [
+      [0, 120, 50],
+      [8_000, 10_000, 20],
+    ],
+  )
+  assert.deepEqual(sessions[1].startPlace, { x: 500, y: 500 })
+  assert.deepEqual(sessions[1].endPlace, { x: 500, y: 520 })
+  assert.deepEqual(
+    sessions.map((session) => session.events.map((event) => event.type)),
+    [['vehicleEnter'], ['login']],
+  )
+  assert.equal(sessions[0].areaCovered, 200)
+
+  const [summary] = buildPlayerSessionSummaries([alice, aliceAlt])
+  assert.equal(summary.sessionCount, 3)
+  assert.equal(summary.totalDurationSec, 120 + 2_000 + 100)
+  assert.equal(summary.longestSession?.id, sessions[1].id)
+})
+
+test('session distance counts vehicle travel and skips teleports like the movement modes', () => {
+  const driver = createCharacter('driver-1', 'driver', 0, 1_000, [
+    [0, 0, 0],
+    [60, 600, 0],
+    [61, 1_200, 0],
+    [120, 1_230, 40],
+  ])
+
+  const [session] = buildCharacterSessions(driver)
+  assert.equal(session.distance, 600 + 50)
+})
+
+test('track metrics skip teleports and offline gaps and count visited map cells', () => {
+  const alice = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    20_000,
+    [
+      [0, 100, 100],
+      [60, 130, 140],
+      [61, 130, 640],
+      [180, 130, 660],
+      [10_000, 430, 660],
+      [10_060, 430, 700],
+    ],
+    [[180, 10_000]],
+  )
+  const aliceAlt = createCharacter('alice-2', 'alice', 30_000, 30_100, [
+    [30_000, 1_000, 100],
+    [30_100, 1_000, 100],
+  ])
+
+  const metrics = computeTrackMetrics(alice)
+  assert.equal(metrics.distance, 50 + 20 + 40)
+  assert.equal(metrics.maxDistanceFromSpawn, Math.hypot(330, 600))
+  assert.equal(metrics.boundingArea, 330 * 600)
+  assert.deepEqual([...metrics.visitedCells].sort(), ['0,0', '0,2', '1,2'])
+
+  const [summary] = summarizePlayerTrackMetrics([alice, aliceAlt])
+  assert.deepEqual(summary.charNames, ['alice-1', 'alice-2'])
+  assert.equal(summary.distance, 110)
+  assert.equal(summary.boundingArea, 900 * 600)
+  assert.equal(summary.visitedCellCount, 4)
+})
+
+test('track metrics count sparse vehicle travel that is not a teleport', () => {
+  const driver = createCharacter('driver-1', 'driver', 0, 1_000, [
+    [0, 0, 0],
+    [60, 600, 0],
+    [61, 1_200, 0],
+  ])
+
+  assert.equal(computeTrackMetrics(driver).distance, 600)
+})
+
+test('coverage grid reveals cells along tracks by their first visit time', () => {
+  const alice = createCharacter('alice-1', 'alice', 0, 1_000, [
+    [0, 10, 10],
+    [100, 90, 10],
+    [200, 90, 60],
+  ])
+  const bob = createCharacter('bob-1', 'bob', 0, 1_000, [
+    [50, 160, 160],
+    [60, 160, 160],
+  ])
+
+  const grid = createCoverageGrid([alice, bob], {
+    cellSize: 50,
+    worldRange: { minX: 0, minY: 0, maxX: 200, maxY: 200 },
+  })
+  assert.ok(grid)
+  assert.equal(grid.columns * grid.rows, 25)
+  assert.equal(countCoveredCells(grid, 0), 1)
+  assert.equal(countCoveredCells(grid, 49), 1)
+  assert.equal(countCoveredCells(grid, 50), 3)
+  assert.equal(countCoveredCells(grid, 1_000), 4)
+  assert.equal(getCoverageRatio(grid, 1_000), 4 / 25)
+  assert.equal(countCharacterCoverageCells([alice], undefined, 50), 3)
+})
+
+test('coverage grid keeps the cell on the max edge of the world range', () => {
+  const edge = createCharacter('edge-1', 'edge', 0, 1_000, [
+    [0, 200, 200],
+    [10, 200, 200],
+  ])
+
+  const grid = createCoverageGrid([edge], {
+    cellSize: 50,
+    worldRange: { minX: 0, minY: 0, maxX: 200, maxY: 200 },
+  })
+  assert.ok(grid)
+  assert.equal(grid.columns, 5)
+  assert.equal(grid.rows, 5)
+  assert.equal(countCoveredCells(grid, 1_000), 1)
+  assert.equal(grid.firstVisit[grid.columns * grid.rows - 1], 0)
+})
+
+test('coverage reveals cells along sparse vehicle travel but not across teleports', () => {
+  const driver = createCharacter('driver-1', 'driver', 0, 1_000, [
+    [0, 0, 0],
+    [60, 600, 0],
+  ])
+  const teleporter = createCharacter('teleporter-1', 'teleporter', 0, 1_000, [
+    [0, 0, 0],
+    [1, 600, 0],
+  ])
+
+  assert.equal(countCharacterCoverageCells([driver], undefined, 50), 13)
+  assert.equal(countCharacterCoverageCells([teleporter], undefined, 50), 2)
+})
+
+test('presence heatmap accumulates online time per cell inside the range', () => {
+  const alice = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    100_000,
+    [
+      [0, 10, 10],
+      [600, 10, 10],
+      [602, 150, 10],
+      [20_000, 150, 10],
+      [20_600, 150, 10],
+    ],
+    [[602, 20_000]],
+  )
+  const worldRange = { minX: 0, minY: 0, maxX: 200, maxY: 200 }
+
+  const allTime = buildPresenceHeatmap([alice], worldRange, { cellSize: 100 })
+  assert.deepEqual([...allTime.values], [601, 601, 0, 0, 0, 0, 0, 0, 0])
+  assert.equal(allTime.max, 601)
+
+  const windowed = buildPresenceHeatmap([alice], worldRange, {
+    cellSize: 100,
+    range: { start: 300, end: 20_300 },
+  })
+  assert.deepEqual([...windowed.values], [301, 301, 0, 0, 0, 0, 0, 0, 0])
+})
+
+test('presence heatmap spreads sparse vehicle travel along the path', () => {
+  const driver = createCharacter('driver-1', 'driver', 0, 1_000, [
+    [0, 50, 50],
+    [20, 250, 50],
+  ])
+
+  const grid = buildPresenceHeatmap([driver], { minX: 0, minY: 0, maxX: 300, maxY: 100 }, {
+    cellSize: 100,
+  })
+  assert.deepEqual([...grid.values.slice(0, 3)], [5, 10, 5])
+})
+
+test('point heatmap counts events inside the range', () => {
+  const grid = buildPointHeatmap(
+    'deaths',
+    [
+      { x: 10, y: 10, time: 10 },
+      { x: 20, y: 30, time: 20 },
+      { x: 150, y: 150, time: 30 },
+      { x: 150, y: 150, time: 500 },
+      { x: 200, y: 200, time: 40 },
+    ],
+    { minX: 0, minY: 0, maxX: 200, maxY: 200 },
+    { cellSize: 100, range: { start: 0, end: 100 } },
+  )
+  assert.equal(grid.columns, 3)
+  assert.deepEqual([...grid.values], [2, 0, 0, 0, 1, 0, 0, 0, 1])
+  assert.equal(grid.max, 2)
+})
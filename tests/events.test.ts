@@ -8,7 +8,9 @@ import {
   getEventTimeLabel,
   isPlayerRespawnVisible,
 } from '../src/features/events/events.js'
+import { clusterDeathHotspots, getLocalHour } from '../src/features/events/hotspots.js'
 import type { CharacterTrack } from '../src/features/domain/characters.js'
+import type { Encounter } from '../src/features/domain/encounters.js'
 
 function createCharacter(
   charName: string,
@@ -61,6 +63,7 @@ test('filterActiveEventPoints respects time window and visibility toggles', () =
       logout: false,
       death: true,
       logoutMaybe: false,
+      encounter: false,
     },
     visibility: { 'alice-1': true },
     overlayMode: 'normal',
@@ -121,3 +124,149 @@ test('buildAllEventPoints adds login and logout around offline gaps', () => {
   assert.equal(allPoints.some((point) => point.kind === 'logout' && point.time === 10), true)
   assert.equal(allPoints.some((point) => point.kind === 'login' && point.time === 100), true)
 })
+
+test('buildCharacterTerminalInfoMap prefers a logged death over inference', () => {
+  const character = createCharacter('alice-1', 'alice', 0, 100, [
+    [0, 0, 0],
+    [100, 10, 10],
+  ])
+  character.events = [{ t: 90, type: 'death', x: 8, y: 9 }]
+
+  const info = buildCharacterTerminalInfoMap([character]).get('alice-1')
+  assert.equal(info?.terminalType, 'death')
+  assert.equal(info?.terminalTime, 90)
+  assert.deepEqual([info?.x, info?.y], [8, 9])
+})
+
+test('buildAllEventPoints replaces inferred sessions with logged events', () => {
+  const character = createCharacter(
+    'alice-1',
+    'alice',
+    0,
+    10000,
+    [
+      [0, 0, 0],
+      [100, 10, 10],
+      [9000, 20, 20],
+      [10000, 30, 30],
+    ],
+    [[100, 9000]],
+  )
+  character.events = [
+    { t: 150, type: 'logout', x: null, y: null },
+    { t: 8900, type: 'login', x: 15, y: 15 },
+    { t: 10050, type: 'logout', x: 30, y: 30 },
+    { t: 500, type: 'vehicleEnter', x: 10, y: 10 },
+  ]
+
+  const points = buildAllEventPoints([character], buildCharacterTerminalInfoMap([character]))
+  const summary = points
+    .map((point) => `${point.kind}@${point.time}:${point.x},${point.y}`)
+    .sort()
+
+  assert.deepEqual(summary, [
+    'login@8900:15,15',
+    'logout@10050:30,30',
+    'logout@150:10,10',
+    'respawn@0:0,0',
+  ])
+})
+
+test('encounter points need every participant to be visible', () => {
+  const encounter: Encounter = {
+    id: 'encounter:alice-1:bob-1:100',
+    start: 100,
+    end: 700,
+    durationSec: 600,
+    x: 10,
+    y: 20,
+    participants: ['alice-1', 'bob-1'],
+    playerNames: ['alice', 'bob'],
+  }
+  const points = buildAllEventPoints([], new Map(), [encounter])
+  assert.deepEqual(points, [
+    {
+      id: 'encounter:alice-1:bob-1:100',
+      kind: 'encounter',
+      charName: 'alice-1',
+      playerName: 'alice',
+      x: 10,
+      y: 20,
+      time: 100,
+      participants: ['alice-1', 'bob-1'],
+      endTime: 700,
+    },
+  ])
+
+  const options = {
+    visibleEventKinds: {
+      respawn: true,
+      login: true,
+      logout: true,
+      death: true,
+      logoutMaybe: true,
+      encounter: true,
+    },
+    overlayMode: 'events' as const,
+    currentTime: 100,
+    visibleRange: { start: 0, end: 1_000 },
+    playbackSpeed: 1,
+  }
+  assert.equal(filterActiveEventPoints(points, { ...options, visibility: {} }).length, 1)
+  assert.equal(
+    filterActiveEventPoints(points, { ...options, visibility: { 'bob-1': false } }).length,
+    0,
+  )
+  assert.equal(getEventKindLabel('encounter'), 'エンカウント')
+})
+
+test('clusterDeathHotspots groups nearby deaths and ranks them by count', () => {
+  const death = (id: string, charName: string, x: number, y: number, time: number) => ({
+    id,
+    kind: 'death' as const,
+    charName,
+    playerName: charName.split('-')[0],
+    x,
+    y,
+    time,
+  })
+  const points = [
+    death('d1', 'alice-1', 100, 100, 3_600),
+    death('d2', 'bob-1', 110, 95, 7_200),
+    death('d3', 'carol-1', 90, 105, 3_700),
+    death('d4', 'alice-2', 1_000, 1_000, 10_000),
+    death('d5', 'bob-2', 1_020, 1_000, 12_000),
+    death('d6', 'dave-1', 5_000, 5_000, 20_000),
+    { ...death('l1', 'erin-1', 100, 100, 4_000), kind: 'login' as const },
+  ]
+  const hotspots = clusterDeathHotspots(points, { timeZone: 'UTC' })
+
+  assert.deepEqual(
+    hotspots.map((hotspot) => [hotspot.id, hotspot.count]),
+    [
+      ['hotspot:d1', 3],
+      ['hotspot:d4', 2],
+    ],
+  )
+  assert.deepEqual(
+    clusterDeathHotspots(
+      points.filter((point) => point.charName !== 'bob-1' && point.charName !== 'carol-1'),
+    ).map((hotspot) => hotspot.id),
+    ['hotspot:d4'],
+  )
+  assert.equal(hotspots[0].x, 100)
+  assert.equal(hotspots[0].y, 100)
+  assert.equal(hotspots[0].firstTime, 3_600)
+  assert.equal(hotspots[0].lastTime, 7_200)
+  assert.deepEqual(
+    hotspots[0].victims.map((victim) => victim.charName),
+    ['alice-1', 'carol-1', 'bob-1'],
+  )
+  assert.equal(hotspots[0].hourCounts[1], 2)
+  assert.equal(hotspots[0].hourCounts[2], 1)
+  assert.equal(
+    clusterDeathHotspots([death('d7', 'erin-1', 0, 0, 0)], { minCount: 1 })[0].radius,
+    10,
+  )
+  assert.equal(getLocalHour(0, 'Asia/Tokyo'), 9)
+})
@@ -1,4 +1,10 @@
+import './builder.test.js'
+import './catalog.test.js'
 import './domain.test.js'
 import './events.test.js'
+import './loader.test.js'
+import './profile.test.js'
 import './ranking.test.js'
+import './stats.test.js'
 import './timeline.test.js'
+import './validation.test.js'
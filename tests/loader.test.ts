@@ -0,0 +1,212 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import { encodeBinaryTracks } from '../src/features/loader/binaryTracks.js'
+import {
+  createBinaryTracksDecoder,
+  getTracksLoadRatio,
+} from '../src/features/loader/tracksLoader.js'
+import {
+  getTrackChunkCharacterNames,
+  getTrackChunksInRange,
+  mergeTrackChunks,
+  remergeTrackChunkCharacters,
+  type TrackChunk,
+  type TrackChunkIndex,
+} from '../src/features/loader/trackChunks.js'
+import { getLatestTrackTime, mergeLiveTracks } from '../src/features/loader/liveTracks.js'
+import type { CharacterTrack } from '../src/features/domain/characters.js'
+
+function createCharacter(
+  charName: string,
+  samples: Array<[number, number, number]>,
+): CharacterTrack {
+  return {
+    charName,
+    playerName: `${charName}-player`,
+    life: { start: samples[0][0], end: samples[samples.length - 1][0] },
+    track: {
+      t: samples.map(([t]) => t),
+      x: samples.map(([, x]) => x),
+      y: samples.map(([, , y]) => y),
+    },
+    gaps: { offline: [] },
+  }
+}
+
+function encodeTracks(characters: CharacterTrack[]) {
+  return encodeBinaryTracks({
+    meta: { timezone: 'Asia/Tokyo' },
+    characters: Object.fromEntries(characters.map((character) => [character.charName, character])),
+  })
+}
+
+test('createBinaryTracksDecoder decodes delta-encoded tracks streamed byte by byte', () => {
+  const alice = createCharacter('alice', [
+    [1700000000, 5000, 6000],
+    [1700000060, 4990, 6010],
+    [1700000120, 5020, 5995],
+  ])
+  const bob = createCharacter('bob', [[1700000300, 7000, 8000]])
+  bob.events = [{ t: 1700000400, type: 'death', x: 7000, y: 8000 }]
+  const bytes = encodeTracks([alice, bob])
+
+  const decoder = createBinaryTracksDecoder()
+  const decoded: CharacterTrack[] = []
+  for (let index = 0; index < bytes.byteLength; index += 1) {
+    decoded.push(...decoder.push(bytes.subarray(index, index + 1)))
+  }
+
+  assert.deepEqual(decoder.finish().meta, { timezone: 'Asia/Tokyo' })
+  assert.deepEqual(decoded, [alice, bob])
+})
+
+test('createBinaryTracksDecoder rejects foreign and truncated data', () => {
+  const foreign = createBinaryTracksDecoder()
+  assert.throws(
+    () => foreign.push(new TextEncoder().encode('<!doctype html><html>')),
+    /binary-tracks-invalid-magic/,
+  )
+
+  const bytes = encodeTracks([createCharacter('alice', [[0, 1, 2], [10, 3, 4]])])
+  const truncated = createBinaryTracksDecoder()
+  assert.deepEqual(truncated.push(bytes.subarray(0, bytes.byteLength - 1)), [])
+  assert.throws(() => truncated.finish(), /binary-tracks-truncated/)
+})
+
+test('getTracksLoadRatio falls back to character counts without a byte total', () => {
+  assert.equal(getTracksLoadRatio(null), 0)
+  assert.equal(
+    getTracksLoadRatio({ loadedBytes: 50, totalBytes: 200, loadedCharacters: 0, totalCharacters: 4 }),
+    0.25,
+  )
+  assert.equal(
+    getTracksLoadRatio({ loadedBytes: 50, totalBytes: null, loadedCharacters: 3, totalCharacters: 4 }),
+    0.75,
+  )
+})
+
+test('getTrackChunksInRange and mergeTrackChunks combine the summary skeleton with loaded days', () => {
+  const index: TrackChunkIndex = {
+    version: 1,
+    meta: {},
+    chunks: [
+      { id: 'd1', start: 0, end: 100, file: 'd1.json', sampleCount: 3 },
+      { id: 'd2', start: 100, end: 200, file: 'd2.json', sampleCount: 2 },
+      { id: 'd3', start: 200, end: 300, file: 'd3.json', sampleCount: 1 },
+    ],
+    characters: {
+      alice: createCharacter('alice', [
+        [10, 1, 1],
+        [250, 9, 9],
+      ]),
+    },
+  }
+  const d2: TrackChunk = {
+    id: 'd2',
+    start: 100,
+    end: 200,
+    characters: { alice: { t: [120, 150], x: [4, 5], y: [4, 5] } },
+  }
+  const d3: TrackChunk = {
+    id: 'd3',
+    start: 200,
+    end: 300,
+    characters: { alice: { t: [250], x: [9], y: [9] } },
+  }
+
+  assert.deepEqual(
+    getTrackChunksInRange(index, 100, 150).map((chunk) => chunk.id),
+    ['d2'],
+  )
+  assert.deepEqual(
+    getTrackChunksInRange(index, 50, 210).map((chunk) => chunk.id),
+    ['d1', 'd2', 'd3'],
+  )
+
+  const skeletonOnly = mergeTrackChunks(index, new Map())
+  assert.deepEqual(skeletonOnly.alice.track.t, [10, 250])
+
+  const merged = mergeTrackChunks(
+    index,
+    new Map([
+      ['d3', d3],
+      ['d2', d2],
+    ]),
+  )
+  assert.deepEqual(merged.alice.track, {
+    t: [10, 120, 150, 250],
+    x: [1, 4, 5, 9],
+    y: [1, 4, 5, 9],
+  })
+  assert.equal(merged.alice.life.end, 250)
+})
+
+test('remergeTrackChunkCharacters rebuilds only the named characters', () => {
+  const index: TrackChunkIndex = {
+    version: 1,
+    meta: {},
+    chunks: [{ id: 'd1', start: 0, end: 100, file: 'd1.json', sampleCount: 1 }],
+    characters: {
+      alice: createCharacter('alice', [[10, 1, 1], [90, 9, 9]]),
+      bob: createCharacter('bob', [[20, 2, 2]]),
+    },
+  }
+  const d1: TrackChunk = {
+    id: 'd1',
+    start: 0,
+    end: 100,
+    characters: { alice: { t: [50], x: [5], y: [5] } },
+  }
+  const current = mergeTrackChunks(index, new Map())
+  const loaded = new Map([['d1', d1]])
+
+  const merged = remergeTrackChunkCharacters(
+    index,
+    loaded,
+    current,
+    getTrackChunkCharacterNames([d1]),
+  )
+  assert.deepEqual(merged.alice.track.t, [10, 50, 90])
+  assert.equal(merged.bob, current.bob)
+
+  loaded.delete('d1')
+  const evicted = remergeTrackChunkCharacters(index, loaded, merged, ['alice'])
+  assert.deepEqual(evicted.alice.track.t, [10, 90])
+})
+
+test('mergeLiveTracks appends only newer samples and extends gaps and period', () => {
+  const current = {
+    meta: {
+      offlineGapSec: 100,
+      period: { start: '2026-01-01T00:00:00Z', end: '2026-01-01T00:01:00Z' },
+    },
+    characters: {
+      alice: createCharacter('alice', [
+        [1767225600, 1, 1],
+        [1767225660, 2, 2],
+      ]),
+    },
+  }
+  const incoming = {
+    characters: {
+      alice: createCharacter('alice', [
+        [1767225600, 1, 1],
+        [1767225660, 2, 2],
+        [1767225900, 3, 3],
+      ]),
+      bob: createCharacter('bob', [[1767225700, 5, 5]]),
+    },
+  }
+
+  const result = mergeLiveTracks(current, incoming)
+  assert.equal(result.changed, true)
+  assert.deepEqual(result.addedCharacterNames, ['bob'])
+  assert.deepEqual(result.tracks.characters.alice.track.t, [1767225600, 1767225660, 1767225900])
+  assert.deepEqual(result.tracks.characters.alice.gaps.offline, [[1767225660, 1767225900]])
+  assert.equal(result.tracks.characters.alice.life.end, 1767225900)
+  assert.equal(result.tracks.meta.period?.end, '2026-01-01T00:05:00.000Z')
+  assert.equal(getLatestTrackTime(result.tracks.characters), 1767225900)
+  assert.equal(current.characters.alice.track.t.length, 2)
+
+  assert.equal(mergeLiveTracks(result.tracks, incoming).changed, false)
+})
@@ -0,0 +1,56 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  buildPlayerCharacterLives,
+  getPlayerHash,
+  readPlayerNameFromHashPath,
+} from '../src/features/profile/profile.js'
+import type { CharacterTrack } from '../src/features/domain/characters.js'
+
+function createCharacter(
+  charName: string,
+  playerName: string,
+  start: number,
+  end: number,
+  offline: Array<[number, number]> = [],
+): CharacterTrack {
+  return {
+    charName,
+    playerName,
+    life: { start, end },
+    track: { t: [start, end], x: [0, 10], y: [0, 10] },
+    gaps: { offline },
+  }
+}
+
+test('player hash round-trips names that need encoding', () => {
+  const hash = getPlayerHash('あんぞん #1')
+
+  assert.equal(hash, '#/player/%E3%81%82%E3%82%93%E3%81%9E%E3%82%93%20%231')
+  assert.equal(readPlayerNameFromHashPath(hash), 'あんぞん #1')
+  assert.equal(readPlayerNameFromHashPath('#/player/'), null)
+  assert.equal(readPlayerNameFromHashPath('#/player/%E3'), null)
+  assert.equal(readPlayerNameFromHashPath('#/ranking'), null)
+})
+
+test('buildPlayerCharacterLives orders a player characters with sessions and deaths', () => {
+  const lives = buildPlayerCharacterLives(
+    [
+      createCharacter('alice-2', 'alice', 2_000, 3_000),
+      createCharacter('alice-1', 'alice', 0, 1_500, [[500, 1_000]]),
+      createCharacter('bob-1', 'bob', 0, 3_000),
+    ],
+    'alice',
+    300,
+  )
+
+  assert.deepEqual(
+    lives.map((life) => [life.charName, life.sessions.length, life.onlineSec]),
+    [
+      ['alice-1', 2, 1_000],
+      ['alice-2', 1, 1_000],
+    ],
+  )
+  assert.equal(lives[0].terminalType, 'death')
+  assert.equal(lives[0].terminalTime, 1_500)
+})
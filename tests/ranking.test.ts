@@ -3,6 +3,10 @@ import assert from 'node:assert/strict'
 import {
   buildPlayerPartnerLists,
   buildRankingData,
+  buildPlayerTrackPartners,
+  buildTrackPartnerLists,
+  findPlayerAggregate,
+  findRankingPlacements,
   type SnapshotData,
   type TracksData,
 } from '../src/features/ranking/ranking.js'
@@ -64,6 +68,88 @@ test('buildRankingData uses track durations for mainstay and terminal deaths for
   assert.equal(reaperDotedCard?.sections[0]?.entries[0]?.valueLabel, '1 回')
 })
 
+test('buildRankingData ranks longest sessions and session counts from tracks', () => {
+  const tracksData: TracksData = {
+    characters: {
+      'alice-1': createCharacter(
+        'alice-1',
+        'Alice',
+        0,
+        10_000,
+        [
+          [0, 0, 0],
+          [100, 10, 0],
+          [8_000, 10, 0],
+          [10_000, 20, 0],
+        ],
+        [[100, 8_000]],
+      ),
+      bob: createCharacter('bob', 'Bob', 0, 3_000, [
+        [0, 0, 0],
+        [3_000, 5, 5],
+      ]),
+    },
+  }
+
+  const ranking = buildRankingData(null, tracksData)
+  const longestCard = ranking.playerCards.find((card) => card.id === 'longest-session')
+  const countCard = ranking.playerCards.find((card) => card.id === 'session-count')
+
+  assert.deepEqual(
+    longestCard?.sections[0]?.entries.map((entry) => [entry.label, entry.subLabel]),
+    [
+      ['Bob', 'bob'],
+      ['Alice', 'alice-1'],
+    ],
+  )
+  assert.deepEqual(
+    countCard?.sections[0]?.entries.map((entry) => [entry.label, entry.valueLabel]),
+    [
+      ['Alice', '2 回'],
+      ['Bob', '1 回'],
+    ],
+  )
+})
+
+test('buildRankingData adds track-derived distance cards for characters and players', () => {
+  const tracksData: TracksData = {
+    characters: {
+      'alice-1': createCharacter('alice-1', 'Alice', 0, 100, [
+        [0, 0, 0],
+        [50, 30, 40],
+        [100, 60, 80],
+      ]),
+      bob: createCharacter('bob', 'Bob', 0, 100, [
+        [0, 0, 0],
+        [100, 0, 20],
+      ]),
+    },
+  }
+
+  const ranking = buildRankingData(null, tracksData)
+  const characterTraveler = ranking.characterCards.find((card) => card.id === 'traveler')
+  const playerTraveler = ranking.playerCards.find((card) => card.id === 'traveler')
+  const playerTerritory = ranking.playerCards.find((card) => card.id === 'territory')
+
+  assert.deepEqual(
+    characterTraveler?.sections[0]?.entries.map((entry) => [entry.label, entry.valueLabel]),
+    [
+      ['alice-1', '100 マス'],
+      ['bob', '20 マス'],
+    ],
+  )
+  assert.equal(playerTraveler?.sections[0]?.entries[0]?.label, 'Alice')
+  const explorerCard = ranking.playerCards.find((card) => card.id === 'explorer')
+  assert.deepEqual(
+    explorerCard?.sections.map((section) => section.entries.map((entry) => entry.label)),
+    [['Alice', 'Bob']],
+  )
+  assert.deepEqual(
+    playerTerritory?.sections[0]?.entries.map((entry) => entry.label),
+    ['Alice'],
+  )
+})
+
 test('buildRankingData shows best partner as a single A＆B pair entry', () => {
   const snapshotData: SnapshotData = {
     data: {
@@ -239,3 +325,54 @@ test('buildPlayerPartnerLists returns selected player partners in duration order
   assert.equal(alicePartners?.[1]?.partnerName, 'Bob')
   assert.equal(alicePartners?.[1]?.durationSec, 300)
 })
+
+test('buildTrackPartnerLists sums encounter time between different players', () => {
+  const tracksData: TracksData = {
+    characters: {
+      'alice-1': createCharacter('alice-1', 'alice', 0, 1_200, [
+        [0, 0, 0],
+        [1_200, 0, 0],
+      ]),
+      'alice-2': createCharacter('alice-2', 'alice', 0, 1_200, [
+        [0, 1, 0],
+        [1_200, 1, 0],
+      ]),
+      'bob-1': createCharacter('bob-1', 'bob', 0, 1_200, [
+        [0, 2, 0],
+        [1_200, 2, 0],
+      ]),
+    },
+  }
+
+  const partnerLists = buildTrackPartnerLists(tracksData, { minDurationSec: 60 })
+  assert.deepEqual(partnerLists.get('alice'), [{ partnerName: 'bob', durationSec: 2_400 }])
+  assert.deepEqual(partnerLists.get('bob'), [{ partnerName: 'alice', durationSec: 2_400 }])
+  assert.deepEqual(
+    buildPlayerTrackPartners(tracksData, 'bob', { minDurationSec: 60 }),
+    partnerLists.get('bob'),
+  )
+  assert.deepEqual(buildPlayerTrackPartners(tracksData, 'carol', { minDurationSec: 60 }), [])
+})
+
+test('findRankingPlacements lists the best rank of a player in every section', () => {
+  const snapshotData: SnapshotData = {
+    data: {
+      c1: { name: 'char-1', playerName: 'P1', survivalTime: 3600, socialTime: 7200 },
+      c2: { name: 'char-2', playerName: 'P2', survivalTime: 5400, socialTime: 1800 },
+    },
+  }
+
+  const rankingData = buildRankingData(snapshotData, { characters: {} })
+  const placements = findRankingPlacements(rankingData, 'P1')
+  const social = placements.find((placement) => placement.cardId === 'social')
+  const survivor = placements.find((placement) => placement.cardId === 'survivor')
+
+  assert.equal(placements[0]?.rank, 1)
+  assert.equal(social?.scope, 'character')
+  assert.equal(social?.charName, 'char-1')
+  assert.equal(social?.rank, 1)
+  assert.equal(survivor?.rank, 2)
+  assert.equal(survivor?.total, 2)
+  assert.equal(findPlayerAggregate(rankingData, 'P2')?.totalSurvivalTime, 5400)
+  assert.equal(findPlayerAggregate(rankingData, 'P3'), null)
+})
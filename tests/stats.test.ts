@@ -0,0 +1,97 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  addIntervalToActivityPattern,
+  buildActivityPatterns,
+  buildPeriodActivityPattern,
+  createEmptyActivityPattern,
+  getPeakActivitySlot,
+} from '../src/features/stats/stats.js'
+import type { CharacterTrack } from '../src/features/domain/characters.js'
+
+const MONDAY_MIDNIGHT_UTC = Date.UTC(2024, 0, 1) / 1000
+
+function createCharacter(
+  charName: string,
+  playerName: string,
+  start: number,
+  end: number,
+  offlineGaps: Array<[number, number]> = [],
+): CharacterTrack {
+  return {
+    charName,
+    playerName,
+    life: { start, end },
+    track: { t: [start, end], x: [0, 0], y: [0, 0] },
+    gaps: { offline: offlineGaps },
+  }
+}
+
+test('addIntervalToActivityPattern splits an interval across local hours and weekdays', () => {
+  const pattern = createEmptyActivityPattern()
+  addIntervalToActivityPattern(
+    pattern,
+    { start: MONDAY_MIDNIGHT_UTC - 30 * 60, end: MONDAY_MIDNIGHT_UTC + 90 * 60 },
+    'UTC',
+  )
+
+  assert.equal(pattern.totalSec, 2 * 60 * 60)
+  assert.equal(pattern.slots[0][23], 30 * 60)
+  assert.equal(pattern.slots[1][0], 60 * 60)
+  assert.equal(pattern.slots[1][1], 30 * 60)
+  assert.equal(pattern.weekday[0], 30 * 60)
+  assert.equal(pattern.hourly[0], 60 * 60)
+
+  const jst = createEmptyActivityPattern()
+  addIntervalToActivityPattern(jst, { start: MONDAY_MIDNIGHT_UTC, end: MONDAY_MIDNIGHT_UTC + 60 })
+  assert.equal(jst.slots[1][9], 60)
+})
+
+test('addIntervalToActivityPattern follows the local hour across a DST change', () => {
+  const springForwardUtc = Date.UTC(2024, 2, 10, 7) / 1000
+  const pattern = createEmptyActivityPattern()
+  addIntervalToActivityPattern(
+    pattern,
+    { start: springForwardUtc - 60 * 60, end: springForwardUtc + 60 * 60 },
+    'America/New_York',
+  )
+
+  assert.equal(pattern.totalSec, 2 * 60 * 60)
+  assert.equal(pattern.slots[0][1], 60 * 60)
+  assert.equal(pattern.slots[0][2], 0)
+  assert.equal(pattern.slots[0][3], 60 * 60)
+})
+
+test('buildActivityPatterns aggregates online time per player and server-wide', () => {
+  const start = MONDAY_MIDNIGHT_UTC + 20 * 60 * 60
+  const patterns = buildActivityPatterns(
+    [
+      createCharacter('alice-1', 'alice', start, start + 3 * 60 * 60, [
+        [start + 60 * 60, start + 2 * 60 * 60],
+      ]),
+      createCharacter('alice-2', 'alice', start + 4 * 60 * 60, start + 5 * 60 * 60),
+      createCharacter('bob-1', 'bob', start, start + 60 * 60),
+    ],
+    { timeZone: 'UTC', offlineThresholdSec: 600 },
+  )
+
+  assert.deepEqual(
+    patterns.players.map((player) => [player.playerName, player.charNames, player.totalSec]),
+    [
+      ['alice', ['alice-1', 'alice-2'], 3 * 60 * 60],
+      ['bob', ['bob-1'], 60 * 60],
+    ],
+  )
+  assert.equal(patterns.server.totalSec, 4 * 60 * 60)
+  assert.equal(patterns.server.slots[1][20], 2 * 60 * 60)
+  assert.equal(patterns.server.slots[2][0], 60 * 60)
+  const periodPattern = buildPeriodActivityPattern({ start, end: start + 24 * 60 * 60 }, 'UTC')
+  assert.equal(periodPattern.hourly[5], 60 * 60)
+  assert.deepEqual(getPeakActivitySlot(patterns.server, periodPattern), {
+    weekday: 1,
+    hour: 20,
+    seconds: 2 * 60 * 60,
+    average: 2,
+  })
+  assert.equal(getPeakActivitySlot(createEmptyActivityPattern()), null)
+})
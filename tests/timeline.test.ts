@@ -5,11 +5,18 @@ import {
   buildTimelineSegments,
   createInitialTimelineState,
   ensureCurrentTimeVisible,
+  getDayBoundaryUnixSec,
+  getJstDayBoundaryUnixSec,
   getOverlayWindowRange,
   mapRealToVirtualTime,
   mapVirtualToRealTime,
   timelineReducer,
 } from '../src/features/timeline/timeline.js'
+import {
+  buildConcurrencyHistogram,
+  buildHourlyEventCounts,
+} from '../src/features/timeline/activity.js'
+import type { CharacterTrack } from '../src/features/domain/characters.js'
 
 test('timeline mapping compresses gaps out of virtual time', () => {
   const segments = buildTimelineSegments(
@@ -142,3 +149,71 @@ test('timelineReducer advances focus window in events mode', () => {
   assert.equal(next.focusWindowStart, 20)
   assert.equal(next.isPlaying, true)
 })
+
+test('getDayBoundaryUnixSec places midnights in the requested timezone', () => {
+  const start = Date.parse('2026-02-01T21:00:00+09:00') / 1000
+  const end = Date.parse('2026-02-03T12:00:00+09:00') / 1000
+
+  assert.deepEqual(getJstDayBoundaryUnixSec(start, end), [
+    Date.parse('2026-02-02T00:00:00+09:00') / 1000,
+    Date.parse('2026-02-03T00:00:00+09:00') / 1000,
+  ])
+  assert.deepEqual(getDayBoundaryUnixSec(start, end, 'UTC'), [
+    Date.parse('2026-02-02T00:00:00Z') / 1000,
+    Date.parse('2026-02-03T00:00:00Z') / 1000,
+  ])
+})
+
+test('buildConcurrencyHistogram reports the peak online count per bin', () => {
+  const character = (
+    charName: string,
+    start: number,
+    end: number,
+    offline: Array<[number, number]> = [],
+  ): CharacterTrack => ({
+    charName,
+    playerName: charName,
+    life: { start, end },
+    track: { t: [start, end], x: [0, 0], y: [0, 0] },
+    gaps: { offline },
+  })
+  const bins = buildConcurrencyHistogram(
+    [
+      character('alice', 0, 10_000, [[2_000, 6_000]]),
+      character('bob', 1_000, 3_000),
+      character('carol', 2_500, 2_600),
+    ],
+    [0, 1_000, 2_000, 3_000, 4_000, 8_000, 12_000],
+    600,
+  )
+
+  assert.deepEqual(
+    bins.map((bin) => bin.count),
+    [1, 2, 2, 0, 1, 1],
+  )
+})
+
+test('buildHourlyEventCounts buckets events by local hour and kind', () => {
+  const point = (id: string, kind: 'death' | 'login', time: number) => ({
+    id,
+    kind,
+    charName: 'alice',
+    playerName: 'alice',
+    x: 0,
+    y: 0,
+    time,
+  })
+  const bins = buildHourlyEventCounts(
+    [point('a', 'login', 1_800), point('b', 'death', 3_000), point('c', 'death', 4_000)],
+    { start: 1_800, end: 7_000 },
+    'UTC',
+  )
+
+  assert.deepEqual(
+    bins.map((bin) => [bin.start, bin.total, bin.counts.death ?? 0]),
+    [
+      [0, 2, 1],
+      [3_600, 1, 1],
+    ],
+  )
+})
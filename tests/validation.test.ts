@@ -0,0 +1,101 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  formatValidationReport,
+  hasValidationErrors,
+  summarizeValidationIssues,
+  validateSnapshotData,
+  validateTracksData,
+} from '../src/features/validation/validation.js'
+
+const bounds = {
+  worldW: 12000,
+  worldH: 12600,
+  mapW: 22562,
+  mapH: 23690,
+  worldMinX: 3000,
+  worldMinY: 900,
+}
+
+test('validateTracksData reports length mismatches, backward time and out-of-bounds samples', () => {
+  const issues = validateTracksData({
+    meta: { bounds },
+    characters: {
+      broken: {
+        charName: 'broken',
+        playerName: 'p1',
+        life: { start: 0, end: 10 },
+        track: { t: [0, 10], x: [5000], y: [6000, 6001] },
+        gaps: { offline: [] },
+      },
+      wobbly: {
+        charName: 'wobbly',
+        playerName: 'p2',
+        life: { start: 0, end: 30 },
+        track: { t: [0, 20, 10, 30], x: [5000, 5001, 100, 5003], y: [6000, 6001, 6002, 6003] },
+        gaps: { offline: [] },
+      },
+    },
+  })
+
+  assert.deepEqual(
+    issues.map((issue) => [issue.kind, issue.charName, issue.count]),
+    [
+      ['length-mismatch', 'broken', 1],
+      ['non-monotonic-time', 'wobbly', 1],
+      ['out-of-bounds', 'wobbly', 1],
+    ],
+  )
+  assert.equal(hasValidationErrors(issues), true)
+  assert.match(formatValidationReport(issues), /\[error\] length-mismatch "broken"/)
+  assert.equal(
+    summarizeValidationIssues(issues),
+    '配列長の不一致 1件 / 時刻の逆行 1件 / 範囲外の座標 1件',
+  )
+})
+
+test('validateTracksData flags characters missing from the snapshot as warnings', () => {
+  const tracks = {
+    meta: {},
+    characters: {
+      alice: {
+        charName: 'alice',
+        playerName: 'p1',
+        life: { start: 0, end: 0 },
+        track: { t: [0], x: [1], y: [1] },
+        gaps: { offline: [] },
+      },
+    },
+  }
+
+  const issues = validateTracksData(tracks, { data: { '1': { name: 'bob' } } })
+  assert.deepEqual(
+    issues.map((issue) => [issue.kind, issue.severity]),
+    [['orphan-character', 'warning']],
+  )
+  assert.equal(hasValidationErrors(issues), false)
+  assert.deepEqual(validateTracksData(tracks, { data: { '1': { name: 'alice' } } }), [])
+  assert.equal(validateSnapshotData({ data: [] })[0]?.kind, 'invalid-snapshot')
+  assert.equal(validateTracksData(null)[0]?.kind, 'invalid-structure')
+})
+
+test('validateTracksData reuses unchanged characters but re-checks them against new bounds', () => {
+  const alice = {
+    charName: 'alice',
+    playerName: 'p1',
+    life: { start: 0, end: 0 },
+    track: { t: [0], x: [100], y: [100] },
+    gaps: { offline: [] },
+  }
+
+  const outside = validateTracksData({ meta: { bounds }, characters: { alice } })
+  assert.deepEqual(outside.map((issue) => issue.kind), ['out-of-bounds'])
+  assert.equal(validateTracksData({ meta: { bounds }, characters: { alice } })[0], outside[0])
+  assert.deepEqual(
+    validateTracksData({
+      meta: { bounds: { ...bounds, worldMinX: 0, worldMinY: 0 } },
+      characters: { alice },
+    }),
+    [],
+  )
+})
@@ -1,13 +1,321 @@
 ﻿import fs from 'node:fs'
 import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { encodeBinaryTracks } from '../src/features/loader/binaryTracks.js'
+import {
+  formatValidationReport,
+  hasValidationErrors,
+  validateSnapshotData,
+  validateTracksData,
+} from '../src/features/validation/validation.js'
 
 function parseCsvLine(line) {
   return line.split(',').map((value) => value.trim())
 }
 
-function unixSecFromJst(y, m, d, hh = 0, mm = 0, ss = 0) {
-  const utcMs = Date.UTC(y, m - 1, d, hh - 9, mm, ss)
-  return Math.floor(utcMs / 1000)
+const DEFAULT_TIME_ZONE = 'Asia/Tokyo'
+const DEFAULT_OFFLINE_GAP_SEC = 2 * 60 * 60
+const BUILD_STATE_VERSION = 2
+
+function assertTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+  } catch {
+    throw new Error(`Unknown timezone: "${timeZone}"`)
+  }
+  return timeZone
+}
+
+function getTimeZoneOffsetSec(timeZone, unixSec) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(unixSec * 1000))
+  const read = (type) => Number(parts.find((part) => part.type === type)?.value ?? 0)
+  const localAsUtcMs = Date.UTC(
+    read('year'),
+    read('month') - 1,
+    read('day'),
+    read('hour'),
+    read('minute'),
+    read('second'),
+  )
+  return Math.round(localAsUtcMs / 1000 - unixSec)
+}
+
+function parseDateTimeInTimeZone(value, timeZone) {
+  const trimmed = String(value ?? '').trim()
+  const match = trimmed.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?(Z|[+-]\d{2}:?\d{2})?$/,
+  )
+  if (!match) {
+    throw new Error(`Invalid period datetime: "${trimmed}" (expected YYYY-MM-DD[THH:mm[:ss]][offset])`)
+  }
+  if (match[7]) {
+    return Math.floor(Date.parse(trimmed.replace(' ', 'T')) / 1000)
+  }
+
+  const [, y, m, d, hh = '0', mm = '0', ss = '0'] = match
+  const localAsUtcSec = Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)) / 1000
+  const guess = localAsUtcSec - getTimeZoneOffsetSec(timeZone, localAsUtcSec)
+  return localAsUtcSec - getTimeZoneOffsetSec(timeZone, guess)
+}
+
+function formatIsoInTimeZone(unixSec, timeZone) {
+  const offsetSec = getTimeZoneOffsetSec(timeZone, unixSec)
+  const local = new Date((unixSec + offsetSec) * 1000).toISOString().slice(0, 19)
+  const sign = offsetSec < 0 ? '-' : '+'
+  const absMinutes = Math.floor(Math.abs(offsetSec) / 60)
+  const offsetHours = String(Math.floor(absMinutes / 60)).padStart(2, '0')
+  const offsetMinutes = String(absMinutes % 60).padStart(2, '0')
+  return `${local}${sign}${offsetHours}:${offsetMinutes}`
+}
+
+function loadBuildConfig(argv) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: 'string' },
+      start: { type: 'string' },
+      end: { type: 'string' },
+      timezone: { type: 'string' },
+      season: { type: 'string' },
+      name: { type: 'string' },
+      data: { type: 'string' },
+      binary: { type: 'boolean' },
+      chunked: { type: 'boolean' },
+      append: { type: 'boolean' },
+      'offline-gap': { type: 'string' },
+    },
+  })
+
+  let fileConfig = {}
+  if (values.config) {
+    const configPath = path.resolve(values.config)
+    if (!fs.existsSync(configPath)) {
+      throw new Error(`Config file not found: ${configPath}`)
+    }
+    fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'))
+  }
+
+  const timeZone = assertTimeZone(values.timezone ?? fileConfig.timezone ?? DEFAULT_TIME_ZONE)
+  const rawStart = values.start ?? fileConfig.period?.start ?? null
+  const rawEnd = values.end ?? fileConfig.period?.end ?? null
+  const periodStart = rawStart != null ? parseDateTimeInTimeZone(rawStart, timeZone) : null
+  const periodEnd = rawEnd != null ? parseDateTimeInTimeZone(rawEnd, timeZone) : null
+
+  if (periodStart != null && periodEnd != null && periodEnd <= periodStart) {
+    throw new Error(`Period end (${rawEnd}) must be after period start (${rawStart})`)
+  }
+
+  const seasonId = String(values.season ?? fileConfig.season ?? '').trim()
+  if (seasonId && !/^[A-Za-z0-9._-]+$/.test(seasonId)) {
+    throw new Error(`Invalid season id: "${seasonId}" (use letters, digits, ".", "_" or "-")`)
+  }
+  const seasonName = String(values.name ?? fileConfig.name ?? '').trim() || seasonId
+
+  const dataDir = values.data ?? fileConfig.dataDir ?? null
+
+  const binary = values.binary ?? fileConfig.binary === true
+  const chunked = values.chunked ?? fileConfig.chunked === true
+  const append = values.append ?? fileConfig.append === true
+
+  const rawOfflineGap = values['offline-gap'] ?? fileConfig.offlineGapSec ?? DEFAULT_OFFLINE_GAP_SEC
+  const offlineGapSec = Number(rawOfflineGap)
+  if (!Number.isFinite(offlineGapSec) || offlineGapSec <= 0) {
+    throw new Error(`Invalid offline gap: "${rawOfflineGap}" (use a positive number of seconds)`)
+  }
+
+  return {
+    timeZone,
+    periodStart,
+    periodEnd,
+    seasonId,
+    seasonName,
+    dataDir,
+    binary,
+    chunked,
+    append,
+    offlineGapSec,
+  }
+}
+
+function updateSeasonCatalog(catalogPath, entry) {
+  const catalog = fs.existsSync(catalogPath)
+    ? JSON.parse(fs.readFileSync(catalogPath, 'utf-8'))
+    : { version: 1, seasons: [] }
+  const seasons = (Array.isArray(catalog.seasons) ? catalog.seasons : []).filter(
+    (season) => season?.id !== entry.id,
+  )
+  seasons.push(entry)
+  seasons.sort((a, b) => {
+    const startA = Date.parse(a?.period?.start ?? '') || 0
+    const startB = Date.parse(b?.period?.start ?? '') || 0
+    return startB - startA || String(a?.id).localeCompare(String(b?.id))
+  })
+  fs.writeFileSync(catalogPath, JSON.stringify({ version: 1, seasons }, null, 2), 'utf-8')
+}
+
+const EVENT_TYPE_ALIASES = new Map([
+  ['login', 'login'],
+  ['connect', 'login'],
+  ['connected', 'login'],
+  ['join', 'login'],
+  ['logout', 'logout'],
+  ['disconnect', 'logout'],
+  ['disconnected', 'logout'],
+  ['quit', 'logout'],
+  ['death', 'death'],
+  ['dead', 'death'],
+  ['died', 'death'],
+  ['respawn', 'respawn'],
+  ['spawn', 'respawn'],
+  ['vehicleenter', 'vehicleEnter'],
+  ['entervehicle', 'vehicleEnter'],
+  ['vehicleexit', 'vehicleExit'],
+  ['exitvehicle', 'vehicleExit'],
+])
+
+function normalizeEventType(rawEvent) {
+  const key = String(rawEvent ?? '').toLowerCase().replace(/[^a-z0-9]/g, '')
+  return EVENT_TYPE_ALIASES.get(key) ?? 'other'
+}
+
+function getLocalDayId(unixSec, timeZone) {
+  return formatIsoInTimeZone(unixSec, timeZone).slice(0, 10)
+}
+
+function getNextDayId(dayId) {
+  const [y, m, d] = dayId.split('-').map(Number)
+  return new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10)
+}
+
+function getSkeletonIndexes(times, offlineGapSec) {
+  const indexes = new Set()
+  if (times.length === 0) {
+    return []
+  }
+  indexes.add(0)
+  indexes.add(times.length - 1)
+  for (let index = 1; index < times.length; index += 1) {
+    if (times[index] - times[index - 1] > offlineGapSec) {
+      indexes.add(index - 1)
+      indexes.add(index)
+    }
+  }
+  return [...indexes].sort((a, b) => a - b)
+}
+
+function buildTrackChunks(tracks, timeZone, offlineGapSec) {
+  const chunksById = new Map()
+  const summaries = {}
+
+  for (const [charName, character] of Object.entries(tracks.characters)) {
+    const { track, ...rest } = character
+    const skeleton = getSkeletonIndexes(track.t, offlineGapSec)
+    summaries[charName] = {
+      ...rest,
+      track: {
+        t: skeleton.map((index) => track.t[index]),
+        x: skeleton.map((index) => track.x[index]),
+        y: skeleton.map((index) => track.y[index]),
+      },
+    }
+
+    for (let index = 0; index < track.t.length; index += 1) {
+      const dayId = getLocalDayId(track.t[index], timeZone)
+      let chunk = chunksById.get(dayId)
+      if (!chunk) {
+        chunk = { id: dayId, characters: {}, sampleCount: 0 }
+        chunksById.set(dayId, chunk)
+      }
+      let series = chunk.characters[charName]
+      if (!series) {
+        series = { t: [], x: [], y: [] }
+        chunk.characters[charName] = series
+      }
+      series.t.push(track.t[index])
+      series.x.push(track.x[index])
+      series.y.push(track.y[index])
+      chunk.sampleCount += 1
+    }
+  }
+
+  const chunks = [...chunksById.values()]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((chunk) => ({
+      ...chunk,
+      start: parseDateTimeInTimeZone(chunk.id, timeZone),
+      end: parseDateTimeInTimeZone(getNextDayId(chunk.id), timeZone),
+      file: `${chunk.id}.json`,
+    }))
+
+  return {
+    index: {
+      version: 1,
+      meta: tracks.meta,
+      chunks: chunks.map(({ id, start, end, file, sampleCount }) => ({
+        id,
+        start,
+        end,
+        file,
+        sampleCount,
+      })),
+      characters: summaries,
+    },
+    chunks,
+  }
+}
+
+function readCsvFrom(filePath, offset) {
+  const fd = fs.openSync(filePath, 'r')
+  try {
+    const size = fs.fstatSync(fd).size
+    const buffer = Buffer.alloc(Math.max(0, size - offset))
+    fs.readSync(fd, buffer, 0, buffer.length, offset)
+    const consumed = buffer.lastIndexOf(0x0a) + 1
+    const text = buffer.subarray(0, consumed).toString('utf-8')
+    return { text, endOffset: offset + consumed }
+  } finally {
+    fs.closeSync(fd)
+  }
+}
+
+function readFirstLine(filePath) {
+  const fd = fs.openSync(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(512)
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0)
+    return buffer.subarray(0, bytesRead).toString('utf-8').split(/\r?\n/)[0]
+  } finally {
+    fs.closeSync(fd)
+  }
+}
+
+function loadAppendState(statePath, fingerprint, csvFilePath, tracksFilePath) {
+  if (!fs.existsSync(statePath)) {
+    return { state: null, reason: 'no previous build state' }
+  }
+  if (!fs.existsSync(tracksFilePath)) {
+    return { state: null, reason: 'previous tracks.json not found' }
+  }
+  const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'))
+  if (state.version !== BUILD_STATE_VERSION) {
+    return { state: null, reason: 'build state format changed' }
+  }
+  if (JSON.stringify(state.fingerprint) !== JSON.stringify(fingerprint)) {
+    return { state: null, reason: 'build options changed' }
+  }
+  if (fs.statSync(csvFilePath).size < state.byteOffset || readFirstLine(csvFilePath) !== state.firstLine) {
+    return { state: null, reason: 'movement.csv was replaced' }
+  }
+  return { state, reason: '' }
 }
 
 function isExcludedPlayerName(value) {
@@ -38,18 +346,29 @@ function isPlayerNameFallbackValue(playerName, playerId) {
   return normalizedName === normalizedId
 }
 
-const PERIOD_START = unixSecFromJst(2026, 2, 1, 21, 0, 0)
-const PERIOD_END = unixSecFromJst(2026, 2, 28, 23, 0, 0)
-const OFFLINE_GAP_SEC = 2 * 60 * 60
+const buildConfig = loadBuildConfig(process.argv.slice(2))
+const TIME_ZONE = buildConfig.timeZone
+const PERIOD_START = buildConfig.periodStart ?? Number.NEGATIVE_INFINITY
+const PERIOD_END = buildConfig.periodEnd ?? Number.POSITIVE_INFINITY
+const OFFLINE_GAP_SEC = buildConfig.offlineGapSec
 
 const ROOT = process.cwd()
-const dataDir = path.join(ROOT, 'data')
+const dataDir = buildConfig.dataDir ? path.resolve(buildConfig.dataDir) : path.join(ROOT, 'data')
 const publicDataDir = path.join(ROOT, 'public', 'data')
 const csvPath = path.join(dataDir, 'movement.csv')
 const snapshotPath = path.join(dataDir, 'snapshot.json')
 const mapLatestPath = path.join(dataDir, 'map_latest.bmp')
-const tracksOutPath = path.join(publicDataDir, 'tracks.json')
-const snapshotOutPath = path.join(publicDataDir, 'snapshot.json')
+const seasonRelativeDir = buildConfig.seasonId ? `seasons/${buildConfig.seasonId}/` : ''
+const seasonOutDir = path.join(publicDataDir, seasonRelativeDir)
+const tracksOutPath = path.join(seasonOutDir, 'tracks.json')
+const binaryTracksOutPath = path.join(seasonOutDir, 'tracks.bin')
+const chunksOutDir = path.join(seasonOutDir, 'chunks')
+const snapshotOutPath = path.join(seasonOutDir, 'snapshot.json')
+const catalogOutPath = path.join(publicDataDir, 'catalog.json')
+const buildStatePath = path.join(
+  dataDir,
+  buildConfig.seasonId ? `.build_tracks.${buildConfig.seasonId}.state.json` : '.build_tracks.state.json',
+)
 const mapLatestOutPath = path.join(publicDataDir, 'map_latest.bmp')
 
 const snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8'))
@@ -117,7 +436,77 @@ function getOrCreateCharacter(charName) {
   return characters.get(charName)
 }
 
-const lines = fs.readFileSync(csvPath, 'utf-8').split(/\r?\n/).filter(Boolean)
+const eventsByCharacter = new Map()
+const eventKeysByCharacter = new Map()
+
+function pushCharacterEvent(charName, t, rawEvent, x, y) {
+  const type = normalizeEventType(rawEvent)
+  const event = {
+    t,
+    type,
+    x: Number.isFinite(x) ? x : null,
+    y: Number.isFinite(y) ? y : null,
+  }
+  if (type === 'other') {
+    event.raw = rawEvent
+  }
+  const key = `${t}:${type}:${event.raw ?? ''}`
+  const keys = eventKeysByCharacter.get(charName) ?? new Set()
+  if (keys.has(key)) {
+    return
+  }
+  keys.add(key)
+  eventKeysByCharacter.set(charName, keys)
+  const list = eventsByCharacter.get(charName)
+  if (list) {
+    list.push(event)
+  } else {
+    eventsByCharacter.set(charName, [event])
+  }
+}
+
+let observedStart = Number.POSITIVE_INFINITY
+let observedEnd = Number.NEGATIVE_INFINITY
+const appendFingerprint = {
+  timeZone: TIME_ZONE,
+  periodStart: buildConfig.periodStart,
+  periodEnd: buildConfig.periodEnd,
+  offlineGapSec: OFFLINE_GAP_SEC,
+}
+const { state: appendState, reason: fullRebuildReason } = buildConfig.append
+  ? loadAppendState(buildStatePath, appendFingerprint, csvPath, tracksOutPath)
+  : { state: null, reason: '' }
+
+if (appendState) {
+  const previousTracks = JSON.parse(fs.readFileSync(tracksOutPath, 'utf-8'))
+  for (const [charName, character] of Object.entries(previousTracks.characters ?? {})) {
+    if (excludedCharacterNames.has(charName)) {
+      continue
+    }
+    const { events = [], ...rest } = character
+    characters.set(charName, {
+      ...rest,
+      playerName: charToPlayerName.get(charName) ?? character.playerName ?? '',
+    })
+    for (const event of events) {
+      pushCharacterEvent(charName, event.t, event.raw ?? event.type, event.x, event.y)
+    }
+    observedStart = Math.min(observedStart, character.life.start)
+    observedEnd = Math.max(observedEnd, character.life.end)
+  }
+  for (const [charName, events] of Object.entries(appendState.pendingEvents ?? {})) {
+    if (excludedCharacterNames.has(charName)) {
+      continue
+    }
+    for (const event of events) {
+      pushCharacterEvent(charName, event.t, event.raw ?? event.type, event.x, event.y)
+    }
+  }
+}
+
+const csvStartOffset = appendState ? appendState.byteOffset : 0
+const csvRead = readCsvFrom(csvPath, csvStartOffset)
+const lines = csvRead.text.split(/\r?\n/).filter(Boolean)
 
 for (const line of lines) {
   const cols = parseCsvLine(line)
@@ -131,19 +520,22 @@ for (const line of lines) {
   const y = Number.parseInt(cols[4], 10)
   const event = cols.length >= 7 ? String(cols[6] ?? '').trim() : 'move'
 
-  if (!Number.isFinite(t) || !Number.isFinite(x) || !Number.isFinite(y)) {
+  if (!Number.isFinite(t) || !charName) {
     continue
   }
-  if (!charName) {
+  if (excludedCharacterNames.has(charName)) {
     continue
   }
-  if (excludedCharacterNames.has(charName)) {
+  if (t < PERIOD_START || t > PERIOD_END) {
     continue
   }
   if (event !== 'move') {
+    if (event) {
+      pushCharacterEvent(charName, t, event, x, y)
+    }
     continue
   }
-  if (t < PERIOD_START || t > PERIOD_END) {
+  if (!Number.isFinite(x) || !Number.isFinite(y)) {
     continue
   }
 
@@ -177,14 +569,35 @@ for (const line of lines) {
     character.life.start = t
   }
   character.life.end = t
+  observedStart = Math.min(observedStart, t)
+  observedEnd = Math.max(observedEnd, t)
+}
+
+let eventCount = 0
+const pendingEvents = new Map()
+for (const [charName, events] of eventsByCharacter) {
+  events.sort((a, b) => a.t - b.t)
+  const character = characters.get(charName)
+  if (!character) {
+    pendingEvents.set(charName, events)
+    continue
+  }
+  character.events = events
+  eventCount += events.length
+}
+
+const resolvedPeriodStart = Number.isFinite(PERIOD_START) ? PERIOD_START : observedStart
+const resolvedPeriodEnd = Number.isFinite(PERIOD_END) ? PERIOD_END : observedEnd
+if (!Number.isFinite(resolvedPeriodStart) || !Number.isFinite(resolvedPeriodEnd)) {
+  throw new Error('Could not resolve the collection period: no movement rows and no --start/--end given')
 }
 
 const tracks = {
   meta: {
-    timezone: 'Asia/Tokyo',
-    periodJST: {
-      start: '2026-02-01T21:00:00+09:00',
-      end: '2026-02-28T23:00:00+09:00',
+    timezone: TIME_ZONE,
+    period: {
+      start: formatIsoInTimeZone(resolvedPeriodStart, TIME_ZONE),
+      end: formatIsoInTimeZone(resolvedPeriodEnd, TIME_ZONE),
     },
     bounds: {
       worldW: 15000 - 3000,
@@ -200,21 +613,101 @@ const tracks = {
   characters: Object.fromEntries(characters.entries()),
 }
 
-fs.mkdirSync(publicDataDir, { recursive: true })
+const validationIssues = [
+  ...validateSnapshotData(publicSnapshot),
+  ...validateTracksData(tracks, publicSnapshot),
+]
+if (hasValidationErrors(validationIssues)) {
+  throw new Error(`Track validation failed:\n${formatValidationReport(validationIssues)}`)
+}
+if (validationIssues.length > 0) {
+  console.warn(`Track validation warnings:\n${formatValidationReport(validationIssues)}`)
+}
+
+fs.mkdirSync(seasonOutDir, { recursive: true })
 fs.writeFileSync(tracksOutPath, JSON.stringify(tracks), 'utf-8')
+if (buildConfig.binary) {
+  fs.writeFileSync(binaryTracksOutPath, encodeBinaryTracks(tracks))
+} else {
+  fs.rmSync(binaryTracksOutPath, { force: true })
+}
+fs.rmSync(chunksOutDir, { recursive: true, force: true })
+let trackChunkCount = 0
+if (buildConfig.chunked) {
+  const { index, chunks } = buildTrackChunks(tracks, TIME_ZONE, OFFLINE_GAP_SEC)
+  fs.mkdirSync(chunksOutDir, { recursive: true })
+  for (const { id, start, end, file, characters: chunkCharacters } of chunks) {
+    fs.writeFileSync(
+      path.join(chunksOutDir, file),
+      JSON.stringify({ id, start, end, characters: chunkCharacters }),
+      'utf-8',
+    )
+  }
+  fs.writeFileSync(path.join(chunksOutDir, 'index.json'), JSON.stringify(index), 'utf-8')
+  trackChunkCount = chunks.length
+}
 fs.writeFileSync(snapshotOutPath, JSON.stringify(publicSnapshot), 'utf-8')
+if (buildConfig.seasonId) {
+  const playerNames = new Set(
+    [...characters.values()].map((character) => character.playerName).filter(Boolean),
+  )
+  updateSeasonCatalog(catalogOutPath, {
+    id: buildConfig.seasonId,
+    name: buildConfig.seasonName,
+    path: seasonRelativeDir,
+    timezone: TIME_ZONE,
+    period: tracks.meta.period,
+    characterCount: characters.size,
+    playerCount: playerNames.size,
+  })
+}
+fs.writeFileSync(
+  buildStatePath,
+  JSON.stringify({
+    version: BUILD_STATE_VERSION,
+    fingerprint: appendFingerprint,
+    byteOffset: csvRead.endOffset,
+    firstLine: readFirstLine(csvPath),
+    pendingEvents: Object.fromEntries(pendingEvents.entries()),
+  }),
+  'utf-8',
+)
 const copiedMaps = []
 if (fs.existsSync(mapLatestPath)) {
   fs.copyFileSync(mapLatestPath, mapLatestOutPath)
   copiedMaps.push(mapLatestOutPath)
 }
 
+if (appendState) {
+  console.log('Appended', lines.length, 'rows from byte', csvStartOffset)
+} else if (buildConfig.append) {
+  console.log('Full rebuild:', fullRebuildReason)
+}
 console.log('Wrote', tracksOutPath)
+if (buildConfig.binary) {
+  console.log('Wrote', binaryTracksOutPath)
+}
+if (buildConfig.chunked) {
+  console.log('Wrote', chunksOutDir, `(${trackChunkCount} daily chunks)`)
+}
 console.log('Copied', snapshotOutPath)
+if (buildConfig.seasonId) {
+  console.log('Updated', catalogOutPath, `(season ${buildConfig.seasonId})`)
+}
 for (const copiedMapPath of copiedMaps) {
   console.log('Copied', copiedMapPath)
 }
 if (copiedMaps.length === 0) {
   console.log('Map image not found in data/:', 'map_latest.bmp')
 }
+console.log('Period:', tracks.meta.period.start, '-', tracks.meta.period.end, `(${TIME_ZONE})`)
 console.log('Characters:', characters.size)
+console.log('Events:', eventCount)
+if (pendingEvents.size > 0) {
+  const pendingEventCount = [...pendingEvents.values()].reduce((sum, events) => sum + events.length, 0)
+  console.warn(
+    'Events waiting for movement rows (kept in build state):',
+    pendingEventCount,
+    `(${[...pendingEvents.entries()].map(([charName, events]) => `${charName}: ${events.length}`).join(', ')})`,
+  )
+}
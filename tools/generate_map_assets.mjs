@@ -0,0 +1,287 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import sharp from 'sharp'
+
+const WORLD = {
+  minX: 3000,
+  maxX: 15000,
+  minY: 900,
+  maxY: 13500,
+  scalePxPerTile: 1.88,
+}
+
+function clampInt(value, min, max) {
+  return Math.min(Math.max(Math.round(value), min), max)
+}
+
+function readPositiveInt(value, fallback, label) {
+  if (value == null) {
+    return fallback
+  }
+  const parsed = Number.parseInt(value, 10)
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${label} must be a positive integer: "${value}"`)
+  }
+  return parsed
+}
+
+function parseTileScales(value) {
+  const scales = [
+    ...new Set(
+      String(value)
+        .split(',')
+        .map((part) => Number.parseFloat(part.trim()))
+        .filter((scale) => Number.isFinite(scale) && scale > 0)
+        .map((scale) => Math.round(scale * 1e6) / 1e6),
+    ),
+  ].sort((a, b) => b - a)
+
+  if (scales.length === 0) {
+    throw new Error('--tile-scales must contain at least one positive numeric scale.')
+  }
+  return scales
+}
+
+function loadOptions(argv) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      source: { type: 'string' },
+      out: { type: 'string' },
+      'tile-size': { type: 'string' },
+      'tile-scales': { type: 'string' },
+      'tile-quality': { type: 'string' },
+      'lowres-max': { type: 'string' },
+      'lowres-quality': { type: 'string' },
+      'skip-tiles': { type: 'boolean', default: false },
+      'skip-lowres': { type: 'boolean', default: false },
+    },
+  })
+
+  return {
+    sourcePath: values.source ?? '',
+    outputDir: values.out ?? '',
+    tileSizePx: readPositiveInt(values['tile-size'], 512, '--tile-size'),
+    tileScales: parseTileScales(values['tile-scales'] ?? '1,0.5,0.25'),
+    tileQuality: clampInt(readPositiveInt(values['tile-quality'], 55, '--tile-quality'), 1, 100),
+    lowResMaxDimension: readPositiveInt(values['lowres-max'], 4096, '--lowres-max'),
+    lowResQuality: clampInt(readPositiveInt(values['lowres-quality'], 45, '--lowres-quality'), 1, 100),
+    skipTiles: values['skip-tiles'],
+    skipLowRes: values['skip-lowres'],
+  }
+}
+
+function resolveSourcePath(providedPath, dataDir) {
+  if (providedPath && fs.existsSync(providedPath)) {
+    return path.resolve(providedPath)
+  }
+
+  const candidates = [path.join(dataDir, 'map_latest.bmp'), path.join(dataDir, 'PZfullmap.png')]
+  for (const candidate of candidates) {
+    if (fs.existsSync(candidate)) {
+      return candidate
+    }
+  }
+
+  throw new Error('Source map image was not found. Expected one of: map_latest.bmp, PZfullmap.png')
+}
+
+function readBmp(filePath) {
+  const fd = fs.openSync(filePath, 'r')
+  try {
+    const header = Buffer.alloc(54)
+    fs.readSync(fd, header, 0, header.length, 0)
+    if (header.toString('ascii', 0, 2) !== 'BM') {
+      throw new Error(`Not a BMP file: ${filePath}`)
+    }
+
+    const pixelOffset = header.readUInt32LE(10)
+    const width = header.readInt32LE(18)
+    const rawHeight = header.readInt32LE(22)
+    const bitsPerPixel = header.readUInt16LE(28)
+    const compression = header.readUInt32LE(30)
+    const height = Math.abs(rawHeight)
+    const topDown = rawHeight < 0
+
+    if (bitsPerPixel !== 24 && bitsPerPixel !== 32) {
+      throw new Error(`Unsupported BMP bit depth: ${bitsPerPixel} (expected 24 or 32)`)
+    }
+    if (compression !== 0 && !(compression === 3 && bitsPerPixel === 32)) {
+      throw new Error(`Unsupported BMP compression: ${compression}`)
+    }
+
+    const bytesPerPixel = bitsPerPixel / 8
+    const rowStride = Math.ceil((width * bytesPerPixel) / 4) * 4
+    const data = Buffer.alloc(width * height * 3)
+    const row = Buffer.alloc(rowStride)
+
+    for (let fileRow = 0; fileRow < height; fileRow += 1) {
+      fs.readSync(fd, row, 0, rowStride, pixelOffset + fileRow * rowStride)
+      const y = topDown ? fileRow : height - 1 - fileRow
+      let target = y * width * 3
+      for (let x = 0; x < width; x += 1) {
+        const source = x * bytesPerPixel
+        data[target] = row[source + 2]
+        data[target + 1] = row[source + 1]
+        data[target + 2] = row[source]
+        target += 3
+      }
+    }
+
+    return { data, width, height }
+  } finally {
+    fs.closeSync(fd)
+  }
+}
+
+async function loadSourceImage(filePath) {
+  if (path.extname(filePath).toLowerCase() === '.bmp') {
+    return readBmp(filePath)
+  }
+  const { data, info } = await sharp(filePath, { limitInputPixels: false })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  return { data, width: info.width, height: info.height }
+}
+
+function fromRaw(image) {
+  return sharp(image.data, {
+    limitInputPixels: false,
+    raw: { width: image.width, height: image.height, channels: 3 },
+  })
+}
+
+async function resizeImage(image, width, height) {
+  const { data, info } = await fromRaw(image)
+    .resize(width, height, { fit: 'fill', kernel: 'cubic' })
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  return { data, width: info.width, height: info.height }
+}
+
+function resetDir(dirPath) {
+  fs.rmSync(dirPath, { recursive: true, force: true })
+  fs.mkdirSync(dirPath, { recursive: true })
+}
+
+const options = loadOptions(process.argv.slice(2))
+const ROOT = process.cwd()
+const dataDir = path.join(ROOT, 'data')
+const outputRoot = options.outputDir
+  ? path.resolve(options.outputDir)
+  : path.join(ROOT, 'public', 'data', 'map')
+
+const sourceFilePath = resolveSourcePath(options.sourcePath, dataDir)
+fs.mkdirSync(outputRoot, { recursive: true })
+
+const mapImage = await loadSourceImage(sourceFilePath)
+const sourceWidth = mapImage.width
+const sourceHeight = mapImage.height
+
+let lowResManifest = { enabled: false }
+if (!options.skipLowRes) {
+  const lowDir = path.join(outputRoot, 'low')
+  resetDir(lowDir)
+
+  const resizeRatio = Math.min(
+    1,
+    options.lowResMaxDimension / sourceWidth,
+    options.lowResMaxDimension / sourceHeight,
+  )
+  const lowWidth = Math.max(1, Math.round(sourceWidth * resizeRatio))
+  const lowHeight = Math.max(1, Math.round(sourceHeight * resizeRatio))
+  const lowFileName = `map_low_q${options.lowResQuality}.jpg`
+
+  await fromRaw(mapImage)
+    .resize(lowWidth, lowHeight, { fit: 'fill', kernel: 'cubic' })
+    .jpeg({ quality: options.lowResQuality })
+    .toFile(path.join(lowDir, lowFileName))
+
+  lowResManifest = {
+    enabled: true,
+    file: `low/${lowFileName}`,
+    width: lowWidth,
+    height: lowHeight,
+    maxDimension: options.lowResMaxDimension,
+    quality: options.lowResQuality,
+  }
+}
+
+const tileLevelsManifest = []
+if (!options.skipTiles) {
+  const tilesRoot = path.join(outputRoot, 'tiles')
+  resetDir(tilesRoot)
+
+  for (const [levelIndex, scale] of options.tileScales.entries()) {
+    const levelName = `z${levelIndex}`
+    const levelDir = path.join(tilesRoot, levelName)
+    fs.mkdirSync(levelDir, { recursive: true })
+
+    const levelWidth = Math.max(1, Math.round(sourceWidth * scale))
+    const levelHeight = Math.max(1, Math.round(sourceHeight * scale))
+    const levelImage =
+      Math.abs(scale - 1) < 1e-6 ? mapImage : await resizeImage(mapImage, levelWidth, levelHeight)
+
+    const columns = Math.ceil(levelWidth / options.tileSizePx)
+    const rows = Math.ceil(levelHeight / options.tileSizePx)
+
+    for (let tileY = 0; tileY < rows; tileY += 1) {
+      for (let tileX = 0; tileX < columns; tileX += 1) {
+        const left = tileX * options.tileSizePx
+        const top = tileY * options.tileSizePx
+        await fromRaw(levelImage)
+          .extract({
+            left,
+            top,
+            width: Math.min(options.tileSizePx, levelWidth - left),
+            height: Math.min(options.tileSizePx, levelHeight - top),
+          })
+          .jpeg({ quality: options.tileQuality })
+          .toFile(path.join(levelDir, `${tileX}_${tileY}.jpg`))
+      }
+    }
+
+    tileLevelsManifest.push({
+      id: levelName,
+      scale,
+      width: levelWidth,
+      height: levelHeight,
+      columns,
+      rows,
+      path: `tiles/${levelName}`,
+    })
+  }
+}
+
+const manifest = {
+  version: 1,
+  generatedAt: new Date().toISOString(),
+  source: {
+    file: path.basename(sourceFilePath),
+    width: sourceWidth,
+    height: sourceHeight,
+  },
+  world: WORLD,
+  lowRes: lowResManifest,
+  tiles: {
+    enabled: !options.skipTiles,
+    sizePx: options.tileSizePx,
+    quality: options.tileQuality,
+    levels: tileLevelsManifest,
+  },
+}
+
+const manifestPath = path.join(outputRoot, 'manifest.json')
+fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8')
+
+console.log('Source:', sourceFilePath)
+if (lowResManifest.enabled) {
+  console.log('LowRes:', path.join(outputRoot, lowResManifest.file))
+}
+if (!options.skipTiles) {
+  console.log('Tiles:', path.join(outputRoot, 'tiles'))
+  console.log('Tile levels:', tileLevelsManifest.length)
+}
+console.log('Manifest:', manifestPath)
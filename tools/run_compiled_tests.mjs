@@ -2,10 +2,16 @@ import { spawnSync } from 'node:child_process'
 import { resolve } from 'node:path'
 
 const files = [
+  resolve('node_modules/.tmp/tests/tests/builder.test.js'),
+  resolve('node_modules/.tmp/tests/tests/catalog.test.js'),
   resolve('node_modules/.tmp/tests/tests/domain.test.js'),
   resolve('node_modules/.tmp/tests/tests/events.test.js'),
+  resolve('node_modules/.tmp/tests/tests/loader.test.js'),
+  resolve('node_modules/.tmp/tests/tests/profile.test.js'),
   resolve('node_modules/.tmp/tests/tests/ranking.test.js'),
+  resolve('node_modules/.tmp/tests/tests/stats.test.js'),
   resolve('node_modules/.tmp/tests/tests/timeline.test.js'),
+  resolve('node_modules/.tmp/tests/tests/validation.test.js'),
 ]
 
 const result = spawnSync(process.execPath, ['--test', ...files], {